@@ -0,0 +1,301 @@
+/**
+ * EAR HTTP Decision Service
+ *
+ * Exposes receiveToolCall over a small local HTTP API (Node `http`, no
+ * dependencies) so agents not written in TypeScript can sit behind the
+ * same mediator. Responses carry canonical decision events
+ * (contracts/decision_event.schema.json) read back from the decision log.
+ *
+ * Endpoints:
+ * - POST /v1/tool-calls           submit an OpenClaw tool call, returns { decision }
+ * - GET  /v1/decisions?limit=N    most recent decision events, newest last
+ * - GET  /v1/decisions/stream     Server-Sent Events: the last `limit` decisions, then live ones
+ * - GET  /v1/decisions/:hash      the decision event for a decision_hash
+ *
+ * The service only returns verdicts: it never executes a call, ALLOWed or
+ * not. POST bodies must be sent as application/json and requests from a
+ * foreign Origin are refused, so a web page cannot submit calls through
+ * the user's browser. The service binds to loopback by default and has no
+ * authentication; do not expose it beyond the host.
+ */
+
+import * as http from 'http';
+import { receiveToolCall, OpenClawToolCall } from '../openclaw/openclaw_adapter';
+import { DecisionEvent } from '../../proof/decision_event';
+import { openLogStore } from '../../proof/log_store';
+import { getDecisionLogPath, onDecisionEvent } from '../../proof/openclaw_intercept/decision_logger';
+
+export interface DecisionServiceOptions {
+  max_body_bytes?: number; // Request body cap (default 1 MiB)
+  default_limit?: number; // Recent decisions returned when no limit is given (default 50)
+}
+
+export interface ToolCallResponse {
+  decision: DecisionEvent;
+}
+
+export const DEFAULT_SERVICE_PORT = 8787;
+export const DEFAULT_SERVICE_HOST = '127.0.0.1';
+
+const DEFAULT_MAX_BODY_BYTES = 1_048_576;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 1000;
+const DECISION_HASH = /^[0-9a-f]{64}$/;
+
+/**
+ * Creates the decision service (not yet listening)
+ * @param options - Body and listing limits
+ * @returns Node HTTP server; call listen(port, host) to start it
+ */
+export function createDecisionService(options: DecisionServiceOptions = {}): http.Server {
+  const maxBodyBytes = options.max_body_bytes ?? DEFAULT_MAX_BODY_BYTES;
+  const defaultLimit = options.default_limit ?? DEFAULT_LIMIT;
+
+  return http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    route(req, res, url, maxBodyBytes, defaultLimit).catch((error) => {
+      const status = typeof error?.status === 'number' ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (!res.headersSent) {
+        sendJson(res, status, { error: message });
+      } else {
+        res.end();
+      }
+    });
+  });
+}
+
+/**
+ * Dispatches one request
+ */
+async function route(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL,
+  maxBodyBytes: number,
+  defaultLimit: number
+): Promise<void> {
+  const { pathname } = url;
+
+  if (pathname === '/v1/tool-calls') {
+    requireMethod(req, 'POST');
+    requireSameOrigin(req);
+    requireJson(req);
+    sendJson(res, 200, await submitToolCall(parseToolCall(await readBody(req, maxBodyBytes))));
+    return;
+  }
+
+  if (pathname === '/v1/decisions') {
+    requireMethod(req, 'GET');
+    sendJson(res, 200, readDecisions().slice(-parseLimit(url, defaultLimit)));
+    return;
+  }
+
+  if (pathname === '/v1/decisions/stream') {
+    requireMethod(req, 'GET');
+    streamDecisions(req, res, parseLimit(url, defaultLimit));
+    return;
+  }
+
+  const match = /^\/v1\/decisions\/([^/]+)$/.exec(pathname);
+  if (match) {
+    requireMethod(req, 'GET');
+    const hash = match[1].toLowerCase();
+    if (!DECISION_HASH.test(hash)) {
+      throw httpError(400, 'decision_hash must be 64 hex characters');
+    }
+
+    const event = findDecision(hash);
+    if (!event) {
+      throw httpError(404, `No decision logged for ${hash}`);
+    }
+    sendJson(res, 200, event);
+    return;
+  }
+
+  throw httpError(404, `Unknown endpoint ${pathname}`);
+}
+
+/**
+ * Runs a tool call through the mediator and returns its logged decision event
+ * (an ALLOW capability is discarded: the caller executes the call itself)
+ * @param call - OpenClaw tool call
+ */
+async function submitToolCall(call: OpenClawToolCall): Promise<ToolCallResponse> {
+  const result = await receiveToolCall(call);
+
+  const decision = findDecision(result.decision_hash);
+  if (!decision) {
+    throw httpError(500, `Decision ${result.decision_hash} was not found in the decision log`);
+  }
+
+  return { decision };
+}
+
+/**
+ * Writes the last `limit` decisions as SSE events, then every new one
+ * until the client disconnects
+ */
+function streamDecisions(req: http.IncomingMessage, res: http.ServerResponse, limit: number): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const send = (event: DecisionEvent) => {
+    res.write(`id: ${event.event_id}\nevent: decision\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Subscribe first so nothing logged while replaying is missed
+  const buffered: DecisionEvent[] = [];
+  let replaying = true;
+  const unsubscribe = onDecisionEvent((event) => {
+    if (event.event_type !== 'decision') return;
+    if (replaying) buffered.push(event);
+    else send(event);
+  });
+
+  const recent = readDecisions().slice(-limit);
+  const seen = new Set(recent.map((event) => event.event_id));
+  recent.forEach(send);
+  buffered.filter((event) => !seen.has(event.event_id)).forEach(send);
+  replaying = false;
+
+  req.on('close', unsubscribe);
+}
+
+/**
+ * Reads the decision events (event_type 'decision') from the decision log,
+ * rotated segments included
+ */
+function readDecisions(): DecisionEvent[] {
+  return openLogStore(getDecisionLogPath()).query({ event_type: 'decision' });
+}
+
+/**
+ * Finds the (latest) decision event for a decision_hash
+ */
+function findDecision(hash: string): DecisionEvent | undefined {
+  const matches = openLogStore(getDecisionLogPath()).query({ decision_hash: hash, event_type: 'decision' });
+  return matches[matches.length - 1];
+}
+
+/**
+ * Validates a submitted tool call body
+ * @throws Error with status 400 describing the first problem
+ */
+function parseToolCall(body: any): OpenClawToolCall {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw httpError(400, 'Body must be a JSON object');
+  }
+  if (typeof body.tool_name !== 'string' || body.tool_name.length === 0) {
+    throw httpError(400, 'tool_name must be a non-empty string');
+  }
+  if (!body.arguments || typeof body.arguments !== 'object' || Array.isArray(body.arguments)) {
+    throw httpError(400, 'arguments must be an object');
+  }
+  if (body.metadata !== undefined && (typeof body.metadata !== 'object' || body.metadata === null)) {
+    throw httpError(400, 'metadata must be an object');
+  }
+  if (body.execute !== undefined) {
+    throw httpError(400, 'execute is not supported: the service only returns verdicts');
+  }
+
+  const metadata = body.metadata ?? {};
+  return {
+    tool_name: body.tool_name,
+    arguments: body.arguments,
+    metadata: {
+      source: 'http',
+      ...(typeof metadata.source === 'string' && { client_source: metadata.source }),
+      timestamp: typeof metadata.timestamp === 'number' ? metadata.timestamp : Date.now(),
+      ...(typeof metadata.session_id === 'string' && { session_id: metadata.session_id }),
+      ...(typeof metadata.skill === 'string' && { skill: metadata.skill }),
+    },
+  };
+}
+
+/**
+ * Reads and parses a JSON request body
+ * @throws Error with status 413 when the body exceeds the cap, 400 when it is not JSON
+ */
+function readBody(req: http.IncomingMessage, maxBytes: number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(httpError(413, `Body exceeds ${maxBytes} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(httpError(400, 'Body is not valid JSON'));
+      }
+    });
+
+    req.on('error', reject);
+  });
+}
+
+function parseLimit(url: URL, defaultLimit: number): number {
+  const raw = url.searchParams.get('limit');
+  if (raw === null) return defaultLimit;
+
+  const limit = Number(raw);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw httpError(400, `limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+  return limit;
+}
+
+function requireMethod(req: http.IncomingMessage, method: string): void {
+  if (req.method !== method) {
+    throw httpError(405, `Method ${req.method} not allowed, use ${method}`);
+  }
+}
+
+/**
+ * Refuses requests a browser sends on behalf of another site
+ * (an Origin header naming anything but this service)
+ */
+function requireSameOrigin(req: http.IncomingMessage): void {
+  const origin = req.headers.origin;
+  if (origin !== undefined && origin !== `http://${req.headers.host}`) {
+    throw httpError(403, `Cross-origin requests are not allowed (Origin ${origin})`);
+  }
+}
+
+/**
+ * Requires an application/json body, which a cross-site form or simple
+ * request cannot send
+ */
+function requireJson(req: http.IncomingMessage): void {
+  const type = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+  if (type !== 'application/json') {
+    throw httpError(415, 'Content-Type must be application/json');
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Error carrying the HTTP status it is reported with ({ error } JSON)
+ */
+function httpError(status: number, message: string): Error & { status: number } {
+  return Object.assign(new Error(message), { status });
+}
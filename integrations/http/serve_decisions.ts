@@ -0,0 +1,38 @@
+import { createDecisionService, DEFAULT_SERVICE_HOST, DEFAULT_SERVICE_PORT } from './decision_service';
+
+/**
+ * Start the HTTP decision service
+ *
+ * Usage: tsx integrations/http/serve_decisions.ts [--port <port>] [--host <host>]
+ * Defaults: EAR_HTTP_PORT / EAR_HTTP_HOST, otherwise 127.0.0.1:8787.
+ */
+function main(args: string[]): void {
+  let port = Number(process.env.EAR_HTTP_PORT) || DEFAULT_SERVICE_PORT;
+  let host = process.env.EAR_HTTP_HOST || DEFAULT_SERVICE_HOST;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--port') {
+      port = Number(args[++i]);
+    } else if (args[i] === '--host') {
+      host = args[++i];
+    }
+  }
+
+  const server = createDecisionService();
+  server.listen(port, host, () => {
+    console.log(`EAR decision service listening on http://${host}:${port}`);
+    console.log('  POST /v1/tool-calls');
+    console.log('  GET  /v1/decisions?limit=N');
+    console.log('  GET  /v1/decisions/stream');
+    console.log('  GET  /v1/decisions/:hash');
+  });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main(process.argv.slice(2));
+}
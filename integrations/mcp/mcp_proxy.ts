@@ -0,0 +1,207 @@
+/**
+ * EAR MCP Proxy
+ *
+ * Sits between an MCP client and an upstream MCP server over stdio
+ * (newline-delimited JSON-RPC 2.0). Every `tools/call` request is turned
+ * into an OpenClaw tool call and judged by receiveToolCall; only ALLOW is
+ * forwarded upstream. STOP and HOLD are answered by the proxy itself with
+ * an MCP tool error result (`isError: true`) carrying the verdict, reason
+ * and decision_hash. Every other message passes through.
+ *
+ * Client messages are handled strictly in order, so a request that follows
+ * a tools/call never overtakes it. Messages the proxy cannot inspect
+ * (invalid JSON, batches) and tools/call notifications (no id, so no verdict
+ * could be answered) are rejected rather than forwarded. Forwarded messages
+ * are re-serialized from what was parsed and judged, so upstream never sees
+ * a different reading of the raw line (duplicate keys, ...).
+ *
+ * stdout is the protocol channel: callers running the proxy on the process
+ * stdio must route console.log elsewhere (see run_mcp_proxy.ts).
+ */
+
+import { spawn } from 'child_process';
+import * as crypto from 'crypto';
+import * as readline from 'readline';
+import type { Readable, Writable } from 'stream';
+import { receiveToolCall } from '../openclaw/openclaw_adapter';
+import type { DecisionResult } from '../../src/types/execution_capability';
+
+export interface McpProxyOptions {
+  command: string; // Upstream MCP server executable
+  args?: string[];
+  env?: NodeJS.ProcessEnv;
+  input: Readable; // From the MCP client
+  output: Writable; // To the MCP client
+  session_id?: string; // Session for budgets and sequence rules (default: one per proxy)
+}
+
+export interface McpProxy {
+  session_id: string;
+  done: Promise<number | null>; // Upstream exit code
+  close(): void;
+}
+
+type JsonRpcId = string | number | null;
+
+// JSON-RPC 2.0 error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+/**
+ * Starts the upstream server and proxies client messages to it
+ * @param options - Upstream command and client streams
+ * @returns Handle resolving when the upstream server exits
+ */
+export function startMcpProxy(options: McpProxyOptions): McpProxy {
+  const sessionId = options.session_id ?? `mcp-${crypto.randomUUID()}`;
+  const upstream = spawn(options.command, options.args ?? [], {
+    env: options.env ?? process.env,
+    stdio: ['pipe', 'pipe', 'inherit'],
+  });
+
+  const toClient = (message: unknown) => options.output.write(JSON.stringify(message) + '\n');
+  const toUpstream = (message: unknown) => {
+    if (upstream.stdin.writable) upstream.stdin.write(JSON.stringify(message) + '\n');
+  };
+
+  // Upstream -> client: pass through untouched
+  readline.createInterface({ input: upstream.stdout }).on('line', (line) => {
+    options.output.write(line + '\n');
+  });
+
+  // Client -> upstream: one message at a time
+  let queue = Promise.resolve();
+  const client = readline.createInterface({ input: options.input });
+
+  client.on('line', (line) => {
+    if (line.trim().length === 0) return;
+    queue = queue.then(() =>
+      handleClientMessage(line, sessionId, toUpstream, toClient).catch((error) => {
+        console.error('[MCP_PROXY] Failed to handle client message:', error);
+      })
+    );
+  });
+
+  client.on('close', () => {
+    queue.then(() => upstream.stdin.end());
+  });
+
+  const done = new Promise<number | null>((resolve, reject) => {
+    upstream.on('error', reject);
+    upstream.on('close', (code) => {
+      client.close();
+      resolve(code);
+    });
+  });
+
+  return {
+    session_id: sessionId,
+    done,
+    close: () => {
+      client.close();
+      upstream.stdin.end();
+    },
+  };
+}
+
+/**
+ * Judges one client message and forwards it, or answers it on the proxy
+ */
+async function handleClientMessage(
+  line: string,
+  sessionId: string,
+  toUpstream: (message: unknown) => void,
+  toClient: (message: unknown) => void
+): Promise<void> {
+  let message: any;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    toClient(rpcError(null, PARSE_ERROR, 'Parse error'));
+    return;
+  }
+
+  if (Array.isArray(message)) {
+    toClient(rpcError(null, INVALID_REQUEST, 'Batch requests are not supported by the EAR proxy'));
+    return;
+  }
+
+  if (!isObject(message)) {
+    toClient(rpcError(null, INVALID_REQUEST, 'JSON-RPC messages must be objects'));
+    return;
+  }
+
+  if (message.method !== 'tools/call') {
+    toUpstream(message);
+    return;
+  }
+
+  if (message.id === undefined) {
+    toClient(rpcError(null, INVALID_REQUEST, 'tools/call must be a request with an id'));
+    return;
+  }
+
+  const params = message.params;
+  if (!params || typeof params.name !== 'string' || (params.arguments !== undefined && !isObject(params.arguments))) {
+    toClient(rpcError(message.id, INVALID_PARAMS, 'tools/call requires params.name and object params.arguments'));
+    return;
+  }
+
+  let result: DecisionResult;
+  try {
+    result = await receiveToolCall({
+      tool_name: params.name,
+      arguments: params.arguments ?? {},
+      metadata: { source: 'mcp', timestamp: Date.now(), session_id: sessionId },
+    });
+  } catch (error) {
+    // Fail closed: no decision, no forwarding
+    const reason = error instanceof Error ? error.message : String(error);
+    toClient(rpcError(message.id, INTERNAL_ERROR, `EAR decision failed: ${reason}`));
+    return;
+  }
+
+  if (result.verdict === 'ALLOW') {
+    toUpstream(message);
+    return;
+  }
+
+  toClient(deniedResult(message.id, result));
+}
+
+/**
+ * MCP CallToolResult for a STOP/HOLD decision
+ */
+function deniedResult(id: JsonRpcId, result: DecisionResult) {
+  const decision = {
+    verdict: result.verdict,
+    reason: result.reason,
+    decision_hash: result.decision_hash,
+    risk_factors: result.risk_factors,
+  };
+
+  return {
+    jsonrpc: '2.0',
+    id,
+    result: {
+      content: [
+        {
+          type: 'text',
+          text: `EAR ${result.verdict}: ${result.reason} (decision_hash ${result.decision_hash})`,
+        },
+      ],
+      structuredContent: decision,
+      isError: true,
+    },
+  };
+}
+
+function rpcError(id: JsonRpcId, code: number, message: string) {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,40 @@
+import { startMcpProxy } from './mcp_proxy';
+
+/**
+ * Run the EAR MCP proxy on this process's stdio
+ *
+ * Usage: tsx integrations/mcp/run_mcp_proxy.ts [--session <id>] -- <upstream command> [args...]
+ * Configure the MCP client to launch this command instead of the upstream server.
+ */
+async function main(args: string[]): Promise<number> {
+  const separator = args.indexOf('--');
+  const own = separator === -1 ? [] : args.slice(0, separator);
+  const [command, ...upstreamArgs] = separator === -1 ? args : args.slice(separator + 1);
+
+  if (!command) {
+    console.error('Usage: run_mcp_proxy.ts [--session <id>] -- <upstream command> [args...]');
+    return 2;
+  }
+
+  const sessionIndex = own.indexOf('--session');
+  const sessionId = sessionIndex === -1 ? undefined : own[sessionIndex + 1];
+
+  // stdout carries MCP messages only - decision logging goes to stderr
+  console.log = (...values: unknown[]) => console.error(...values);
+
+  const proxy = startMcpProxy({
+    command,
+    args: upstreamArgs,
+    input: process.stdin,
+    output: process.stdout,
+    session_id: sessionId,
+  });
+  console.error(`[MCP_PROXY] Session ${proxy.session_id}, upstream: ${[command, ...upstreamArgs].join(' ')}`);
+
+  return (await proxy.done) ?? 1;
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main(process.argv.slice(2)).then((code) => process.exit(code));
+}
@@ -0,0 +1,174 @@
+/**
+ * Pending Approval Store
+ *
+ * Keeps HOLD decisions (keyed by decision_hash) together with the original
+ * OpenClaw tool call so they can be approved or rejected later. Holds are
+ * kept in process by default, or in a JSON file (EAR_APPROVAL_STORE_PATH).
+ *
+ * This module holds data only - it never creates execution capability.
+ * HOLD handlers may import it without gaining an executor reference.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Decision, DecisionInput } from './decision_engine';
+import type { OpenClawToolCall } from './openclaw_adapter';
+
+export type HoldStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export interface HoldResolution {
+  by: string; // Approver identity ('system' for expiry and fail-closed cancellation)
+  comment?: string;
+  at: number;
+}
+
+export interface PendingHold {
+  decision_hash: string;
+  tool_call: OpenClawToolCall;
+  input: DecisionInput;
+  decision: Decision;
+  held_at: number;
+  expires_at: number;
+  status: HoldStatus;
+  resolution?: HoldResolution;
+}
+
+/**
+ * Storage backend for pending holds
+ */
+export interface PendingApprovalStore {
+  get(decisionHash: string): PendingHold | undefined;
+  save(hold: PendingHold): void;
+  list(): PendingHold[];
+}
+
+/**
+ * Default in-process store
+ */
+export class InMemoryApprovalStore implements PendingApprovalStore {
+  private holds = new Map<string, PendingHold>();
+
+  get(decisionHash: string): PendingHold | undefined {
+    return this.holds.get(decisionHash);
+  }
+
+  save(hold: PendingHold): void {
+    this.holds.set(hold.decision_hash, hold);
+  }
+
+  list(): PendingHold[] {
+    return Array.from(this.holds.values());
+  }
+}
+
+/**
+ * JSON-file store, so pending holds survive restarts and can be approved
+ * from another process pointing at the same file. Reads and writes are
+ * synchronous; writes go through a temp file and rename.
+ */
+export class FileApprovalStore implements PendingApprovalStore {
+  constructor(private readonly filePath: string) {}
+
+  get(decisionHash: string): PendingHold | undefined {
+    return this.read()[decisionHash];
+  }
+
+  save(hold: PendingHold): void {
+    const holds = this.read();
+    holds[hold.decision_hash] = hold;
+    this.write(holds);
+  }
+
+  list(): PendingHold[] {
+    return Object.values(this.read());
+  }
+
+  private read(): Record<string, PendingHold> {
+    if (!fs.existsSync(this.filePath)) return {};
+    const content = fs.readFileSync(this.filePath, 'utf-8');
+    return content.trim() ? JSON.parse(content) : {};
+  }
+
+  private write(holds: Record<string, PendingHold>): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(holds, null, 2), 'utf-8');
+    fs.renameSync(tmp, this.filePath);
+  }
+}
+
+export const DEFAULT_HOLD_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+let approvalStore: PendingApprovalStore = process.env.EAR_APPROVAL_STORE_PATH
+  ? new FileApprovalStore(process.env.EAR_APPROVAL_STORE_PATH)
+  : new InMemoryApprovalStore();
+let holdTtlMs: number = Number(process.env.EAR_HOLD_TTL_MS) || DEFAULT_HOLD_TTL_MS;
+
+/**
+ * Configures the approval store backend and hold TTL
+ * @param options - Store implementation and/or TTL in milliseconds
+ */
+export function configureApprovalStore(options: {
+  store?: PendingApprovalStore;
+  ttl_ms?: number;
+}): void {
+  if (options.store) {
+    approvalStore = options.store;
+  }
+  if (options.ttl_ms !== undefined) {
+    if (!(options.ttl_ms > 0)) {
+      throw new Error(`Hold TTL must be a positive number of milliseconds, got ${options.ttl_ms}`);
+    }
+    holdTtlMs = options.ttl_ms;
+  }
+}
+
+/**
+ * Returns the configured approval store
+ */
+export function getApprovalStore(): PendingApprovalStore {
+  return approvalStore;
+}
+
+/**
+ * Persists a HOLD decision as pending approval
+ * @param decision - HOLD decision
+ * @param input - Decision input
+ * @param toolCall - Original OpenClaw tool call
+ * @returns Stored pending hold
+ */
+export function recordPendingHold(
+  decision: Decision,
+  input: DecisionInput,
+  toolCall: OpenClawToolCall
+): PendingHold {
+  const hold: PendingHold = {
+    decision_hash: decision.decision_hash,
+    tool_call: toolCall,
+    input,
+    decision,
+    held_at: decision.timestamp,
+    expires_at: decision.timestamp + holdTtlMs,
+    status: 'pending',
+  };
+
+  approvalStore.save(hold);
+  return hold;
+}
+
+/**
+ * Rejects a pending hold whose decision was not enforced (see fail_closed.ts),
+ * so it can no longer be approved
+ * @param decisionHash - Hash of the HOLD decision
+ * @param reason - Why the hold was cancelled
+ * @returns Whether a pending hold was cancelled
+ */
+export function cancelPendingHold(decisionHash: string, reason: string): boolean {
+  const hold = approvalStore.get(decisionHash);
+  if (!hold || hold.status !== 'pending') return false;
+
+  hold.status = 'rejected';
+  hold.resolution = { by: 'system', comment: reason, at: Date.now() };
+  approvalStore.save(hold);
+  return true;
+}
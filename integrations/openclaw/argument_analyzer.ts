@@ -0,0 +1,797 @@
+/**
+ * EAR Argument Analyzer
+ *
+ * Walks tool call argument trees and reports the intents they carry
+ * (destructive, privileged, remote code, ...) instead of matching raw
+ * substrings of the serialized JSON. Shell command strings are tokenized
+ * (quotes, escapes, pipes, `$(...)`, backticks, redirections) and paths
+ * are normalized before they are classified, so `"product"` is not a
+ * production target and `r''m -rf /` is still `rm`.
+ *
+ * Policies reference intents through `{ "intent": [...] }` argument matchers.
+ */
+
+export type ArgumentIntent =
+  | 'destructive'
+  | 'privileged'
+  | 'credential'
+  | 'production'
+  | 'network'
+  | 'remote-code'
+  | 'obfuscated'
+  | 'sensitive-path';
+
+export const ARGUMENT_INTENTS: ArgumentIntent[] = [
+  'destructive',
+  'privileged',
+  'credential',
+  'production',
+  'network',
+  'remote-code',
+  'obfuscated',
+  'sensitive-path',
+];
+
+export interface ArgumentFinding {
+  intent: ArgumentIntent;
+  path: string; // e.g. 'arguments.command'
+  evidence: string; // e.g. 'rm -rf /data'
+}
+
+export type ShellToken =
+  | { type: 'word'; value: string }
+  | { type: 'operator'; value: string }; // | || && ; & newline and redirections
+
+export interface ShellCommand {
+  argv: string[];
+  redirects: { op: string; target: string }[];
+}
+
+export interface ParsedShell {
+  pipelines: ShellCommand[][]; // Commands joined by `|`, pipelines by ; && || &
+  substitutions: string[]; // Bodies of $(...) and `...`
+  escapes: boolean; // ANSI-C quoting or hex/octal escapes were decoded
+}
+
+const COMMAND_KEYS = new Set(['command', 'cmd', 'cmdline', 'command_line', 'commandline', 'script', 'shell', 'exec', 'run']);
+const ARGV_KEYS = new Set(['args', 'argv']);
+const PATH_KEYS = new Set(['path', 'file', 'filename', 'filepath', 'file_path', 'dir', 'directory', 'target', 'dest', 'destination', 'source', 'src']);
+const SQL_KEYS = new Set(['query', 'sql', 'statement']);
+const IDENTITY_KEYS = new Set(['user', 'username', 'user_name', 'run_as', 'as_user', 'role', 'uid']);
+const OPERATION_KEYS = new Set(['operation', 'op', 'method', 'mode', 'verb']);
+
+const CREDENTIAL_KEY_SEGMENTS = new Set(['password', 'passwd', 'secret', 'token', 'apikey', 'credential', 'credentials', 'privatekey']);
+const PRIVILEGED_IDENTITIES = new Set(['root', 'admin', 'administrator', 'superuser', '0']);
+const PRODUCTION_WORDS = new Set(['prod', 'production']);
+const DESTRUCTIVE_OPERATIONS = new Set(['delete', 'drop', 'destroy', 'purge', 'wipe', 'truncate']);
+
+const PRIVILEGE_WRAPPERS = new Set(['sudo', 'doas', 'su', 'pkexec']);
+const TRANSPARENT_WRAPPERS = new Set(['env', 'nohup', 'time', 'nice', 'ionice', 'timeout', 'xargs', 'command', 'exec', 'stdbuf', 'busybox']);
+const DESTRUCTIVE_COMMANDS = new Set(['rm', 'rmdir', 'unlink', 'shred', 'srm', 'wipefs', 'truncate']);
+const PRIVILEGED_COMMANDS = new Set(['usermod', 'useradd', 'passwd', 'visudo', 'setcap', 'chroot']);
+const NETWORK_COMMANDS = new Set(['curl', 'wget', 'nc', 'ncat', 'netcat', 'socat', 'telnet', 'ssh', 'scp', 'sftp', 'ftp', 'rsync']);
+const INTERPRETERS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'python', 'python3', 'perl', 'ruby', 'node', 'php']);
+const KNOWN_COMMANDS = new Set([
+  ...PRIVILEGE_WRAPPERS,
+  ...TRANSPARENT_WRAPPERS,
+  ...DESTRUCTIVE_COMMANDS,
+  ...PRIVILEGED_COMMANDS,
+  ...NETWORK_COMMANDS,
+  ...INTERPRETERS,
+  'cat', 'chmod', 'chown', 'cp', 'dd', 'echo', 'eval', 'find', 'git', 'head', 'less', 'ls', 'mkfs', 'mv', 'tail', 'tar',
+]);
+
+const SENSITIVE_PREFIXES = ['/etc', '/boot', '/sys', '/proc', '/dev', '/root', '/bin', '/sbin', '/lib', '/usr/bin', '/usr/sbin', '/usr/lib', '/var/lib', '/var/log'];
+const HARMLESS_DEVICES = new Set(['/dev/null', '/dev/zero', '/dev/random', '/dev/urandom', '/dev/stdin', '/dev/stdout', '/dev/stderr', '/dev/tty']);
+const CREDENTIAL_FILES = new Set(['/etc/shadow', '/etc/gshadow', '/etc/sudoers', '/etc/master.passwd']);
+const CREDENTIAL_DIRS = new Set(['.ssh', '.aws', '.gnupg', '.kube', '.docker']);
+const CREDENTIAL_BASENAME = /^(id_(rsa|dsa|ecdsa|ed25519)|\.env(\..+)?|credentials|\.netrc|\.pgpass|.+\.(pem|key|p12|pfx))$/;
+const LOOPBACK_HOSTS = new Set(['localhost', '[::1]', '0.0.0.0']);
+const BLOCK_DEVICE = /^\/dev\/(sd|hd|vd|xvd|nvme|mmcblk|disk)/;
+
+const SQL_DESTRUCTIVE = [
+  /\bdrop\s+(table|database|schema|view|index|user)\b/i,
+  /\btruncate\s+(table\s+)?[\w."`]+/i,
+  /\bdelete\s+from\s+[\w."`]+\s*(;|$)/i, // DELETE without WHERE
+];
+
+const MAX_SHELL_DEPTH = 3; // Nested bash -c / $(...) levels analyzed
+const MAX_EVIDENCE_LENGTH = 80;
+
+/**
+ * Analyzes a tool call argument tree
+ * @param args - Tool call arguments
+ * @returns Findings in tree order (several per value are possible)
+ */
+export function analyzeArguments(args: Record<string, any>): ArgumentFinding[] {
+  const findings: ArgumentFinding[] = [];
+  walk(args, 'arguments', undefined, findings);
+  return findings;
+}
+
+/**
+ * Tokenizes a shell command line (POSIX quoting rules, no expansion)
+ * @param command - Command line
+ * @returns Tokens plus the bodies of any command substitutions
+ */
+export function tokenizeShell(command: string): {
+  tokens: ShellToken[];
+  substitutions: string[];
+  escapes: boolean;
+} {
+  const tokens: ShellToken[] = [];
+  const substitutions: string[] = [];
+  let escapes = false;
+  let word = '';
+  let inWord = false;
+  let i = 0;
+
+  const endWord = () => {
+    if (inWord) tokens.push({ type: 'word', value: word });
+    word = '';
+    inWord = false;
+  };
+
+  while (i < command.length) {
+    const ch = command[i];
+
+    if (ch === ' ' || ch === '\t') {
+      endWord();
+      i++;
+    } else if (ch === '#' && !inWord) {
+      while (i < command.length && command[i] !== '\n') i++;
+    } else if (ch === '\\') {
+      if (command[i + 1] === '\n') {
+        i += 2;
+      } else {
+        word += command[i + 1] ?? '';
+        inWord = true;
+        i += 2;
+      }
+    } else if (ch === "'") {
+      const end = command.indexOf("'", i + 1);
+      word += command.slice(i + 1, end === -1 ? undefined : end);
+      inWord = true;
+      i = end === -1 ? command.length : end + 1;
+    } else if (ch === '$' && command[i + 1] === "'") {
+      const end = command.indexOf("'", i + 2);
+      word += decodeAnsiC(command.slice(i + 2, end === -1 ? undefined : end));
+      escapes = true;
+      inWord = true;
+      i = end === -1 ? command.length : end + 1;
+    } else if (ch === '"') {
+      i++;
+      while (i < command.length && command[i] !== '"') {
+        if (command[i] === '\\' && '"\\$`'.includes(command[i + 1])) {
+          word += command[i + 1];
+          i += 2;
+        } else if (command[i] === '$' && command[i + 1] === '(') {
+          const end = findClosingParen(command, i + 2);
+          substitutions.push(command.slice(i + 2, end));
+          word += command.slice(i, end + 1);
+          i = end + 1;
+        } else if (command[i] === '`') {
+          const end = indexOrEnd(command, '`', i + 1);
+          substitutions.push(command.slice(i + 1, end));
+          word += command.slice(i, end + 1);
+          i = end + 1;
+        } else {
+          word += command[i++];
+        }
+      }
+      inWord = true;
+      i++;
+    } else if (ch === '$' && command[i + 1] === '(') {
+      const end = findClosingParen(command, i + 2);
+      substitutions.push(command.slice(i + 2, end));
+      word += command.slice(i, end + 1);
+      inWord = true;
+      i = end + 1;
+    } else if (ch === '`') {
+      const end = indexOrEnd(command, '`', i + 1);
+      substitutions.push(command.slice(i + 1, end));
+      word += command.slice(i, end + 1);
+      inWord = true;
+      i = end + 1;
+    } else if ('|&;\n<>'.includes(ch)) {
+      // `2>` / `&>` style redirections: the fd digits belong to the operator
+      let prefix = '';
+      if (ch === '>' && inWord && /^\d$/.test(word)) {
+        prefix = word;
+        word = '';
+        inWord = false;
+      }
+      endWord();
+
+      const two = command.slice(i, i + 2);
+      const op = ['||', '&&', '>>', '&>', '>&'].includes(two) ? two : ch;
+      tokens.push({ type: 'operator', value: prefix + op });
+      i += op.length;
+    } else {
+      word += ch;
+      inWord = true;
+      i++;
+    }
+  }
+
+  endWord();
+  return { tokens, substitutions, escapes };
+}
+
+/**
+ * Parses a shell command line into pipelines of commands
+ * @param command - Command line
+ * @returns Pipelines, command substitution bodies and whether escapes were decoded
+ */
+export function parseShellCommand(command: string): ParsedShell {
+  const { tokens, substitutions, escapes } = tokenizeShell(command);
+  const pipelines: ShellCommand[][] = [];
+  let pipeline: ShellCommand[] = [];
+  let current: ShellCommand = { argv: [], redirects: [] };
+
+  const endCommand = () => {
+    if (current.argv.length > 0 || current.redirects.length > 0) pipeline.push(current);
+    current = { argv: [], redirects: [] };
+  };
+  const endPipeline = () => {
+    endCommand();
+    if (pipeline.length > 0) pipelines.push(pipeline);
+    pipeline = [];
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'word') {
+      current.argv.push(token.value);
+    } else if (token.value === '|') {
+      endCommand();
+    } else if (/[<>]/.test(token.value)) {
+      const next = tokens[i + 1];
+      if (next?.type === 'word') {
+        current.redirects.push({ op: token.value, target: next.value });
+        i++;
+      }
+    } else {
+      endPipeline();
+    }
+  }
+
+  endPipeline();
+  return { pipelines, substitutions, escapes };
+}
+
+/**
+ * Lists the programs a tool call would run: the first word of every
+ * command in shell command strings and argv arrays (after sudo/env/...
+ * wrappers), including command substitutions
+ * @param args - Tool call arguments
+ * @returns Program basenames in tree order, without duplicates
+ */
+export function invokedPrograms(args: Record<string, any>): string[] {
+  const programs = new Set<string>();
+
+  const fromCommand = (command: string, depth: number) => {
+    const parsed = parseShellCommand(command);
+    for (const command of parsed.pipelines.flat()) {
+      const { argv } = unwrap(command.argv);
+      if (argv.length > 0) programs.add(basename(argv[0]));
+    }
+    if (depth < MAX_SHELL_DEPTH) parsed.substitutions.forEach((body) => fromCommand(body, depth + 1));
+  };
+
+  const visit = (value: any, key: string | undefined) => {
+    const lowerKey = key?.toLowerCase();
+    if (typeof value === 'string' && lowerKey && COMMAND_KEYS.has(lowerKey)) {
+      fromCommand(value, 0);
+    } else if (Array.isArray(value)) {
+      if (lowerKey && COMMAND_KEYS.has(lowerKey) && value.every((v) => typeof v === 'string')) {
+        const { argv } = unwrap(value);
+        if (argv.length > 0) programs.add(basename(argv[0]));
+      } else {
+        value.forEach((item) => visit(item, key));
+      }
+    } else if (value !== null && typeof value === 'object') {
+      Object.entries(value).forEach(([childKey, child]) => visit(child, childKey));
+    }
+  };
+
+  visit(args, undefined);
+  return Array.from(programs);
+}
+
+/**
+ * Renders the command-like values of a tool call the way the shell reads
+ * them: shell command strings (under command keys, or free text starting
+ * with a known command) and argv arrays, re-joined from their parsed tokens
+ * with paths normalized, plus the inline scripts they run ($(...), `...`,
+ * bash -c, eval, su -c). Quoting and path tricks render like the plain
+ * command (`r''m -rf /data` -> `rm -rf /data`, `cat /etc//shadow` ->
+ * `cat /etc/shadow`). Other strings are not rendered.
+ * @param args - Tool call arguments
+ * @returns Renderings in tree order, with the argument path they came from
+ */
+export function commandTexts(args: Record<string, any>): { path: string; text: string }[] {
+  const texts: { path: string; text: string }[] = [];
+
+  const fromArgv = (argv: string[], path: string, depth: number) => {
+    texts.push({ path, text: argv.map(canonicalWord).join(' ') });
+    if (depth < MAX_SHELL_DEPTH) inlineScripts(argv).forEach((script) => fromShell(script, path, depth + 1));
+  };
+
+  const fromShell = (command: string, path: string, depth: number) => {
+    const parsed = parseShellCommand(command);
+    const { tokens } = tokenizeShell(command);
+    texts.push({ path, text: tokens.map((t) => (t.type === 'word' ? canonicalWord(t.value) : t.value)).join(' ') });
+    if (depth >= MAX_SHELL_DEPTH) return;
+
+    for (const command of parsed.pipelines.flat()) {
+      inlineScripts(command.argv).forEach((script) => fromShell(script, path, depth + 1));
+    }
+    parsed.substitutions.forEach((body) => fromShell(body, path, depth + 1));
+  };
+
+  const visit = (value: any, path: string, key: string | undefined) => {
+    const commandKey = key !== undefined && COMMAND_KEYS.has(key.toLowerCase());
+
+    if (typeof value === 'string') {
+      if (commandKey || looksLikeShellCommand(value)) fromShell(value, path, 0);
+    } else if (Array.isArray(value)) {
+      if (commandKey && value.every((v) => typeof v === 'string')) {
+        fromArgv(value, path, 0);
+      } else {
+        value.forEach((item, index) => visit(item, `${path}.${index}`, key));
+      }
+    } else if (value !== null && typeof value === 'object') {
+      // { command: 'rm', args: ['-rf', '/'] } is one command line
+      const cmd = Object.keys(value).find((k) => COMMAND_KEYS.has(k.toLowerCase()));
+      const argvKey = Object.keys(value).find((k) => ARGV_KEYS.has(k.toLowerCase()));
+      const combined =
+        cmd !== undefined &&
+        argvKey !== undefined &&
+        typeof value[cmd] === 'string' &&
+        Array.isArray(value[argvKey]) &&
+        value[argvKey].every((v: unknown) => typeof v === 'string');
+
+      if (combined) {
+        fromArgv([...tokenizeShell(value[cmd]).tokens.map((t) => t.value), ...value[argvKey]], `${path}.${cmd}`, 0);
+      }
+      for (const [childKey, child] of Object.entries(value)) {
+        if (combined && (childKey === cmd || childKey === argvKey)) continue;
+        visit(child, `${path}.${childKey}`, childKey);
+      }
+    }
+  };
+
+  visit(args, 'arguments', undefined);
+  return texts;
+}
+
+/**
+ * Normalizes a POSIX path (collapses `//`, resolves `.` and `..`)
+ * @param value - Absolute, home-relative (`~/`) or relative path
+ * @returns Normalized path, e.g. `/tmp/../etc/shadow` -> `/etc/shadow`
+ */
+export function normalizePath(value: string): string {
+  const trimmed = value.trim();
+  const home = trimmed === '~' || trimmed.startsWith('~/');
+  const absolute = trimmed.startsWith('/');
+  const segments: string[] = [];
+
+  for (const segment of (home ? trimmed.slice(1) : trimmed).split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length > 0 && segments[segments.length - 1] !== '..') {
+        segments.pop();
+      } else if (!absolute && !home) {
+        segments.push('..');
+      }
+      continue;
+    }
+    segments.push(segment);
+  }
+
+  const joined = segments.join('/');
+  if (home) return joined ? `~/${joined}` : '~';
+  if (absolute) return `/${joined}`;
+  return joined || '.';
+}
+
+/**
+ * Walks one node of the argument tree
+ */
+function walk(value: any, path: string, key: string | undefined, findings: ArgumentFinding[]): void {
+  if (Array.isArray(value)) {
+    if (key && COMMAND_KEYS.has(key.toLowerCase()) && value.every((v) => typeof v === 'string')) {
+      analyzeArgv(value, path, findings);
+      return;
+    }
+    value.forEach((item, index) => walk(item, `${path}.${index}`, key, findings));
+    return;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    // { command: 'rm', args: ['-rf', '/'] } is one command line
+    const commandKey = Object.keys(value).find((k) => COMMAND_KEYS.has(k.toLowerCase()));
+    const argvKey = Object.keys(value).find((k) => ARGV_KEYS.has(k.toLowerCase()));
+    const combined =
+      commandKey !== undefined &&
+      argvKey !== undefined &&
+      typeof value[commandKey] === 'string' &&
+      Array.isArray(value[argvKey]) &&
+      value[argvKey].every((v: unknown) => typeof v === 'string');
+
+    if (combined) {
+      const argv = [...tokenizeShell(value[commandKey]).tokens.map((t) => t.value), ...value[argvKey]];
+      analyzeArgv(argv, `${path}.${commandKey}`, findings);
+    }
+
+    for (const [childKey, child] of Object.entries(value)) {
+      if (combined && (childKey === commandKey || childKey === argvKey)) continue;
+      analyzeKey(childKey, child, `${path}.${childKey}`, findings);
+      walk(child, `${path}.${childKey}`, childKey, findings);
+    }
+    return;
+  }
+
+  if (typeof value === 'string') {
+    analyzeString(value, path, key, findings);
+  } else if (typeof value === 'number' && key && IDENTITY_KEYS.has(key.toLowerCase())) {
+    analyzeIdentity(String(value), path, findings);
+  }
+}
+
+/**
+ * Key-level signals (credential-bearing keys)
+ */
+function analyzeKey(key: string, value: any, path: string, findings: ArgumentFinding[]): void {
+  const hasValue = (typeof value === 'string' && value.length > 0) || typeof value === 'number';
+  if (hasValue && isCredentialKey(key)) {
+    findings.push({ intent: 'credential', path, evidence: `key ${key}` });
+  }
+}
+
+/**
+ * Checks whether an argument key names a credential (password, api_key,
+ * clientSecret, X-Auth-Token, ...)
+ * @param key - Argument key
+ */
+export function isCredentialKey(key: string): boolean {
+  return keySegments(key).some((s) => CREDENTIAL_KEY_SEGMENTS.has(s));
+}
+
+/**
+ * Classifies a scalar string value
+ */
+function analyzeString(value: string, path: string, key: string | undefined, findings: ArgumentFinding[]): void {
+  const lowerKey = key?.toLowerCase();
+
+  const shell = (lowerKey !== undefined && COMMAND_KEYS.has(lowerKey)) || looksLikeShellCommand(value);
+
+  if (shell) {
+    analyzeShell(value, path, findings, 0);
+  } else if ((lowerKey && PATH_KEYS.has(lowerKey)) || looksLikePath(value)) {
+    analyzePath(value, path, findings);
+  }
+
+  if ((lowerKey && SQL_KEYS.has(lowerKey)) || /^\s*(drop|truncate|delete|alter)\s/i.test(value)) {
+    const statement = SQL_DESTRUCTIVE.map((re) => re.exec(value)).find((m) => m);
+    if (statement) {
+      findings.push({ intent: 'destructive', path, evidence: truncate(statement[0]) });
+    }
+  }
+
+  if (lowerKey && IDENTITY_KEYS.has(lowerKey)) {
+    analyzeIdentity(value, path, findings);
+  }
+
+  if (lowerKey && OPERATION_KEYS.has(lowerKey) && DESTRUCTIVE_OPERATIONS.has(value.trim().toLowerCase())) {
+    findings.push({ intent: 'destructive', path, evidence: `${key}=${value}` });
+  }
+
+  const host = remoteUrlHost(value);
+  if (host && !shell) {
+    findings.push({ intent: 'network', path, evidence: host });
+  }
+
+  const production = words(value).find((w) => PRODUCTION_WORDS.has(w));
+  if (production && !shell) {
+    findings.push({ intent: 'production', path, evidence: production });
+  }
+}
+
+/**
+ * Host of a URL value that leaves the machine (loopback URLs are not egress)
+ */
+function remoteUrlHost(value: string): string | undefined {
+  const match = /^(?:https?|ftp|wss?):\/\/([^/?#\s]+)/i.exec(value.trim());
+  if (!match) return undefined;
+
+  const host = match[1].replace(/^[^@]*@/, '').replace(/:\d+$/, '').toLowerCase();
+  return LOOPBACK_HOSTS.has(host) || host.startsWith('127.') ? undefined : host;
+}
+
+/**
+ * Privileged identities (user=root, uid=0, role=admin)
+ */
+function analyzeIdentity(value: string, path: string, findings: ArgumentFinding[]): void {
+  if (PRIVILEGED_IDENTITIES.has(value.trim().toLowerCase())) {
+    findings.push({ intent: 'privileged', path, evidence: `identity ${value}` });
+  }
+}
+
+/**
+ * Classifies a shell command line
+ */
+function analyzeShell(command: string, path: string, findings: ArgumentFinding[], depth: number): void {
+  const parsed = parseShellCommand(command);
+
+  if (parsed.substitutions.length > 0) {
+    findings.push({ intent: 'obfuscated', path, evidence: `command substitution ${truncate(parsed.substitutions[0])}` });
+  }
+  if (parsed.escapes || /\\x[0-9a-f]{2}/i.test(command)) {
+    findings.push({ intent: 'obfuscated', path, evidence: 'escaped characters' });
+  }
+
+  for (const pipeline of parsed.pipelines) {
+    analyzePipeline(pipeline, path, findings, depth);
+  }
+
+  if (depth < MAX_SHELL_DEPTH) {
+    for (const inner of parsed.substitutions) {
+      analyzeShell(inner, path, findings, depth + 1);
+    }
+  }
+}
+
+/**
+ * Classifies an argv array (no shell parsing of the elements)
+ */
+function analyzeArgv(argv: string[], path: string, findings: ArgumentFinding[]): void {
+  analyzePipeline([{ argv, redirects: [] }], path, findings, 0);
+}
+
+/**
+ * Classifies the commands of one pipeline, including cross-command
+ * patterns such as `curl ... | sh`
+ */
+function analyzePipeline(pipeline: ShellCommand[], path: string, findings: ArgumentFinding[], depth: number): void {
+  let fetcher: string | undefined;
+  let decoder: string | undefined;
+
+  for (const command of pipeline) {
+    const { argv, wrappers } = unwrap(command.argv);
+    const name = argv.length > 0 ? basename(argv[0]) : '';
+    const text = truncate(command.argv.join(' '));
+
+    const privilege = wrappers.find((w) => PRIVILEGE_WRAPPERS.has(w));
+    if (privilege) {
+      findings.push({ intent: 'privileged', path, evidence: text });
+    }
+
+    if (isDestructive(name, argv)) {
+      findings.push({ intent: 'destructive', path, evidence: text });
+    }
+    if (isPrivileged(name, argv)) {
+      findings.push({ intent: 'privileged', path, evidence: text });
+    }
+    if (NETWORK_COMMANDS.has(name)) {
+      findings.push({ intent: 'network', path, evidence: text });
+      fetcher = name;
+    }
+    if (name === 'base64' && argv.some((a) => a === '-d' || a === '--decode' || a === '-D')) {
+      findings.push({ intent: 'obfuscated', path, evidence: text });
+      decoder = name;
+    }
+    if (name === 'eval') {
+      findings.push({ intent: 'obfuscated', path, evidence: text });
+      if (depth < MAX_SHELL_DEPTH) analyzeShell(argv.slice(1).join(' '), path, findings, depth + 1);
+    }
+
+    if (INTERPRETERS.has(name)) {
+      if (fetcher) {
+        findings.push({ intent: 'remote-code', path, evidence: `${fetcher} piped into ${name}` });
+      } else if (decoder) {
+        findings.push({ intent: 'remote-code', path, evidence: `${decoder} piped into ${name}` });
+      }
+
+      // bash -c "<script>" - analyze the inline script
+      const inline = argv.findIndex((a) => a === '-c' || a === '-e');
+      if (inline !== -1 && argv[inline + 1] !== undefined && depth < MAX_SHELL_DEPTH) {
+        analyzeShell(argv[inline + 1], path, findings, depth + 1);
+      }
+    }
+
+    for (const arg of argv.slice(1)) {
+      const operand = arg.startsWith('of=') || arg.startsWith('if=') ? arg.slice(3) : arg;
+      if (looksLikePath(operand)) analyzePath(operand, path, findings);
+    }
+
+    const production = argv.flatMap(words).find((w) => PRODUCTION_WORDS.has(w));
+    if (production) {
+      findings.push({ intent: 'production', path, evidence: production });
+    }
+
+    for (const redirect of command.redirects) {
+      const target = normalizePath(redirect.target);
+      const overwrite = redirect.op.includes('>') && !redirect.op.includes('>>');
+      if (overwrite && (BLOCK_DEVICE.test(target) || isSensitivePath(target))) {
+        findings.push({ intent: 'destructive', path, evidence: `${redirect.op} ${target}` });
+      }
+      analyzePath(redirect.target, path, findings);
+    }
+  }
+}
+
+/**
+ * Path signals: credential files and sensitive system locations
+ */
+function analyzePath(value: string, path: string, findings: ArgumentFinding[]): void {
+  const normalized = normalizePath(value);
+
+  if (isCredentialPath(normalized)) {
+    findings.push({ intent: 'credential', path, evidence: normalized });
+  }
+  if (isSensitivePath(normalized)) {
+    findings.push({ intent: 'sensitive-path', path, evidence: normalized });
+  }
+}
+
+/**
+ * Strips wrapper commands (sudo, env, nohup, ...) and leading
+ * VAR=value assignments, returning the effective argv
+ */
+function unwrap(argv: string[]): { argv: string[]; wrappers: string[] } {
+  const wrappers: string[] = [];
+  let i = 0;
+
+  while (i < argv.length) {
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(argv[i])) {
+      i++;
+      continue;
+    }
+
+    const name = basename(argv[i]);
+    if (!PRIVILEGE_WRAPPERS.has(name) && !TRANSPARENT_WRAPPERS.has(name)) break;
+    wrappers.push(name);
+    i++;
+
+    // Wrapper options (sudo -u root, timeout 10, su -c '...')
+    while (i < argv.length && (argv[i].startsWith('-') || (name === 'timeout' && /^\d/.test(argv[i])))) {
+      if (name === 'su' && argv[i] === '-c') {
+        return { argv: tokenizeShell(argv[i + 1] ?? '').tokens.map((t) => t.value), wrappers };
+      }
+      const takesValue = name === 'sudo' && ['-u', '-g', '-U', '-C', '-D', '-h', '-p', '-r', '-t'].includes(argv[i]);
+      i += takesValue ? 2 : 1;
+    }
+  }
+
+  return { argv: argv.slice(i), wrappers };
+}
+
+function isDestructive(name: string, argv: string[]): boolean {
+  if (DESTRUCTIVE_COMMANDS.has(name) || name === 'mkfs' || name.startsWith('mkfs.')) return true;
+  if (name === 'dd') return argv.some((a) => a.startsWith('of='));
+  if (name === 'find') return argv.includes('-delete') || argv.some((a, i) => a === '-exec' && basename(argv[i + 1] ?? '') === 'rm');
+  if (name === 'git') {
+    const sub = argv[1];
+    return (
+      (sub === 'push' && argv.some((a) => a === '--force' || a === '-f')) ||
+      (sub === 'reset' && argv.includes('--hard')) ||
+      (sub === 'clean' && argv.some((a) => /^-[a-z]*f/.test(a)))
+    );
+  }
+  return false;
+}
+
+function isPrivileged(name: string, argv: string[]): boolean {
+  if (PRIVILEGED_COMMANDS.has(name)) return true;
+  if (name === 'chmod') return argv.slice(1).some((a) => /^(0?[4267][0-7]{3}|777|[ugoa]*\+[rwx]*s)$/.test(a));
+  if (name === 'chown') return argv.slice(1).some((a) => /^root(:|$)/.test(a));
+  return false;
+}
+
+function isSensitivePath(normalized: string): boolean {
+  if (normalized === '/') return true;
+  if (HARMLESS_DEVICES.has(normalized)) return false;
+  return SENSITIVE_PREFIXES.some((prefix) => normalized === prefix || normalized.startsWith(`${prefix}/`));
+}
+
+function isCredentialPath(normalized: string): boolean {
+  if (CREDENTIAL_FILES.has(normalized)) return true;
+  const segments = normalized.split('/');
+  return segments.some((s) => CREDENTIAL_DIRS.has(s)) || CREDENTIAL_BASENAME.test(segments[segments.length - 1]);
+}
+
+/**
+ * Scripts a command runs inline: su -c '...', bash -c '...', eval ...
+ */
+function inlineScripts(argv: string[]): string[] {
+  const scripts: string[] = [];
+  const { argv: effective, wrappers } = unwrap(argv);
+  const name = effective.length > 0 ? basename(effective[0]) : '';
+
+  const su = wrappers.includes('su') ? argv.indexOf('-c') : -1;
+  if (su !== -1 && argv[su + 1] !== undefined) scripts.push(argv[su + 1]);
+  if (name === 'eval') scripts.push(effective.slice(1).join(' '));
+
+  const inline = INTERPRETERS.has(name) ? effective.findIndex((a) => a === '-c' || a === '-e') : -1;
+  if (inline !== -1 && effective[inline + 1] !== undefined) scripts.push(effective[inline + 1]);
+  return scripts;
+}
+
+function canonicalWord(word: string): string {
+  return looksLikePath(word) ? normalizePath(word) : word;
+}
+
+function looksLikePath(value: string): boolean {
+  return /^(~|\.{1,2})?\//.test(value) && !/\s/.test(value);
+}
+
+/**
+ * Free-text strings are only parsed as shell when they start with a known
+ * command and carry arguments (e.g. "rm -rf /tmp/x", not "rm")
+ */
+function looksLikeShellCommand(value: string): boolean {
+  const first = value.trim().split(/\s+/)[0] ?? '';
+  return /\s/.test(value.trim()) && KNOWN_COMMANDS.has(basename(first));
+}
+
+function basename(value: string): string {
+  return value.slice(value.lastIndexOf('/') + 1);
+}
+
+/**
+ * Splits an identifier into lowercase segments (snake, kebab, dot and camelCase)
+ */
+function keySegments(key: string): string[] {
+  const segments = key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+  // api_key / private_key read as one concept
+  const joined: string[] = [];
+  segments.forEach((s, i) => {
+    if (s === 'key' && (segments[i - 1] === 'api' || segments[i - 1] === 'private')) {
+      joined.push(`${segments[i - 1]}key`);
+    }
+  });
+  return [...segments, ...joined];
+}
+
+/**
+ * Whole words of a free-text value ("prod-db.internal" -> prod, db, internal)
+ */
+function words(value: string): string[] {
+  return value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function findClosingParen(text: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')' && --depth === 0) return i;
+  }
+  return text.length;
+}
+
+function indexOrEnd(text: string, search: string, start: number): number {
+  const index = text.indexOf(search, start);
+  return index === -1 ? text.length : index;
+}
+
+/**
+ * Decodes the escapes of ANSI-C quoting ($'\x72\x6d' -> rm)
+ */
+function decodeAnsiC(body: string): string {
+  return body
+    .replace(/\\x([0-9a-fA-F]{1,2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\([0-7]{1,3})/g, (_, oct) => String.fromCharCode(parseInt(oct, 8)))
+    .replace(/\\([nt'"\\])/g, (_, c) => ({ n: '\n', t: '\t' } as Record<string, string>)[c] ?? c);
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_EVIDENCE_LENGTH ? `${text.slice(0, MAX_EVIDENCE_LENGTH - 3)}...` : text;
+}
@@ -0,0 +1,227 @@
+/**
+ * Execution Budget Store
+ *
+ * Usage counters for execution budgets, keyed by subject
+ * ('session:<session_id>' or 'token:<token_id>'). Each counter keeps a
+ * lifetime total and the timestamps of the last 24 hours, which is enough
+ * to enforce max_executions, max_per_hour and max_per_day
+ * (contracts/authority_token.schema.json constraints).
+ *
+ * This module holds data only - it never creates execution capability.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface BudgetLimits {
+  max_executions?: number; // Lifetime total
+  max_per_hour?: number;
+  max_per_day?: number;
+}
+
+export type BudgetLimit = keyof BudgetLimits;
+
+export interface BudgetUsage {
+  key: string;
+  total: number;
+  recent: number[]; // Timestamps (ms) within the last day
+  expires_at?: number; // Counter may be dropped after this (e.g. token expiry)
+}
+
+export interface BudgetExhaustion {
+  key: string;
+  limit: BudgetLimit;
+  allowed: number;
+  used: number;
+}
+
+/**
+ * Storage backend for budget counters
+ */
+export interface BudgetStore {
+  get(key: string): BudgetUsage | undefined;
+  save(usage: BudgetUsage): void;
+  delete(key: string): void;
+  list(): BudgetUsage[];
+}
+
+/**
+ * Default in-process store
+ */
+export class InMemoryBudgetStore implements BudgetStore {
+  private counters = new Map<string, BudgetUsage>();
+
+  get(key: string): BudgetUsage | undefined {
+    return this.counters.get(key);
+  }
+
+  save(usage: BudgetUsage): void {
+    this.counters.set(usage.key, usage);
+  }
+
+  delete(key: string): void {
+    this.counters.delete(key);
+  }
+
+  list(): BudgetUsage[] {
+    return Array.from(this.counters.values());
+  }
+}
+
+/**
+ * JSON-file store, so budgets survive restarts and are shared by
+ * processes pointing at the same file. Reads and writes are synchronous
+ * so a check and the following record cannot interleave within a process;
+ * writes go through a temp file and rename.
+ */
+export class FileBudgetStore implements BudgetStore {
+  constructor(private readonly filePath: string) {}
+
+  get(key: string): BudgetUsage | undefined {
+    return this.read()[key];
+  }
+
+  save(usage: BudgetUsage): void {
+    const counters = this.read();
+    counters[usage.key] = usage;
+    this.write(counters);
+  }
+
+  delete(key: string): void {
+    const counters = this.read();
+    if (key in counters) {
+      delete counters[key];
+      this.write(counters);
+    }
+  }
+
+  list(): BudgetUsage[] {
+    return Object.values(this.read());
+  }
+
+  private read(): Record<string, BudgetUsage> {
+    if (!fs.existsSync(this.filePath)) return {};
+    const content = fs.readFileSync(this.filePath, 'utf-8');
+    return content.trim() ? JSON.parse(content) : {};
+  }
+
+  private write(counters: Record<string, BudgetUsage>): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(counters, null, 2), 'utf-8');
+    fs.renameSync(tmp, this.filePath);
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+let budgetStore: BudgetStore = process.env.EAR_BUDGET_STORE_PATH
+  ? new FileBudgetStore(process.env.EAR_BUDGET_STORE_PATH)
+  : new InMemoryBudgetStore();
+
+/**
+ * Replaces the budget store backend
+ * @param store - Store implementation
+ */
+export function configureBudgetStore(store: BudgetStore): void {
+  budgetStore = store;
+}
+
+/**
+ * Returns the configured budget store
+ */
+export function getBudgetStore(): BudgetStore {
+  return budgetStore;
+}
+
+/**
+ * Checks a counter against limits
+ * @param key - Counter key
+ * @param limits - Limits to enforce (absent limits are not enforced)
+ * @param now - Current time (ms)
+ * @returns The first exhausted limit (max_executions, max_per_hour, max_per_day), or null
+ */
+export function checkBudget(
+  key: string,
+  limits: BudgetLimits,
+  now: number = Date.now()
+): BudgetExhaustion | null {
+  const usage = budgetStore.get(key);
+  if (!usage) return null;
+
+  const used: Record<BudgetLimit, number> = {
+    max_executions: usage.total,
+    max_per_hour: usage.recent.filter((at) => at > now - HOUR_MS).length,
+    max_per_day: usage.recent.filter((at) => at > now - DAY_MS).length,
+  };
+
+  for (const limit of ['max_executions', 'max_per_hour', 'max_per_day'] as const) {
+    const allowed = limits[limit];
+    if (allowed !== undefined && used[limit] >= allowed) {
+      return { key, limit, allowed, used: used[limit] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Counts one use against a counter and prunes expired counters
+ * @param key - Counter key
+ * @param now - Current time (ms)
+ * @param expiresAt - When the counter may be dropped (optional)
+ * @returns Updated usage
+ */
+export function recordUsage(key: string, now: number = Date.now(), expiresAt?: number): BudgetUsage {
+  for (const stale of budgetStore.list()) {
+    if (stale.expires_at !== undefined && stale.expires_at <= now) {
+      budgetStore.delete(stale.key);
+    }
+  }
+
+  const previous = budgetStore.get(key);
+  const usage: BudgetUsage = {
+    key,
+    total: (previous?.total ?? 0) + 1,
+    recent: [...(previous?.recent ?? []).filter((at) => at > now - DAY_MS), now],
+    ...((expiresAt ?? previous?.expires_at) !== undefined && {
+      expires_at: expiresAt ?? previous?.expires_at,
+    }),
+  };
+
+  budgetStore.save(usage);
+  return usage;
+}
+
+/**
+ * Takes back a use that was recorded for a decision later withdrawn
+ * @param key - Counter key
+ * @param at - Time (ms) the use was recorded at
+ * @returns Whether a use was released
+ */
+export function releaseUsage(key: string, at: number): boolean {
+  const usage = budgetStore.get(key);
+  const index = usage ? usage.recent.lastIndexOf(at) : -1;
+  if (!usage || index === -1) return false;
+
+  budgetStore.save({
+    ...usage,
+    total: Math.max(usage.total - 1, 0),
+    recent: [...usage.recent.slice(0, index), ...usage.recent.slice(index + 1)],
+  });
+  return true;
+}
+
+/**
+ * Describes an exhausted limit, e.g. "max_per_hour (10 per hour, 10 used)"
+ */
+export function describeExhaustion(exhaustion: BudgetExhaustion): string {
+  const unit = {
+    max_executions: 'in total',
+    max_per_hour: 'per hour',
+    max_per_day: 'per day',
+  }[exhaustion.limit];
+
+  return `${exhaustion.limit} (${exhaustion.allowed} ${unit}, ${exhaustion.used} used)`;
+}
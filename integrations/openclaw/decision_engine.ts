@@ -2,10 +2,26 @@
  * EAR Decision Engine
  *
  * Evaluates execution proposals and returns STOP/HOLD/ALLOW verdict.
- * Uses existing runtime judgment logic with unified input structure.
+ * Judgment rules come from a declarative policy document (see policy.ts),
+ * selected via EAR_POLICY_PATH or the bundled default policy.
  */
 
-import * as crypto from 'crypto';
+import type { RiskFactor } from '../../src/types/risk_factor';
+import {
+  DEFAULT_POLICY_PATH,
+  MatchEvidence,
+  Policy,
+  PolicyRule,
+  loadPolicy,
+  matchRule,
+  renderReason,
+  validatePolicy,
+} from './policy';
+import { getSessionHistory, SessionEntry } from './session_context';
+import { redactArguments, redactValue } from '../../proof/redaction';
+import { canonicalHash } from '../../proof/canonical_json';
+
+export type { RiskFactor };
 
 export interface DecisionInput {
   action: string;
@@ -15,158 +31,212 @@ export interface DecisionInput {
     source: string;
     timestamp: number;
     session_id?: string;
+    skill?: string; // Skill issuing the call, when the caller knows it (skills.ts)
+    client_source?: string; // Unverified origin claimed by the client (logged as request_context)
   };
 }
 
 export interface Decision {
   verdict: 'STOP' | 'HOLD' | 'ALLOW';
   reason?: string;
-  risk_score: number;
+  risk_score: number; // 0 - max_risk_score (policy scale)
+  max_risk_score: number;
   decision_hash: string;
   timestamp: number;
+  policy_id: string;
+  matched_rules: string[];
+  risk_factors: RiskFactor[]; // Why the score is what it is
 }
 
 /**
- * High-risk actions that are always blocked
+ * Active policy - loaded and validated at startup.
+ * A malformed policy throws here instead of silently falling back.
  */
-const FORBIDDEN_ACTIONS = [
-  'delete_server_files',
-  'reverse_shell',
-  'execute_shell',
-  'rm_rf',
-  'drop_database',
-  'expose_secrets',
-  'network_scan',
-  'privilege_escalation',
-];
+let activePolicy: Policy = loadPolicy(process.env.EAR_POLICY_PATH || DEFAULT_POLICY_PATH);
 
 /**
- * Actions requiring external approval
+ * Returns the policy currently used by evaluateDecision
  */
-const APPROVAL_REQUIRED_ACTIONS = [
-  'deploy_production',
-  'modify_database',
-  'send_email_blast',
-  'delete_resource',
-];
+export function getActivePolicy(): Policy {
+  return activePolicy;
+}
+
+/**
+ * Replaces the active policy (validated before it takes effect)
+ * @param policy - Policy document
+ * @throws Error if the policy fails validation
+ */
+export function setActivePolicy(policy: Policy): void {
+  const errors = validatePolicy(policy);
+  if (errors.length > 0) {
+    throw new Error(`Invalid policy ${policy?.policy_id ?? '(unknown)'}:\n  - ${errors.join('\n  - ')}`);
+  }
+  activePolicy = policy;
+}
 
 /**
- * Evaluates decision based on action risk profile
+ * Evaluates decision based on the active policy
+ * Sequence rules see the earlier decisions of input.metadata.session_id
+ * (session_context.ts); recording the enforced decision is up to the caller.
  * @param input - Unified decision input
+ * @param policy - Policy to evaluate against (defaults to the active policy)
  * @returns Decision verdict with risk score
  */
-export async function evaluateDecision(input: DecisionInput): Promise<Decision> {
+export async function evaluateDecision(
+  input: DecisionInput,
+  policy: Policy = activePolicy
+): Promise<Decision> {
   const timestamp = Date.now();
+  const history = getSessionHistory(input.metadata.session_id);
+
+  const decide = (
+    verdict: Decision['verdict'],
+    reason: string,
+    riskScore: number,
+    riskFactors: RiskFactor[]
+  ): Decision => ({
+    verdict,
+    reason,
+    risk_score: riskScore,
+    max_risk_score: policy.max_score,
+    decision_hash: computeDecisionHash(input, verdict, timestamp),
+    timestamp,
+    policy_id: policy.policy_id,
+    matched_rules: riskFactors.map((f) => f.factor),
+    risk_factors: riskFactors,
+  });
 
-  // Check if action is forbidden
-  if (FORBIDDEN_ACTIONS.includes(input.action)) {
-    return {
-      verdict: 'STOP',
-      reason: `Forbidden action: ${input.action} is categorically blocked`,
-      risk_score: 10, // Maximum risk
-      decision_hash: computeDecisionHash(input, 'STOP', timestamp),
-      timestamp,
-    };
+  // Verdict rules decide outright - first match in policy order wins
+  for (const rule of policy.rules) {
+    const evidence = rule.verdict ? matchRule(rule, input, history) : null;
+    if (rule.verdict && evidence) {
+      const reason = rule.reason
+        ? renderReason(rule.reason, input, evidence.flatMap((e) => e.related_decisions ?? []))
+        : `Rule ${rule.id} matched ${input.action}`;
+      const factor = toRiskFactor(rule, evidence, policy);
+      return decide(rule.verdict, reason, Math.min(rule.score, policy.max_score), [factor]);
+    }
   }
 
-  // Check if action requires approval
-  if (APPROVAL_REQUIRED_ACTIONS.includes(input.action)) {
-    return {
-      verdict: 'HOLD',
-      reason: `Action ${input.action} requires external approval`,
-      risk_score: 7, // High risk, requires approval
-      decision_hash: computeDecisionHash(input, 'HOLD', timestamp),
-      timestamp,
-    };
-  }
+  // Additional risk checks based on scoring rules
+  const { score: riskScore, factors } = calculateRiskScore(input, policy, history);
+  const { hold, stop } = policy.thresholds;
+  const why = summarizeFactors(factors, policy);
 
-  // Additional risk checks based on arguments
-  const riskScore = calculateRiskScore(input);
-
-  if (riskScore >= 8) {
-    return {
-      verdict: 'STOP',
-      reason: `Risk score ${riskScore} exceeds STOP threshold (8)`,
-      risk_score: riskScore,
-      decision_hash: computeDecisionHash(input, 'STOP', timestamp),
-      timestamp,
-    };
+  if (riskScore >= stop) {
+    return decide('STOP', `Risk score ${riskScore} exceeds STOP threshold (${stop})${why}`, riskScore, factors);
   }
 
-  if (riskScore >= 5) {
-    return {
-      verdict: 'HOLD',
-      reason: `Risk score ${riskScore} requires approval (threshold 5)`,
-      risk_score: riskScore,
-      decision_hash: computeDecisionHash(input, 'HOLD', timestamp),
-      timestamp,
-    };
+  if (riskScore >= hold) {
+    return decide('HOLD', `Risk score ${riskScore} requires approval (threshold ${hold})${why}`, riskScore, factors);
   }
 
   // Low risk - ALLOW
-  return {
-    verdict: 'ALLOW',
-    reason: `Action ${input.action} approved (risk score: ${riskScore})`,
-    risk_score: riskScore,
-    decision_hash: computeDecisionHash(input, 'ALLOW', timestamp),
-    timestamp,
-  };
+  return decide('ALLOW', `Action ${input.action} approved (risk score: ${riskScore})${why}`, riskScore, factors);
 }
 
 /**
- * Calculates risk score based on action arguments
+ * Calculates risk score from the policy's scoring rules
  * @param input - Decision input
- * @returns Risk score (0-10)
+ * @param policy - Policy providing scoring rules
+ * @param history - Earlier decisions of the session
+ * @returns Risk score (0-max_score) and the factors that contributed
  */
-function calculateRiskScore(input: DecisionInput): number {
+function calculateRiskScore(
+  input: DecisionInput,
+  policy: Policy,
+  history: SessionEntry[]
+): { score: number; factors: RiskFactor[] } {
   let score = 0;
-
-  // Check for dangerous patterns in arguments
-  const args = JSON.stringify(input.arguments).toLowerCase();
-
-  if (args.includes('rm ') || args.includes('delete') || args.includes('drop')) {
-    score += 3;
+  const factors: RiskFactor[] = [];
+
+  for (const rule of policy.rules) {
+    const evidence = rule.verdict ? null : matchRule(rule, input, history);
+    if (evidence) {
+      score += rule.score;
+      factors.push(toRiskFactor(rule, evidence, policy));
+    }
   }
 
-  if (args.includes('sudo') || args.includes('root') || args.includes('admin')) {
-    score += 2;
-  }
+  return { score: Math.min(score, policy.max_score), factors };
+}
 
-  if (args.includes('password') || args.includes('secret') || args.includes('token')) {
-    score += 2;
-  }
+/**
+ * Builds the risk factor for a matched rule
+ * @param rule - Matched policy rule
+ * @param evidence - What each of the rule's criteria matched
+ * @param policy - Policy (for weight normalization)
+ * @returns Risk factor with human-readable evidence
+ */
+function toRiskFactor(rule: PolicyRule, evidence: MatchEvidence[], policy: Policy): RiskFactor {
+  const weight = Math.round(Math.min(rule.score / policy.max_score, 1) * 1000) / 1000;
+  const described = evidence.map(describeEvidence).join('; ');
+  const related = evidence.flatMap((e) => e.related_decisions ?? []);
 
-  if (args.includes('production') || args.includes('prod')) {
-    score += 1;
-  }
+  return {
+    factor: rule.id,
+    weight,
+    ...(described && { evidence: described }),
+    ...(related.length > 0 && { related_decisions: related }),
+  };
+}
 
-  // Check resource criticality
-  if (input.resource.includes('/etc/') || input.resource.includes('system')) {
-    score += 2;
-  }
+/**
+ * Renders one piece of match evidence, e.g. "arguments.command contains 'rm '"
+ * or "arguments.command indicates destructive (rm -rf /data)"
+ * or "session follows 1 of the last 5 calls (read_file ALLOW 3f2a9c0d51e7)"
+ * or "skill is 1password (critical tier, via program op)"
+ */
+function describeEvidence(evidence: MatchEvidence): string {
+  const verb = {
+    glob: 'matches',
+    contains: 'contains',
+    equals: 'equals',
+    pattern: 'matches pattern',
+    intent: 'indicates',
+    detector: 'triggers',
+    sequence: 'follows',
+    skill: 'is',
+  }[evidence.criterion];
+
+  const structural = ['intent', 'detector', 'sequence', 'skill'].includes(evidence.criterion);
+  const matched = structural ? evidence.matched : `'${evidence.matched}'`;
+  return `${evidence.target} ${verb} ${matched}`;
+}
 
-  return Math.min(score, 10); // Cap at 10
+/**
+ * Summarizes contributing factors for the reason string
+ * @returns e.g. " (destructive-arguments +3, privileged-arguments +2)" or ""
+ */
+function summarizeFactors(factors: RiskFactor[], policy: Policy): string {
+  if (factors.length === 0) return '';
+
+  const scores = new Map(policy.rules.map((r) => [r.id, r.score]));
+  return ` (${factors.map((f) => `${f.factor} +${scores.get(f.factor)}`).join(', ')})`;
 }
 
 /**
  * Computes deterministic hash of decision
+ * Secrets in the resource and arguments are hashed in their redacted form
+ * (proof/redaction.ts) - the form written to the decision log - so the
+ * hash can be recomputed from a logged record without the raw values.
+ * The payload is serialized canonically (RFC 8785), so argument key order
+ * does not change the hash (see proof/verify_decision_hash.ts).
  * @param input - Decision input
  * @param verdict - Decision verdict
  * @param timestamp - Decision timestamp
  * @returns SHA256 hash
  */
-function computeDecisionHash(
-  input: DecisionInput,
+export function computeDecisionHash(
+  input: Pick<DecisionInput, 'action' | 'resource' | 'arguments'>,
   verdict: string,
   timestamp: number
 ): string {
-  const payload = JSON.stringify({
+  return canonicalHash({
     action: input.action,
-    resource: input.resource,
-    arguments: input.arguments,
+    resource: redactValue(input.resource, 'resource').value,
+    arguments: redactArguments(input.arguments),
     verdict,
     timestamp,
   });
-
-  return crypto.createHash('sha256').update(payload).digest('hex');
 }
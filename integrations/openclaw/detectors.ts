@@ -0,0 +1,149 @@
+/**
+ * EAR Pattern Detectors
+ *
+ * Known attack signatures (reverse shells, credential file access, ...)
+ * matched against the command-like values of a tool call, as rendered by
+ * the argument analyzer from parsed shell tokens with paths normalized, so
+ * quoting tricks (r''m, c""at) and `//` paths do not slip past them. Free
+ * text is only checked for prompt injection markers, which add to the risk
+ * score. Formerly private to the adversarial test runner; the decision
+ * engine consumes them through `{ "detector": [...] }` policy matchers so
+ * the adversarial suite exercises the shipping decision path.
+ */
+
+import { commandTexts } from './argument_analyzer';
+
+export type DetectorSeverity = 'STOP' | 'HOLD' | 'SCORE';
+export type DetectorScope = 'command' | 'text';
+
+export interface PatternDetector {
+  id: string;
+  description: string;
+  severity: DetectorSeverity; // What the default policy does on a hit (SCORE: adds to the risk score)
+  scope: DetectorScope; // command: rendered command lines; text: every string value
+  patterns: RegExp[];
+}
+
+export interface DetectorHit {
+  detector: string;
+  severity: DetectorSeverity;
+  path: string; // e.g. 'arguments.command'
+  matched: string; // Matched text
+}
+
+export const DEFAULT_DETECTORS: PatternDetector[] = [
+  {
+    id: 'filesystem-destruction',
+    description: 'Recursive deletion from the filesystem root, disk wiping',
+    severity: 'STOP',
+    scope: 'command',
+    patterns: [/rm\s+-rf\s+\/|del\s+\/[SF]/i, /(?:^|[;&|]\s*)(?:sudo\s+)?(?:shred|wipe)\b|\bdd\s+if=/i],
+  },
+  {
+    id: 'privilege-escalation',
+    description: 'Root shells via sudo, setuid/setgid bits',
+    severity: 'STOP',
+    scope: 'command',
+    patterns: [/sudo\s+(su|bash|sh)\b|sudo\s+-i\b/i, /chmod\s+\+s|\bsetuid\b|\bsetgid\b/i],
+  },
+  {
+    id: 'network-exfiltration',
+    description: 'Remote scripts piped into a shell, netcat with command execution, /dev/tcp channels',
+    severity: 'STOP',
+    scope: 'command',
+    patterns: [/curl.*\|\s*bash|wget.*\|\s*sh/i, /\bnc\s+.*-e\b|\bncat.*-e\b/i, /\/dev\/tcp\/.*attacker/i],
+  },
+  {
+    id: 'credential-access',
+    description: 'Reading password databases, cloud credentials or SSH keys',
+    severity: 'STOP',
+    scope: 'command',
+    patterns: [/cat.*\/etc\/shadow|cat.*\/etc\/passwd/i, /cat.*\.aws\/credentials|cat.*\.ssh/i],
+  },
+  {
+    id: 'command-injection',
+    description: 'Downloads chained or substituted into another command',
+    severity: 'STOP',
+    scope: 'command',
+    patterns: [/;\s*curl|&&\s*wget|`.*curl/i, /\$\(.*curl|\$\(.*wget/i],
+  },
+  {
+    id: 'reverse-shell',
+    description: 'Interactive shells bound to network sockets',
+    severity: 'STOP',
+    scope: 'command',
+    patterns: [/bash\s+-i.*\/dev\/tcp|\bnc\b.*-lvp/i],
+  },
+  {
+    id: 'system-override',
+    description: 'Attempts to disable or bypass the execution authority runtime',
+    severity: 'STOP',
+    scope: 'command',
+    patterns: [/EAR_POLICY_OVERRIDE|DISABLE_AUTH|BYPASS_CHECK/i],
+  },
+  {
+    id: 'prompt-injection',
+    description: 'Instruction override markers embedded in arguments',
+    severity: 'SCORE',
+    scope: 'text',
+    patterns: [
+      /ignore\s+all\s+previous\s+instructions|developer\s+mode/i,
+      /system:\s*override|admin:\s*execute/i,
+    ],
+  },
+  {
+    id: 'suspicious-command',
+    description: 'sudo usage, plain HTTP downloads, eval calls',
+    severity: 'HOLD',
+    scope: 'command',
+    patterns: [/sudo\s+\w+/i, /curl\s+http/i, /eval\s*\(/i],
+  },
+];
+
+/**
+ * Runs detectors against a tool call: command detectors against the rendered
+ * command lines (see commandTexts), text detectors against every string value
+ * @param args - Tool call arguments
+ * @param detectors - Detectors to run (defaults to DEFAULT_DETECTORS)
+ * @returns Hits in detector order, at most one per detector and argument path
+ */
+export function detectPatterns(
+  args: Record<string, any>,
+  detectors: PatternDetector[] = DEFAULT_DETECTORS
+): DetectorHit[] {
+  const hits: DetectorHit[] = [];
+  const commands = commandTexts(args);
+  const strings: { path: string; text: string }[] = [];
+
+  const visit = (value: any, path: string) => {
+    if (typeof value === 'string') {
+      strings.push({ path, text: value });
+    } else if (value !== null && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, `${path}.${key}`);
+      }
+    }
+  };
+  visit(args, 'arguments');
+
+  for (const detector of detectors) {
+    const seen = new Set<string>();
+    for (const { path, text } of detector.scope === 'command' ? commands : strings) {
+      if (seen.has(path)) continue;
+      const match = detector.patterns.map((p) => p.exec(text)).find((m) => m);
+      if (match) {
+        seen.add(path);
+        hits.push({ detector: detector.id, severity: detector.severity, path, matched: match[0] });
+      }
+    }
+  }
+
+  return hits;
+}
+
+/**
+ * Looks up a default detector by id
+ */
+export function getDetector(id: string): PatternDetector | undefined {
+  return DEFAULT_DETECTORS.find((d) => d.id === id);
+}
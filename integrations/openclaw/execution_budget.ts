@@ -0,0 +1,126 @@
+/**
+ * Session Execution Budgets
+ *
+ * Caps how many ALLOW capabilities one OpenClaw session may be granted
+ * (metadata.session_id). Once a limit is exhausted further ALLOW decisions
+ * are downgraded to HOLD (default) or STOP, with the limit that triggered
+ * the downgrade in the decision reason and risk factors.
+ *
+ * Limits come from EAR_SESSION_MAX_EXECUTIONS, EAR_SESSION_MAX_PER_HOUR and
+ * EAR_SESSION_MAX_PER_DAY (unset = unlimited); the downgrade verdict from
+ * EAR_BUDGET_EXHAUSTED_VERDICT. Calls without a session_id share one
+ * counter, so leaving the session_id out does not escape the limits.
+ * Per-token limits are enforced when the ALLOW capability is executed.
+ */
+
+import { computeDecisionHash, Decision, DecisionInput } from './decision_engine';
+import {
+  BudgetLimits,
+  checkBudget,
+  describeExhaustion,
+  recordUsage,
+  releaseUsage,
+} from './budget_store';
+
+export type BudgetExhaustedVerdict = 'HOLD' | 'STOP';
+
+// Counter shared by calls without a session_id
+const SESSIONLESS_KEY = 'sessionless';
+
+let sessionLimits: BudgetLimits = {
+  ...limitFromEnv('max_executions', process.env.EAR_SESSION_MAX_EXECUTIONS),
+  ...limitFromEnv('max_per_hour', process.env.EAR_SESSION_MAX_PER_HOUR),
+  ...limitFromEnv('max_per_day', process.env.EAR_SESSION_MAX_PER_DAY),
+};
+let exhaustedVerdict: BudgetExhaustedVerdict =
+  process.env.EAR_BUDGET_EXHAUSTED_VERDICT === 'STOP' ? 'STOP' : 'HOLD';
+
+/**
+ * Configures session limits and the verdict used once they are exhausted
+ * @param options - Limits (replace the current ones) and/or downgrade verdict
+ * @throws Error if a limit is not a non-negative integer
+ */
+export function configureSessionBudget(options: {
+  limits?: BudgetLimits;
+  on_exhausted?: BudgetExhaustedVerdict;
+}): void {
+  if (options.limits) {
+    for (const [limit, value] of Object.entries(options.limits)) {
+      if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+        throw new Error(`Budget limit ${limit} must be a non-negative integer, got ${value}`);
+      }
+    }
+    sessionLimits = { ...options.limits };
+  }
+  if (options.on_exhausted) {
+    exhaustedVerdict = options.on_exhausted;
+  }
+}
+
+/**
+ * Returns the configured per-session limits
+ */
+export function getSessionLimits(): BudgetLimits {
+  return { ...sessionLimits };
+}
+
+/**
+ * Applies the session budget to a decision
+ *
+ * ALLOW decisions within budget are counted against the session; ALLOW
+ * decisions over budget are downgraded (new verdict, new decision_hash).
+ * STOP and HOLD decisions pass through unchanged and are not counted.
+ *
+ * @param decision - Decision from evaluateDecision
+ * @param input - Decision input (metadata.session_id selects the counter)
+ * @returns The decision to enforce
+ */
+export function applySessionBudget(decision: Decision, input: DecisionInput): Decision {
+  if (decision.verdict !== 'ALLOW') {
+    return decision;
+  }
+
+  const sessionId = input.metadata.session_id;
+  const exhaustion = checkBudget(budgetKey(input), sessionLimits, decision.timestamp);
+
+  if (!exhaustion) {
+    recordUsage(budgetKey(input), decision.timestamp);
+    return decision;
+  }
+
+  const limit = describeExhaustion(exhaustion);
+  const subject = sessionId ? `session ${sessionId}` : 'calls without a session_id';
+  return {
+    ...decision,
+    verdict: exhaustedVerdict,
+    reason: `${subject.charAt(0).toUpperCase()}${subject.slice(1)} exceeded ${limit}; ${decision.reason}`,
+    decision_hash: computeDecisionHash(input, exhaustedVerdict, decision.timestamp),
+    matched_rules: [...decision.matched_rules, 'session-budget'],
+    risk_factors: [
+      ...decision.risk_factors,
+      { factor: 'session-budget', weight: 1, evidence: `${subject} exceeded ${limit}` },
+    ],
+  };
+}
+
+/**
+ * Releases the use an ALLOW decision counted against its session, once the
+ * decision is withdrawn because the pipeline failed closed (see fail_closed.ts)
+ * @param decision - Withdrawn decision (only ALLOW decisions were counted)
+ * @param input - Decision input of the withdrawn decision
+ */
+export function releaseSessionBudget(decision: Decision, input: DecisionInput): void {
+  if (decision.verdict === 'ALLOW') {
+    releaseUsage(budgetKey(input), decision.timestamp);
+  }
+}
+
+function budgetKey(input: DecisionInput): string {
+  const sessionId = input.metadata.session_id;
+  return sessionId ? `session:${sessionId}` : SESSIONLESS_KEY;
+}
+
+function limitFromEnv(limit: keyof BudgetLimits, value: string | undefined): BudgetLimits {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? { [limit]: parsed } : {};
+}
@@ -0,0 +1,168 @@
+/**
+ * Fail-Closed Mediation
+ *
+ * Any error in the mediation pipeline denies execution (spec Invariant 3).
+ * failClosed builds the decision input for one tool call, runs the pipeline
+ * on it and turns an exception (including a malformed tool call), a
+ * timeout or a failed log write into a STOP DecisionResult with a distinct
+ * error_code, so a caller never receives an ALLOW capability from a
+ * pipeline that did not complete. The STOP is logged when the log is
+ * writable.
+ *
+ * On failure the pipeline's abort signal fires, so a decision reached after
+ * the timeout is neither logged nor recorded, and the decision the pipeline
+ * had already reached (reported with the handler stage) is withdrawn: its
+ * pending hold is cancelled, its session history entry removed and the
+ * session budget it used released.
+ *
+ * Timeout: EAR_DECISION_TIMEOUT_MS (default 10 seconds)
+ */
+
+import { computeDecisionHash, Decision, DecisionInput } from './decision_engine';
+import { DecisionResult, ExecutionCapability, FailClosedCode } from '../../src/types/execution_capability';
+import { handleStopVerdict } from '../../src/adapter/stop_handler';
+import { cancelPendingHold } from './approval_store';
+import { forgetSessionDecision } from './session_context';
+import { releaseSessionBudget } from './execution_budget';
+import { getProofManifestPath, isLogWriteFailure } from '../../proof/openclaw_intercept/decision_logger';
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const TIMED_OUT = Symbol('timed-out');
+
+// Recorded for a tool call that could not be converted into a decision input
+const UNREADABLE_CALL = 'unknown';
+
+export type PipelineStage = 'evaluation' | 'handler';
+
+/**
+ * Reports the stage the pipeline enters; the handler stage carries the decision being enforced
+ */
+export type EnterStage = (stage: PipelineStage, decision?: Decision) => void;
+
+export interface FailClosedOptions {
+  timeout_ms?: number; // Default: EAR_DECISION_TIMEOUT_MS or 10 seconds
+}
+
+/**
+ * Runs a mediation pipeline, failing closed on any error
+ * @param buildInput - Converts the tool call into its decision input (a throw fails as evaluation_failed)
+ * @param pipeline - Pipeline; reports the stage it is in so failures get the right code,
+ *   and stops logging once its signal is aborted
+ * @param options - Timeout override
+ * @returns The pipeline's result, or a STOP with error_code on failure
+ */
+export async function failClosed(
+  buildInput: () => DecisionInput,
+  pipeline: (input: DecisionInput, enter: EnterStage, signal: AbortSignal) => Promise<DecisionResult>,
+  options: FailClosedOptions = {}
+): Promise<DecisionResult> {
+  const timeoutMs = options.timeout_ms ?? positiveInt(process.env.EAR_DECISION_TIMEOUT_MS) ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  let stage: PipelineStage = 'evaluation';
+  let input: DecisionInput | undefined;
+  let decided: Decision | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<typeof TIMED_OUT>((resolve) => {
+    timer = setTimeout(() => resolve(TIMED_OUT), timeoutMs);
+  });
+
+  try {
+    input = buildInput();
+    const run = pipeline(input, (next, decision) => {
+      stage = next;
+      decided = decision ?? decided;
+    }, controller.signal);
+    run.catch(() => undefined); // Rejections after the timeout are already failed closed
+
+    const result = await Promise.race([run, timeout]);
+    if (result === TIMED_OUT) {
+      controller.abort();
+      const message = `Decision pipeline did not complete within ${timeoutMs}ms`;
+      return await stopOnFailure(input, 'pipeline_timeout', message, decided);
+    }
+    return result;
+  } catch (error) {
+    const code: FailClosedCode = isLogWriteFailure(error)
+      ? 'log_write_failed'
+      : stage === 'evaluation'
+        ? 'evaluation_failed'
+        : 'handler_failed';
+
+    controller.abort();
+    const message = error instanceof Error ? error.message : String(error);
+    return await stopOnFailure(input ?? unreadableCall(), code, message, decided);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Builds (and logs, if the log is writable) the STOP for a failed pipeline
+ * @param input - Decision input of the tool call
+ * @param code - Failure code
+ * @param message - Error message
+ * @param abandoned - Decision the pipeline reached but did not enforce; its
+ *   pending hold is cancelled, its session history entry removed and its
+ *   session budget use released
+ * @returns STOP capability carrying the failure code
+ */
+export async function stopOnFailure(
+  input: DecisionInput,
+  code: FailClosedCode,
+  message: string,
+  abandoned?: Decision
+): Promise<ExecutionCapability<'STOP'>> {
+  const timestamp = Date.now();
+  const reason = `Fail-closed (${code}): ${message}`;
+
+  if (abandoned) {
+    cancelPendingHold(abandoned.decision_hash, reason);
+    forgetSessionDecision(input.metadata.session_id, abandoned.decision_hash);
+    releaseSessionBudget(abandoned, input);
+  }
+
+  const decision: Decision = {
+    verdict: 'STOP',
+    reason,
+    risk_score: 10,
+    max_risk_score: 10,
+    decision_hash: computeDecisionHash(input, 'STOP', timestamp),
+    timestamp,
+    policy_id: 'fail-closed',
+    matched_rules: [],
+    risk_factors: [{ factor: 'fail-closed', weight: 1, evidence: `${code}: ${message}` }],
+  };
+
+  console.error(`[FAIL_CLOSED] ${reason}`);
+
+  try {
+    return { ...(await handleStopVerdict(decision, input)), error_code: code };
+  } catch (error) {
+    console.error('[FAIL_CLOSED] Failed to log fail-closed STOP:', error);
+    return {
+      verdict: 'STOP',
+      proof_path: getProofManifestPath(),
+      decision_hash: decision.decision_hash,
+      reason,
+      risk_factors: decision.risk_factors,
+      executed: false,
+      blocked_at_compile_time: true,
+      error_code: code,
+    };
+  }
+}
+
+function unreadableCall(): DecisionInput {
+  return {
+    action: UNREADABLE_CALL,
+    resource: UNREADABLE_CALL,
+    arguments: {},
+    metadata: { source: UNREADABLE_CALL, timestamp: Date.now() },
+  };
+}
+
+function positiveInt(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
@@ -0,0 +1,219 @@
+/**
+ * HOLD Approval Workflow
+ *
+ * Lists, approves and rejects pending HOLD decisions.
+ * Approval produces a fresh ALLOW decision that runs through the same
+ * pipeline as a new tool call (resumeToolCall: session budget, session
+ * history, allow_handler, fail-closed).
+ * Every approve / reject / expire transition is logged, and a hold changes
+ * status only once its transition is logged, so a failed log write leaves
+ * it pending and the resolution can be retried.
+ */
+
+import { computeDecisionHash, Decision } from './decision_engine';
+import { getApprovalStore, HoldResolution, PendingHold } from './approval_store';
+import { resumeToolCall } from './openclaw_adapter';
+import { DecisionResult } from '../../src/types/execution_capability';
+import { logDecisionEvent } from '../../proof/openclaw_intercept/decision_logger';
+import { DecisionEvent, toDecisionEvent } from '../../proof/decision_event';
+
+// Holds whose transition is being logged in this process
+const resolving = new Set<string>();
+
+export interface HoldResolutionRequest {
+  approver: string;
+  comment?: string;
+}
+
+/**
+ * Lists holds still awaiting approval (expiring stale holds first)
+ * @param now - Current time (ms)
+ * @returns Pending holds, oldest first
+ */
+export async function listPendingHolds(now: number = Date.now()): Promise<PendingHold[]> {
+  await expireHolds(now);
+
+  return getApprovalStore()
+    .list()
+    .filter((hold) => hold.status === 'pending')
+    .sort((a, b) => a.held_at - b.held_at);
+}
+
+/**
+ * Approves a pending hold and enforces a fresh ALLOW decision for its tool call
+ * @param decisionHash - decision_hash of the HOLD decision
+ * @param request - Approver identity and comment
+ * @returns DecisionResult of the approved call: the ALLOW capability, or a
+ *   STOP / HOLD if the session budget or the pipeline does not allow it
+ * @throws Error if the hold is unknown, already resolved or expired, or the
+ *   transition cannot be logged
+ */
+export async function approveHold(
+  decisionHash: string,
+  request: HoldResolutionRequest
+): Promise<DecisionResult> {
+  const hold = await claimPendingHold(decisionHash, request);
+  let decision: Decision;
+
+  try {
+    // Strictly after the HOLD, so a decision re-hashed from the approval
+    // (a session budget downgrade) never takes the HOLD's decision_hash
+    const resolution = resolutionOf(request);
+    resolution.at = Math.max(resolution.at, hold.decision.timestamp + 1);
+    decision = {
+      verdict: 'ALLOW',
+      reason: `HOLD ${hold.decision_hash} approved by ${request.approver}${
+        request.comment ? `: ${request.comment}` : ''
+      }`,
+      risk_score: hold.decision.risk_score,
+      max_risk_score: hold.decision.max_risk_score,
+      decision_hash: computeDecisionHash(hold.input, 'ALLOW', resolution.at),
+      timestamp: resolution.at,
+      policy_id: hold.decision.policy_id,
+      matched_rules: hold.decision.matched_rules,
+      risk_factors: hold.decision.risk_factors ?? [],
+    };
+
+    await resolveHold(hold, 'approved', resolution, decision.decision_hash);
+  } finally {
+    resolving.delete(decisionHash);
+  }
+
+  // Same pipeline as a new tool call - executor is only reachable through allow_handler
+  return await resumeToolCall(decision, hold.input, hold.tool_call);
+}
+
+/**
+ * Rejects a pending hold
+ * @param decisionHash - decision_hash of the HOLD decision
+ * @param request - Approver identity and comment
+ * @returns Resolved hold record
+ * @throws Error if the hold is unknown, already resolved or expired, or the
+ *   transition cannot be logged
+ */
+export async function rejectHold(
+  decisionHash: string,
+  request: HoldResolutionRequest
+): Promise<PendingHold> {
+  const hold = await claimPendingHold(decisionHash, request);
+
+  try {
+    await resolveHold(hold, 'rejected', resolutionOf(request));
+  } finally {
+    resolving.delete(decisionHash);
+  }
+
+  return hold;
+}
+
+/**
+ * Expires every pending hold whose TTL has elapsed
+ * @param now - Current time (ms)
+ * @returns Holds expired by this call
+ */
+export async function expireHolds(now: number = Date.now()): Promise<PendingHold[]> {
+  const expired = getApprovalStore()
+    .list()
+    .filter((hold) => hold.status === 'pending' && hold.expires_at <= now && !resolving.has(hold.decision_hash));
+
+  for (const hold of expired) {
+    resolving.add(hold.decision_hash);
+    try {
+      await expireHold(hold, now);
+    } finally {
+      resolving.delete(hold.decision_hash);
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Claims a hold that is still pending; the caller releases it from `resolving`.
+ * The status check and the claim happen without yielding, so concurrent
+ * approve/reject calls for the same hold cannot both succeed.
+ */
+async function claimPendingHold(decisionHash: string, request: HoldResolutionRequest): Promise<PendingHold> {
+  if (!request.approver) {
+    throw new Error('Hold resolution requires an approver identity');
+  }
+
+  const hold = getApprovalStore().get(decisionHash);
+  if (!hold) {
+    throw new Error(`No pending hold for decision ${decisionHash}`);
+  }
+  if (resolving.has(decisionHash)) {
+    throw new Error(`Hold ${decisionHash} is already being resolved`);
+  }
+
+  resolving.add(decisionHash);
+  try {
+    const now = Date.now();
+    if (hold.status === 'pending' && hold.expires_at <= now) {
+      await expireHold(hold, now);
+    }
+    if (hold.status !== 'pending') {
+      throw new Error(`Hold ${decisionHash} is already ${hold.status}`);
+    }
+  } catch (error) {
+    resolving.delete(decisionHash);
+    throw error;
+  }
+
+  return hold;
+}
+
+async function expireHold(hold: PendingHold, now: number): Promise<void> {
+  await resolveHold(hold, 'expired', { by: 'system', comment: 'TTL elapsed', at: now });
+}
+
+/**
+ * Logs a transition, then stores the hold's new status
+ */
+async function resolveHold(
+  hold: PendingHold,
+  transition: 'approved' | 'rejected' | 'expired',
+  resolution: HoldResolution,
+  approvedDecisionHash?: string
+): Promise<void> {
+  await logHoldTransition(hold, transition, resolution, approvedDecisionHash);
+
+  hold.status = transition;
+  hold.resolution = resolution;
+  getApprovalStore().save(hold);
+}
+
+function resolutionOf(request: HoldResolutionRequest): HoldResolution {
+  return { by: request.approver, comment: request.comment, at: Date.now() };
+}
+
+/**
+ * Logs a hold transition as a canonical hold_transition event
+ * (approved -> ALLOW, rejected/expired -> STOP)
+ */
+async function logHoldTransition(
+  hold: PendingHold,
+  transition: 'approved' | 'rejected' | 'expired',
+  resolution: HoldResolution,
+  approvedDecisionHash?: string
+): Promise<void> {
+  const event: DecisionEvent = {
+    ...toDecisionEvent(hold.decision, hold.input, {
+      source: hold.input.metadata.source,
+      intercepted: true,
+    }),
+    event_type: 'hold_transition',
+    timestamp: new Date(resolution.at).toISOString(),
+    verdict: transition === 'approved' ? 'ALLOW' : 'STOP',
+    reason: `HOLD ${transition} by ${resolution.by}${resolution.comment ? `: ${resolution.comment}` : ''}`,
+    hold: {
+      transition,
+      hold_decision_hash: hold.decision_hash,
+      resolved_by: resolution.by,
+      ...(resolution.comment && { comment: resolution.comment }),
+      ...(approvedDecisionHash && { approved_decision_hash: approvedDecisionHash }),
+    },
+  };
+
+  await logDecisionEvent(event);
+}
@@ -7,9 +7,15 @@
  * Flow:
  * OpenClaw generates tool_call → receiveToolCall() → EAR Decision Engine
  * → STOP verdict → Execution blocked, proof artifact generated
+ *
+ * The pipeline fails closed: an exception, timeout or failed log write
+ * yields a STOP with an error_code instead of a rejected promise (fail_closed.ts).
  */
 
 import { evaluateDecision, Decision, DecisionInput } from './decision_engine';
+import { applySessionBudget } from './execution_budget';
+import { recordSessionDecision } from './session_context';
+import { EnterStage, failClosed } from './fail_closed';
 import { DecisionResult } from '../../src/types/execution_capability';
 import { handleStopVerdict } from '../../src/adapter/stop_handler';
 import { handleHoldVerdict } from '../../src/adapter/hold_handler';
@@ -20,9 +26,11 @@ export interface OpenClawToolCall {
   tool_name: string;
   arguments: Record<string, any>;
   metadata?: {
-    source: string;
+    source: string; // Origin recorded in the decision log ('openclaw', 'mcp', 'http', ...)
     timestamp: number;
     session_id?: string;
+    skill?: string; // Skill the call belongs to (skills/<name>/SKILL.md)
+    client_source?: string; // Origin claimed by the client, when source is set by the transport
   };
 }
 
@@ -38,38 +46,69 @@ export interface InterceptResult {
 /**
  * Receives OpenClaw tool call and enforces EAR decision with type-level execution nullification
  * @param payload - OpenClaw tool_call object
- * @returns DecisionResult with verdict-dependent execution capability
+ * @returns DecisionResult with verdict-dependent execution capability (never rejects)
  */
 export async function receiveToolCall(
   payload: OpenClawToolCall
 ): Promise<DecisionResult> {
-  // Convert OpenClaw tool_call to EAR DecisionInput format
-  const decisionInput: DecisionInput = {
-    action: payload.tool_name,
-    resource: extractResource(payload.arguments),
-    arguments: payload.arguments,
-    metadata: {
-      source: 'openclaw',
-      timestamp: payload.metadata?.timestamp || Date.now(),
-      session_id: payload.metadata?.session_id,
-    },
-  };
+  return failClosed(() => toDecisionInput(payload), async (decisionInput, enter, signal) =>
+    // Call EAR decision engine
+    enforceDecision(await evaluateDecision(decisionInput), decisionInput, payload, enter, signal)
+  );
+}
 
-  // Call EAR decision engine
-  const decision: Decision = await evaluateDecision(decisionInput);
+/**
+ * Enforces a decision made outside the decision engine (an approved HOLD,
+ * see hold_approvals.ts) through the same pipeline as receiveToolCall:
+ * session budget, session history, verdict handler, fail-closed
+ * @param decision - Decision to enforce
+ * @param input - Decision input the decision was made for
+ * @param payload - Original OpenClaw tool_call object
+ * @returns DecisionResult with verdict-dependent execution capability (never rejects)
+ */
+export async function resumeToolCall(
+  decision: Decision,
+  input: DecisionInput,
+  payload: OpenClawToolCall
+): Promise<DecisionResult> {
+  return failClosed(() => input, (decisionInput, enter, signal) =>
+    enforceDecision(decision, decisionInput, payload, enter, signal)
+  );
+}
+
+/**
+ * Applies the session budget to a decision, records it and hands it to its verdict handler
+ */
+async function enforceDecision(
+  evaluated: Decision,
+  decisionInput: DecisionInput,
+  payload: OpenClawToolCall,
+  enter: EnterStage,
+  signal: AbortSignal
+): Promise<DecisionResult> {
+  if (signal.aborted) {
+    throw new Error('Decision reached after the pipeline failed closed');
+  }
+
+  // Downgrade ALLOW if the session is over budget (counted until the decision is withdrawn)
+  const decision: Decision = applySessionBudget(evaluated, decisionInput);
+
+  // Remember the enforced decision for sequence rules on later calls of this session
+  recordSessionDecision(decisionInput, decision);
+  enter('handler', decision);
 
   // If STOP verdict, block execution and generate proof artifact
   // Type system enforces: execute property CANNOT exist
   // Binary separation: stop_handler does NOT import executor module
   if (decision.verdict === 'STOP') {
-    return await handleStopVerdict(decision, decisionInput);
+    return await handleStopVerdict(decision, decisionInput, signal);
   }
 
-  // HOLD verdict - requires external approval
+  // HOLD verdict - requires external approval (persisted as pending, see hold_approvals.ts)
   // Type system enforces: execute property CANNOT exist
   // Binary separation: hold_handler does NOT import executor module
   if (decision.verdict === 'HOLD') {
-    return await handleHoldVerdict(decision, decisionInput);
+    return await handleHoldVerdict(decision, decisionInput, payload, signal);
   }
 
   // ALLOW verdict - execution capability exists
@@ -77,7 +116,33 @@ export async function receiveToolCall(
   // Binary separation: Dynamically import allow_handler (includes executor)
   // STOP builds exclude allow_handler entirely
   const { handleAllowVerdict } = await import('../../src/adapter/allow_handler');
-  return await handleAllowVerdict(decision, decisionInput, payload);
+  return await handleAllowVerdict(decision, decisionInput, payload, signal);
+}
+
+/**
+ * Converts OpenClaw tool_call to EAR DecisionInput format
+ * @param payload - OpenClaw tool_call object
+ * @returns Decision input
+ * @throws Error if the tool call has no arguments object
+ */
+function toDecisionInput(payload: OpenClawToolCall): DecisionInput {
+  const args: unknown = payload.arguments;
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    throw new Error(`Tool call ${payload.tool_name} has no arguments object`);
+  }
+
+  return {
+    action: payload.tool_name,
+    resource: extractResource(payload.arguments),
+    arguments: payload.arguments,
+    metadata: {
+      source: payload.metadata?.source || 'openclaw',
+      timestamp: payload.metadata?.timestamp || Date.now(),
+      session_id: payload.metadata?.session_id,
+      ...(payload.metadata?.skill && { skill: payload.metadata.skill }),
+      ...(payload.metadata?.client_source && { client_source: payload.metadata.client_source }),
+    },
+  };
 }
 
 /**
@@ -0,0 +1,22 @@
+/**
+ * EAR OpenClaw Plugin
+ *
+ * Entry point OpenClaw loads (see openclaw.plugin.json). Registers the
+ * EAR before_tool_call hook so every tool call is judged before it runs.
+ *
+ * Enable with `plugins.load.paths` pointing at this directory and
+ * `plugins.entries.ear-mediator.enabled: true` in the OpenClaw config.
+ */
+
+import { OpenClawPluginApi, registerPreToolCallHook } from '../pre_tool_call_hook';
+
+const plugin = {
+  id: 'ear-mediator',
+  name: 'EAR Mediator',
+  description: 'Blocks tool calls that the Execution Authority Runtime judges STOP or HOLD',
+  register(api: OpenClawPluginApi): void {
+    registerPreToolCallHook(api);
+  },
+};
+
+export default plugin;
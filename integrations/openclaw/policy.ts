@@ -0,0 +1,697 @@
+/**
+ * EAR Decision Policy
+ *
+ * Declarative policy documents evaluated by the decision engine.
+ * Policies are versioned JSON files; rules match on action, resource glob
+ * and argument paths (and optionally on earlier calls of the same session
+ * or the skill issuing the call), and either decide a verdict outright or
+ * add to the risk score that is compared against the policy thresholds.
+ */
+
+import * as fs from 'fs';
+import type { DecisionInput } from './decision_engine';
+import { ARGUMENT_INTENTS, ArgumentFinding, ArgumentIntent, analyzeArguments, normalizePath } from './argument_analyzer';
+import { DetectorHit, detectPatterns, getDetector } from './detectors';
+import type { SessionEntry } from './session_context';
+import { SKILL_TIERS, SkillTier, identifySkill } from './skills';
+import { repoPath } from '../../proof/repo_paths';
+
+export type PolicyVerdict = 'STOP' | 'HOLD' | 'ALLOW';
+
+/**
+ * Matches a value inside the tool call arguments.
+ *
+ * - path omitted: matches against the whole argument tree (serialized JSON)
+ * - path given: dot-separated path, `*` matches any key at that level
+ * - intent: matches findings of the structured argument analyzer
+ *   (parsed shell commands, normalized paths) under the path
+ * - detector: matches hits of the pattern detectors (detectors.ts) under the path
+ */
+export interface ArgumentMatcher {
+  path?: string;
+  contains?: string[]; // Case-insensitive substrings (any)
+  equals?: string | number | boolean;
+  pattern?: string; // Case-insensitive regular expression
+  intent?: ArgumentIntent[]; // Analyzer intents (any)
+  detector?: string[]; // Pattern detector ids (any)
+}
+
+/**
+ * Matches earlier decisions of the same session (session_context.ts).
+ *
+ * The rule matches when at least min_count of the last `within` calls
+ * satisfy every criterion of `after`; those calls' decision hashes are
+ * cited as evidence.
+ */
+export interface SequenceMatcher {
+  after: {
+    action?: string[]; // Glob patterns
+    intent?: ArgumentIntent[]; // Analyzer intents (any)
+    verdict?: PolicyVerdict[]; // Verdicts (any)
+    rule?: string[]; // Matched rule ids (any)
+  };
+  within?: number; // Earlier calls considered (default 10)
+  min_count?: number; // Matching earlier calls required (default 1)
+  same_action?: boolean; // Earlier calls must be the same action as this one
+}
+
+/**
+ * Matches the skill the call is attributed to (skills.ts).
+ *
+ * Criteria present must all match; calls not attributed to any skill
+ * never match. undeclared_action matches calls that declare their skill
+ * (metadata.skill) but use an action outside its allowed_actions.
+ */
+export interface SkillMatcher {
+  name?: string[]; // Glob patterns
+  tier?: SkillTier[]; // Risk tiers (any)
+  undeclared_action?: boolean;
+}
+
+/**
+ * Rule match criteria. Every criterion present must match;
+ * list entries are alternatives (any), argument matchers are all required.
+ */
+export interface RuleMatch {
+  action?: string[]; // Glob patterns
+  resource?: string[]; // Glob patterns
+  arguments?: ArgumentMatcher[];
+  sequence?: SequenceMatcher;
+  skill?: SkillMatcher;
+}
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  match: RuleMatch;
+  verdict?: PolicyVerdict; // Decides the verdict outright when matched
+  score: number; // Risk contribution (final score for verdict rules)
+  reason?: string; // Supports {action}, {resource} and {related} placeholders
+}
+
+export interface Policy {
+  policy_id: string;
+  version: string;
+  description?: string;
+  max_score: number;
+  thresholds: {
+    hold: number;
+    stop: number;
+  };
+  rules: PolicyRule[];
+}
+
+export const DEFAULT_POLICY_PATH = repoPath('integrations', 'openclaw', 'policies', 'default.policy.json');
+
+const VERDICTS: PolicyVerdict[] = ['STOP', 'HOLD', 'ALLOW'];
+const DEFAULT_SEQUENCE_WINDOW = 10;
+
+/**
+ * Loads and validates a policy document from disk
+ * @param policyPath - Path to policy JSON file
+ * @returns Validated policy
+ * @throws Error if the file cannot be read, parsed or fails validation
+ */
+export function loadPolicy(policyPath: string = DEFAULT_POLICY_PATH): Policy {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(fs.readFileSync(policyPath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load policy ${policyPath}: ${message}`);
+  }
+
+  const errors = validatePolicy(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid policy ${policyPath}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return raw as Policy;
+}
+
+/**
+ * Validates a parsed policy document
+ * @param policy - Parsed policy candidate
+ * @returns List of validation errors (empty when valid)
+ */
+export function validatePolicy(policy: any): string[] {
+  const errors: string[] = [];
+
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return ['policy must be a JSON object'];
+  }
+
+  if (typeof policy.policy_id !== 'string' || policy.policy_id.length === 0) {
+    errors.push('policy_id must be a non-empty string');
+  }
+
+  if (typeof policy.version !== 'string' || policy.version.length === 0) {
+    errors.push('version must be a non-empty string');
+  }
+
+  if (typeof policy.max_score !== 'number' || policy.max_score <= 0) {
+    errors.push('max_score must be a positive number');
+  }
+
+  const thresholds = policy.thresholds;
+  if (!thresholds || typeof thresholds.hold !== 'number' || typeof thresholds.stop !== 'number') {
+    errors.push('thresholds.hold and thresholds.stop must be numbers');
+  } else if (thresholds.hold < 0 || thresholds.hold > thresholds.stop) {
+    errors.push('thresholds must satisfy 0 <= hold <= stop');
+  } else if (typeof policy.max_score === 'number' && thresholds.stop > policy.max_score) {
+    errors.push('thresholds.stop must not exceed max_score');
+  }
+
+  if (!Array.isArray(policy.rules)) {
+    errors.push('rules must be an array');
+    return errors;
+  }
+
+  const seenIds = new Set<string>();
+  policy.rules.forEach((rule: any, index: number) => {
+    const label = typeof rule?.id === 'string' ? `rule "${rule.id}"` : `rules[${index}]`;
+
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    if (typeof rule.id !== 'string' || rule.id.length === 0) {
+      errors.push(`${label}: id must be a non-empty string`);
+    } else if (seenIds.has(rule.id)) {
+      errors.push(`${label}: duplicate rule id`);
+    } else {
+      seenIds.add(rule.id);
+    }
+
+    if (rule.verdict !== undefined && !VERDICTS.includes(rule.verdict)) {
+      errors.push(`${label}: verdict must be one of ${VERDICTS.join(', ')}`);
+    }
+
+    if (typeof rule.score !== 'number' || rule.score < 0) {
+      errors.push(`${label}: score must be a non-negative number`);
+    }
+
+    if (rule.reason !== undefined && typeof rule.reason !== 'string') {
+      errors.push(`${label}: reason must be a string`);
+    }
+
+    errors.push(...validateMatch(rule.match).map((e) => `${label}: ${e}`));
+  });
+
+  return errors;
+}
+
+/**
+ * Validates rule match criteria
+ */
+function validateMatch(match: any): string[] {
+  const errors: string[] = [];
+
+  if (!match || typeof match !== 'object' || Array.isArray(match)) {
+    return ['match must be an object'];
+  }
+
+  if (
+    match.action === undefined &&
+    match.resource === undefined &&
+    match.arguments === undefined &&
+    match.sequence === undefined &&
+    match.skill === undefined
+  ) {
+    errors.push('match must declare at least one of action, resource, arguments, sequence, skill');
+  }
+
+  for (const field of ['action', 'resource']) {
+    const globs = match[field];
+    if (globs !== undefined && !isNonEmptyStringArray(globs)) {
+      errors.push(`match.${field} must be a non-empty array of strings`);
+    }
+  }
+
+  if (match.arguments !== undefined) {
+    if (!Array.isArray(match.arguments) || match.arguments.length === 0) {
+      errors.push('match.arguments must be a non-empty array');
+    } else {
+      match.arguments.forEach((matcher: any, index: number) => {
+        const label = `match.arguments[${index}]`;
+
+        if (!matcher || typeof matcher !== 'object') {
+          errors.push(`${label} must be an object`);
+          return;
+        }
+        if (matcher.path !== undefined && (typeof matcher.path !== 'string' || matcher.path.length === 0)) {
+          errors.push(`${label}.path must be a non-empty string`);
+        }
+        if (
+          matcher.contains === undefined &&
+          matcher.equals === undefined &&
+          matcher.pattern === undefined &&
+          matcher.intent === undefined &&
+          matcher.detector === undefined
+        ) {
+          errors.push(`${label} must declare contains, equals, pattern, intent or detector`);
+        }
+        if (
+          matcher.intent !== undefined &&
+          (!isNonEmptyStringArray(matcher.intent) ||
+            !matcher.intent.every((i: string) => (ARGUMENT_INTENTS as string[]).includes(i)))
+        ) {
+          errors.push(`${label}.intent must be a non-empty array of ${ARGUMENT_INTENTS.join(', ')}`);
+        }
+        if (matcher.detector !== undefined) {
+          if (!isNonEmptyStringArray(matcher.detector)) {
+            errors.push(`${label}.detector must be a non-empty array of detector ids`);
+          } else {
+            for (const id of matcher.detector.filter((d: string) => !getDetector(d))) {
+              errors.push(`${label}.detector references unknown detector ${id}`);
+            }
+          }
+        }
+        if (matcher.contains !== undefined && !isNonEmptyStringArray(matcher.contains)) {
+          errors.push(`${label}.contains must be a non-empty array of strings`);
+        }
+        if (matcher.equals !== undefined && !['string', 'number', 'boolean'].includes(typeof matcher.equals)) {
+          errors.push(`${label}.equals must be a string, number or boolean`);
+        }
+        if (matcher.pattern !== undefined) {
+          if (typeof matcher.pattern !== 'string') {
+            errors.push(`${label}.pattern must be a string`);
+          } else {
+            try {
+              new RegExp(matcher.pattern, 'i');
+            } catch {
+              errors.push(`${label}.pattern is not a valid regular expression`);
+            }
+          }
+        }
+      });
+    }
+  }
+
+  if (match.sequence !== undefined) {
+    errors.push(...validateSequence(match.sequence));
+  }
+
+  if (match.skill !== undefined) {
+    errors.push(...validateSkill(match.skill));
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a sequence matcher
+ */
+function validateSequence(sequence: any): string[] {
+  const errors: string[] = [];
+
+  if (!sequence || typeof sequence !== 'object' || Array.isArray(sequence)) {
+    return ['match.sequence must be an object'];
+  }
+
+  const after = sequence.after;
+  if (!after || typeof after !== 'object' || Array.isArray(after)) {
+    errors.push('match.sequence.after must be an object');
+  } else {
+    if (after.action === undefined && after.intent === undefined && after.verdict === undefined && after.rule === undefined) {
+      errors.push('match.sequence.after must declare action, intent, verdict or rule');
+    }
+    for (const field of ['action', 'rule']) {
+      if (after[field] !== undefined && !isNonEmptyStringArray(after[field])) {
+        errors.push(`match.sequence.after.${field} must be a non-empty array of strings`);
+      }
+    }
+    if (
+      after.intent !== undefined &&
+      (!isNonEmptyStringArray(after.intent) ||
+        !after.intent.every((i: string) => (ARGUMENT_INTENTS as string[]).includes(i)))
+    ) {
+      errors.push(`match.sequence.after.intent must be a non-empty array of ${ARGUMENT_INTENTS.join(', ')}`);
+    }
+    if (
+      after.verdict !== undefined &&
+      (!isNonEmptyStringArray(after.verdict) || !after.verdict.every((v: string) => (VERDICTS as string[]).includes(v)))
+    ) {
+      errors.push(`match.sequence.after.verdict must be a non-empty array of ${VERDICTS.join(', ')}`);
+    }
+  }
+
+  for (const field of ['within', 'min_count']) {
+    const value = sequence[field];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      errors.push(`match.sequence.${field} must be a positive integer`);
+    }
+  }
+
+  if (sequence.same_action !== undefined && typeof sequence.same_action !== 'boolean') {
+    errors.push('match.sequence.same_action must be a boolean');
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a skill matcher
+ */
+function validateSkill(skill: any): string[] {
+  const errors: string[] = [];
+
+  if (!skill || typeof skill !== 'object' || Array.isArray(skill)) {
+    return ['match.skill must be an object'];
+  }
+
+  if (skill.name === undefined && skill.tier === undefined && skill.undeclared_action === undefined) {
+    errors.push('match.skill must declare name, tier or undeclared_action');
+  }
+  if (skill.name !== undefined && !isNonEmptyStringArray(skill.name)) {
+    errors.push('match.skill.name must be a non-empty array of strings');
+  }
+  if (
+    skill.tier !== undefined &&
+    (!isNonEmptyStringArray(skill.tier) || !skill.tier.every((t: string) => (SKILL_TIERS as string[]).includes(t)))
+  ) {
+    errors.push(`match.skill.tier must be a non-empty array of ${SKILL_TIERS.join(', ')}`);
+  }
+  if (skill.undeclared_action !== undefined && typeof skill.undeclared_action !== 'boolean') {
+    errors.push('match.skill.undeclared_action must be a boolean');
+  }
+
+  return errors;
+}
+
+function isNonEmptyStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === 'string');
+}
+
+/**
+ * What a rule criterion matched, for risk factor evidence
+ */
+export interface MatchEvidence {
+  target: string; // 'action', 'resource', 'arguments.<path>', 'session' or 'skill'
+  criterion: 'glob' | 'contains' | 'equals' | 'pattern' | 'intent' | 'detector' | 'sequence' | 'skill';
+  matched: string; // Glob, substring, value or pattern match that hit
+  related_decisions?: string[]; // Earlier decision hashes (sequence matches)
+}
+
+/**
+ * Matches a rule against the decision input
+ * @param rule - Policy rule
+ * @param input - Decision input
+ * @param history - Earlier decisions of the input's session, oldest first
+ * @returns Evidence for every declared criterion, or null when the rule does not match
+ */
+export function matchRule(
+  rule: PolicyRule,
+  input: DecisionInput,
+  history: SessionEntry[] = []
+): MatchEvidence[] | null {
+  const { match } = rule;
+  const evidence: MatchEvidence[] = [];
+
+  if (match.action) {
+    const glob = match.action.find((g) => globMatch(g, input.action));
+    if (glob === undefined) return null;
+    evidence.push({ target: 'action', criterion: 'glob', matched: glob });
+  }
+
+  if (match.resource) {
+    // Path resources are matched in normalized form (/app/../etc/passwd -> /etc/passwd)
+    const resource = /^[/~.]/.test(input.resource) ? normalizePath(input.resource) : input.resource;
+    const glob = match.resource.find((g) => globMatch(g, resource));
+    if (glob === undefined) return null;
+    evidence.push({ target: 'resource', criterion: 'glob', matched: glob });
+  }
+
+  for (const matcher of match.arguments ?? []) {
+    const hit = matchArgument(matcher, input.arguments);
+    if (!hit) return null;
+    evidence.push(hit);
+  }
+
+  if (match.sequence) {
+    const hit = matchSequence(match.sequence, input, history);
+    if (!hit) return null;
+    evidence.push(hit);
+  }
+
+  if (match.skill) {
+    const hit = matchSkill(match.skill, input);
+    if (!hit) return null;
+    evidence.push(hit);
+  }
+
+  return evidence;
+}
+
+/**
+ * Checks whether a rule matches the decision input
+ * @param rule - Policy rule
+ * @param input - Decision input
+ * @param history - Earlier decisions of the input's session
+ * @returns True when every declared criterion matches
+ */
+export function ruleMatches(rule: PolicyRule, input: DecisionInput, history: SessionEntry[] = []): boolean {
+  return matchRule(rule, input, history) !== null;
+}
+
+/**
+ * Renders rule reason template placeholders
+ * ({action}, {resource}, {related}: short hashes of cited earlier decisions)
+ */
+export function renderReason(template: string, input: DecisionInput, related: string[] = []): string {
+  return template
+    .replace(/\{action\}/g, input.action)
+    .replace(/\{resource\}/g, input.resource)
+    .replace(/\{related\}/g, related.map((hash) => hash.slice(0, 12)).join(', '));
+}
+
+/**
+ * Matches a sequence matcher against the session history
+ * @returns Evidence citing the matching earlier decisions, or null
+ */
+function matchSequence(
+  sequence: SequenceMatcher,
+  input: DecisionInput,
+  history: SessionEntry[]
+): MatchEvidence | null {
+  const within = sequence.within ?? DEFAULT_SEQUENCE_WINDOW;
+  const { after } = sequence;
+
+  const matching = history.slice(-within).filter(
+    (entry) =>
+      (!sequence.same_action || entry.action === input.action) &&
+      (!after.action || after.action.some((g) => globMatch(g, entry.action))) &&
+      (!after.intent || after.intent.some((i) => entry.intents.includes(i))) &&
+      (!after.verdict || after.verdict.includes(entry.verdict)) &&
+      (!after.rule || after.rule.some((r) => entry.rules.includes(r)))
+  );
+
+  if (matching.length < (sequence.min_count ?? 1)) return null;
+
+  const hashes = matching.map((entry) => entry.decision_hash);
+  return {
+    target: 'session',
+    criterion: 'sequence',
+    matched: `${matching.length} of the last ${within} calls (${matching
+      .map((entry) => `${entry.action} ${entry.verdict} ${entry.decision_hash.slice(0, 12)}`)
+      .join(', ')})`,
+    related_decisions: hashes,
+  };
+}
+
+/**
+ * Matches a skill matcher against the skill the call is attributed to
+ * @returns Evidence naming the skill, its tier and how it was identified, or null
+ */
+function matchSkill(matcher: SkillMatcher, input: DecisionInput): MatchEvidence | null {
+  const attribution = identifySkill(input);
+  if (!attribution) return null;
+
+  const { skill, via, evidence } = attribution;
+  if (matcher.name && !matcher.name.some((g) => globMatch(g, skill.name))) return null;
+  if (matcher.tier && !matcher.tier.includes(skill.tier)) return null;
+  if (matcher.undeclared_action !== undefined) {
+    const undeclared = via === 'metadata' && !skill.allowed_actions.includes(input.action);
+    if (matcher.undeclared_action !== undeclared) return null;
+  }
+
+  const undeclared = matcher.undeclared_action ? `, ${input.action} not declared` : '';
+  return {
+    target: 'skill',
+    criterion: 'skill',
+    matched: `${skill.name} (${skill.tier} tier, via ${via} ${evidence}${undeclared})`,
+  };
+}
+
+/**
+ * Matches a value against a glob pattern (`*` any run of characters, `?` one character)
+ */
+export function globMatch(glob: string, value: string): boolean {
+  const source = glob
+    .split('')
+    .map((ch) => {
+      if (ch === '*') return '.*';
+      if (ch === '?') return '.';
+      return ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`).test(value);
+}
+
+/**
+ * Checks an argument matcher against the argument tree
+ * @returns Evidence (argument path and matched text) or null
+ */
+function matchArgument(matcher: ArgumentMatcher, args: Record<string, any>): MatchEvidence | null {
+  const valueCriteria =
+    matcher.contains !== undefined || matcher.equals !== undefined || matcher.pattern !== undefined;
+  let structural: MatchEvidence | null = null;
+
+  if (matcher.intent) {
+    const finding = findIntent(matcher, args);
+    if (!finding) return null;
+    structural = { target: finding.path, criterion: 'intent', matched: `${finding.intent} (${finding.evidence})` };
+  }
+
+  if (matcher.detector) {
+    const hit = findDetectorHit(matcher, args);
+    if (!hit) return null;
+    structural = { target: hit.path, criterion: 'detector', matched: `${hit.detector} (${hit.matched})` };
+  }
+
+  if (structural && !valueCriteria) {
+    return structural;
+  }
+
+  const candidates =
+    matcher.path === undefined
+      ? [{ path: undefined, value: JSON.stringify(args) }]
+      : resolvePath(args, matcher.path.split('.'), []).map(({ path, value }) => ({
+          path,
+          value: typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value),
+        }));
+
+  for (const { path, value } of candidates) {
+    const lowered = value.toLowerCase();
+    let criterion: MatchEvidence['criterion'] = 'equals';
+    let matched = value;
+
+    if (matcher.equals !== undefined) {
+      if (value !== String(matcher.equals)) continue;
+      matched = String(matcher.equals);
+    }
+    if (matcher.contains) {
+      const needle = matcher.contains.find((n) => lowered.includes(n.toLowerCase()));
+      if (needle === undefined) continue;
+      criterion = 'contains';
+      matched = needle;
+    }
+    if (matcher.pattern !== undefined) {
+      const hit = new RegExp(matcher.pattern, 'i').exec(value);
+      if (!hit) continue;
+      criterion = 'pattern';
+      matched = hit[0];
+    }
+
+    return { target: path ?? locateInArguments(args, matched), criterion, matched };
+  }
+
+  return null;
+}
+
+/**
+ * Analyzer findings and detector hits per argument tree - every rule of
+ * an evaluation shares one analysis of the same arguments object
+ */
+const analysisCache = new WeakMap<object, ArgumentFinding[]>();
+const detectionCache = new WeakMap<object, DetectorHit[]>();
+
+/**
+ * Finds the first analyzer finding with one of the matcher's intents,
+ * restricted to the matcher path when one is given
+ */
+function findIntent(matcher: ArgumentMatcher, args: Record<string, any>): ArgumentFinding | undefined {
+  let findings = analysisCache.get(args);
+  if (!findings) {
+    findings = analyzeArguments(args);
+    analysisCache.set(args, findings);
+  }
+
+  const inScope = pathScope(matcher, args);
+  return findings.find((f) => matcher.intent!.includes(f.intent) && inScope(f.path));
+}
+
+/**
+ * Finds the first pattern detector hit for one of the matcher's detectors,
+ * restricted to the matcher path when one is given
+ */
+function findDetectorHit(matcher: ArgumentMatcher, args: Record<string, any>): DetectorHit | undefined {
+  let hits = detectionCache.get(args);
+  if (!hits) {
+    hits = detectPatterns(args);
+    detectionCache.set(args, hits);
+  }
+
+  const inScope = pathScope(matcher, args);
+  return hits.find((h) => matcher.detector!.includes(h.detector) && inScope(h.path));
+}
+
+/**
+ * Returns a predicate accepting argument paths at or below the matcher path
+ * (every path when the matcher has none)
+ */
+function pathScope(matcher: ArgumentMatcher, args: Record<string, any>): (path: string) => boolean {
+  if (matcher.path === undefined) return () => true;
+
+  const roots = resolvePath(args, matcher.path.split('.'), []).map((c) => c.path);
+  return (path) => roots.some((root) => path === root || path.startsWith(`${root}.`));
+}
+
+/**
+ * Finds the first argument path whose key or value contains the text
+ * (used to attribute whole-tree matches to a concrete argument)
+ */
+function locateInArguments(args: Record<string, any>, text: string): string {
+  const needle = text.toLowerCase();
+
+  const walk = (value: any, path: string): string | undefined => {
+    if (value !== null && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = `${path}.${key}`;
+        if (key.toLowerCase().includes(needle)) return childPath;
+        const found = walk(child, childPath);
+        if (found) return found;
+      }
+      return undefined;
+    }
+    return String(value).toLowerCase().includes(needle) ? path : undefined;
+  };
+
+  return walk(args, 'arguments') ?? 'arguments';
+}
+
+/**
+ * Resolves a dot path (with `*` wildcards) to the matching values
+ * and their concrete paths
+ */
+function resolvePath(
+  value: any,
+  segments: string[],
+  visited: string[]
+): { path: string; value: any }[] {
+  if (segments.length === 0) {
+    return value === undefined ? [] : [{ path: ['arguments', ...visited].join('.'), value }];
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return [];
+  }
+
+  const [head, ...rest] = segments;
+  const keys = head === '*' ? Object.keys(value) : [head];
+
+  return keys.flatMap((key) => resolvePath(value[key], rest, [...visited, key]));
+}
@@ -0,0 +1,260 @@
+/**
+ * Policy Replay
+ *
+ * Replays logged OpenClaw decisions against a candidate policy before it is
+ * rolled out: every recorded DecisionInput goes through evaluateDecision with
+ * the candidate, in log order, and calls whose verdict would flip
+ * (ALLOW→HOLD, HOLD→STOP, ...) are reported with the rules responsible.
+ *
+ * Sequence rules see the replayed session history (the candidate's own
+ * decisions), kept apart from live sessions. Records the policy did not
+ * decide on its own are not compared:
+ * - fail-closed and authority-verification STOPs (no policy evaluation)
+ * - ALLOWs issued by approving a HOLD
+ * - decisions downgraded by the session budget (still replayed, so later
+ *   sequence rules see them)
+ * - legacy records without action, resource and arguments
+ *
+ * Replay sees what the log holds: redacted argument values, and no declared
+ * skill (metadata.skill), so skills are attributed by action or program.
+ */
+
+import { randomUUID } from 'crypto';
+import type { DecisionEvent, EventVerdict } from '../../proof/decision_event';
+import { normalizeRiskScore } from '../../proof/decision_event';
+import { Decision, DecisionInput, evaluateDecision } from './decision_engine';
+import type { Policy } from './policy';
+import { clearSessionContext, recordSessionDecision } from './session_context';
+
+export type ReplayFormat = 'markdown' | 'json';
+export type ReplaySkipReason = 'not-policy-decision' | 'hold-approval' | 'session-budget' | 'incomplete-record';
+
+export const REPLAY_FORMATS: ReplayFormat[] = ['markdown', 'json'];
+
+// Verdicts issued outside policy evaluation (fail_closed.ts, authority verification)
+const NON_POLICY_IDS = ['fail-closed', 'authority-verification'];
+
+export interface ReplayFlip {
+  event_id: string;
+  decision_hash?: string;
+  timestamp: string;
+  session_id?: string;
+  action: string;
+  resource: string;
+  from: EventVerdict;
+  to: EventVerdict;
+  recorded_rules: string[];
+  candidate_rules: string[];
+  rules_added: string[]; // Matched by the candidate only
+  rules_removed: string[]; // Matched by the recorded decision only
+  responsible_rules: string[]; // Added and removed rules, else the candidate's (changed verdict, score or thresholds)
+  recorded_risk_score?: number; // Normalized (0.0 - 1.0)
+  candidate_risk_score: number;
+  reason?: string; // Candidate's reason
+}
+
+export interface ReplayReport {
+  candidate_policy: { policy_id: string; version: string };
+  recorded_policies: string[]; // policy_id values of the compared decisions
+  total_records: number;
+  compared: number;
+  unchanged: number;
+  flips: ReplayFlip[];
+  transitions: Record<string, number>; // "ALLOW→HOLD" -> count
+  responsible_rules: Record<string, number>; // Rule id -> flips it is responsible for
+  skipped: Record<ReplaySkipReason, number>;
+}
+
+/**
+ * Rebuilds the DecisionInput a decision event was issued for
+ * @returns Decision input, or null if the record lacks action, resource or arguments
+ */
+export function replayInput(event: DecisionEvent): DecisionInput | null {
+  if (event.action === undefined || event.resource === undefined || event.arguments === undefined) {
+    return null;
+  }
+
+  return {
+    action: event.action,
+    resource: event.resource,
+    arguments: event.arguments,
+    metadata: {
+      source: event.source ?? 'openclaw',
+      timestamp: Date.parse(event.timestamp),
+      ...(event.metadata?.session_id && { session_id: event.metadata.session_id }),
+    },
+  };
+}
+
+/**
+ * Replays logged decisions against a candidate policy
+ * @param events - Logged events, in log order (non-decision events are used to find HOLD approvals)
+ * @param candidate - Candidate policy
+ * @returns Verdict flips and replay statistics
+ */
+export async function replayDecisions(events: DecisionEvent[], candidate: Policy): Promise<ReplayReport> {
+  const approvals = new Set(
+    events.flatMap((event) => (event.hold?.approved_decision_hash ? [event.hold.approved_decision_hash] : []))
+  );
+  const replayId = randomUUID();
+  const replaySessions = new Set<string>();
+
+  const report: ReplayReport = {
+    candidate_policy: { policy_id: candidate.policy_id, version: candidate.version },
+    recorded_policies: [],
+    total_records: 0,
+    compared: 0,
+    unchanged: 0,
+    flips: [],
+    transitions: {},
+    responsible_rules: {},
+    skipped: { 'not-policy-decision': 0, 'hold-approval': 0, 'session-budget': 0, 'incomplete-record': 0 },
+  };
+
+  try {
+    for (const event of events) {
+      if (event.event_type !== 'decision') continue;
+      report.total_records++;
+
+      if (NON_POLICY_IDS.includes(event.policy_id)) {
+        report.skipped['not-policy-decision']++;
+        continue;
+      }
+      if (event.decision_hash && approvals.has(event.decision_hash)) {
+        report.skipped['hold-approval']++;
+        continue;
+      }
+
+      const recorded = replayInput(event);
+      if (!recorded) {
+        report.skipped['incomplete-record']++;
+        continue;
+      }
+
+      // Replayed sessions live under their own ids, so live session history is untouched
+      const sessionId = recorded.metadata.session_id && `replay-${replayId}:${recorded.metadata.session_id}`;
+      const input: DecisionInput = { ...recorded, metadata: { ...recorded.metadata, session_id: sessionId } };
+      if (sessionId) replaySessions.add(sessionId);
+
+      const decision = await evaluateDecision(input, candidate);
+      recordSessionDecision(input, decision);
+
+      const recordedRules = event.matched_rules ?? [];
+      if (recordedRules.includes('session-budget')) {
+        report.skipped['session-budget']++;
+        continue;
+      }
+
+      report.compared++;
+      if (!report.recorded_policies.includes(event.policy_id)) {
+        report.recorded_policies.push(event.policy_id);
+      }
+
+      if (decision.verdict === event.verdict) {
+        report.unchanged++;
+        continue;
+      }
+
+      const flip = toFlip(event, recorded, decision, candidate);
+      report.flips.push(flip);
+
+      const transition = `${flip.from}→${flip.to}`;
+      report.transitions[transition] = (report.transitions[transition] ?? 0) + 1;
+      for (const rule of flip.responsible_rules) {
+        report.responsible_rules[rule] = (report.responsible_rules[rule] ?? 0) + 1;
+      }
+    }
+  } finally {
+    replaySessions.forEach((sessionId) => clearSessionContext(sessionId));
+  }
+
+  return report;
+}
+
+/**
+ * Renders a replay report
+ * Markdown groups flips by transition, each as a diff of the recorded and
+ * candidate verdicts, for pasting into a code review.
+ */
+export function formatReplayReport(report: ReplayReport, format: ReplayFormat = 'markdown'): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const { policy_id, version } = report.candidate_policy;
+  const skipped = Object.entries(report.skipped).filter(([, count]) => count > 0);
+  const lines = [
+    `## Policy replay: ${policy_id} ${version}`,
+    '',
+    `Replayed ${report.compared} of ${report.total_records} logged decisions` +
+      (report.recorded_policies.length > 0 ? ` (recorded under ${report.recorded_policies.join(', ')})` : '') +
+      `: ${report.flips.length} verdict flip(s), ${report.unchanged} unchanged.`,
+  ];
+
+  if (skipped.length > 0) {
+    lines.push('', `Not compared: ${skipped.map(([reason, count]) => `${count} ${reason}`).join(', ')}.`);
+  }
+
+  if (report.flips.length === 0) {
+    lines.push('', 'No verdict changes.');
+    return lines.join('\n');
+  }
+
+  lines.push('', '| Transition | Calls |', '| --- | --- |');
+  for (const [transition, count] of Object.entries(report.transitions).sort(([, a], [, b]) => b - a)) {
+    lines.push(`| ${transition} | ${count} |`);
+  }
+
+  lines.push('', '| Responsible rule | Flips |', '| --- | --- |');
+  const rules = Object.entries(report.responsible_rules).sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+  for (const [rule, count] of rules) {
+    lines.push(`| \`${rule}\` | ${count} |`);
+  }
+  if (rules.length === 0) {
+    lines.push('| (thresholds only) | |');
+  }
+
+  for (const transition of Object.keys(report.transitions)) {
+    lines.push('', `### ${transition}`, '');
+    for (const flip of report.flips.filter((f) => `${f.from}→${f.to}` === transition)) {
+      const call = `${flip.action} ${flip.resource}`;
+      const session = flip.session_id ? ` session ${flip.session_id}` : '';
+      lines.push(
+        `${flip.timestamp}${session} (decision ${flip.decision_hash?.slice(0, 12) ?? flip.event_id})`,
+        '```diff',
+        `- ${flip.from.padEnd(5)} ${call}  rules: ${flip.recorded_rules.join(', ') || '-'}  risk: ${flip.recorded_risk_score ?? '-'}`,
+        `+ ${flip.to.padEnd(5)} ${call}  rules: ${flip.candidate_rules.join(', ') || '-'}  risk: ${flip.candidate_risk_score}`,
+        '```',
+        `Responsible: ${flip.responsible_rules.map((rule) => `\`${rule}\``).join(', ') || 'thresholds'}`
+      );
+      if (flip.reason) lines.push(`> ${flip.reason}`);
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+function toFlip(event: DecisionEvent, input: DecisionInput, decision: Decision, candidate: Policy): ReplayFlip {
+  const recordedRules = event.matched_rules ?? [];
+  const added = decision.matched_rules.filter((rule) => !recordedRules.includes(rule));
+  const removed = recordedRules.filter((rule) => !decision.matched_rules.includes(rule));
+  return {
+    event_id: event.event_id,
+    ...(event.decision_hash && { decision_hash: event.decision_hash }),
+    timestamp: event.timestamp,
+    ...(input.metadata.session_id && { session_id: input.metadata.session_id }),
+    action: input.action,
+    resource: input.resource,
+    from: event.verdict,
+    to: decision.verdict,
+    recorded_rules: recordedRules,
+    candidate_rules: decision.matched_rules,
+    rules_added: added,
+    rules_removed: removed,
+    responsible_rules: added.length + removed.length > 0 ? [...added, ...removed] : decision.matched_rules,
+    ...(event.risk_score !== undefined && { recorded_risk_score: event.risk_score }),
+    candidate_risk_score: normalizeRiskScore(decision.risk_score, candidate.max_score),
+    reason: decision.reason,
+  };
+}
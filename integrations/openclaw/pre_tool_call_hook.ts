@@ -0,0 +1,134 @@
+/**
+ * OpenClaw Pre-Tool-Call Hook
+ *
+ * Maps OpenClaw's `before_tool_call` plugin hook onto the EAR decision
+ * layer. OpenClaw (launched via openclaw.mjs) calls the hook with the tool
+ * invocation `{ toolName, params }` and the agent context (`sessionKey`,
+ * `agentId`) before it runs any tool; returning `{ block: true }` stops the
+ * call in-process. ALLOW lets OpenClaw run the tool itself.
+ *
+ * The types below describe the parts of the OpenClaw plugin API this hook
+ * uses; the plugin entry point is integrations/openclaw/plugin/index.ts.
+ */
+
+import { receiveToolCall, OpenClawToolCall } from './openclaw_adapter';
+import type { DecisionResult } from '../../src/types/execution_capability';
+
+/**
+ * `before_tool_call` event payload
+ */
+export interface OpenClawBeforeToolCallEvent {
+  toolName: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * Agent context passed alongside tool hooks
+ */
+export interface OpenClawToolContext {
+  toolName: string;
+  agentId?: string;
+  sessionKey?: string; // e.g. "agent:main:main"
+}
+
+/**
+ * `before_tool_call` hook result (undefined lets the call proceed)
+ */
+export interface OpenClawBeforeToolCallResult {
+  block?: boolean;
+  blockReason?: string;
+}
+
+/**
+ * Subset of the plugin API used to register the hook
+ */
+export interface OpenClawPluginApi {
+  on(
+    hook: 'before_tool_call',
+    handler: (
+      event: OpenClawBeforeToolCallEvent,
+      ctx: OpenClawToolContext
+    ) => Promise<OpenClawBeforeToolCallResult | void> | OpenClawBeforeToolCallResult | void
+  ): void;
+}
+
+export const OPENCLAW_HOOK_SOURCE = 'openclaw';
+
+/**
+ * OpenClaw built-in tool names -> EAR action vocabulary used by policies
+ * and executors. Unlisted tools keep their OpenClaw name.
+ */
+const TOOL_ACTIONS: Record<string, string> = {
+  exec: 'execute_command',
+  bash: 'execute_command',
+  read: 'read_file',
+  write: 'write_file',
+  edit: 'write_file',
+  apply_patch: 'write_file',
+  web_fetch: 'http_fetch',
+};
+
+/**
+ * Converts an OpenClaw tool invocation into an EAR tool call
+ * @param event - before_tool_call event
+ * @param ctx - Agent context (sessionKey, falling back to agentId, becomes session_id)
+ * @returns Tool call for receiveToolCall
+ */
+export function toOpenClawToolCall(
+  event: OpenClawBeforeToolCallEvent,
+  ctx: Partial<OpenClawToolContext> = {}
+): OpenClawToolCall {
+  const sessionId = ctx.sessionKey ?? ctx.agentId;
+
+  return {
+    tool_name: TOOL_ACTIONS[event.toolName] ?? event.toolName,
+    arguments: { ...(event.params ?? {}) },
+    metadata: {
+      source: OPENCLAW_HOOK_SOURCE,
+      timestamp: Date.now(),
+      ...(sessionId && { session_id: sessionId }),
+    },
+  };
+}
+
+/**
+ * before_tool_call handler: judges the call and blocks it on STOP/HOLD
+ *
+ * Fails closed - if the decision cannot be made the call is blocked.
+ *
+ * @param event - before_tool_call event
+ * @param ctx - Agent context
+ * @returns `{ block: true, blockReason }` for STOP/HOLD/errors, undefined for ALLOW
+ */
+export async function beforeToolCall(
+  event: OpenClawBeforeToolCallEvent,
+  ctx: Partial<OpenClawToolContext> = {}
+): Promise<OpenClawBeforeToolCallResult | undefined> {
+  let result: DecisionResult;
+
+  try {
+    result = await receiveToolCall(toOpenClawToolCall(event, ctx));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`[EAR_HOOK] Decision failed for ${event?.toolName}, blocking: ${reason}`);
+    return { block: true, blockReason: `EAR decision failed: ${reason}` };
+  }
+
+  if (result.verdict === 'ALLOW') {
+    return undefined;
+  }
+
+  const approval = result.verdict === 'HOLD' ? ' - awaiting approval' : '';
+  return {
+    block: true,
+    blockReason: `EAR ${result.verdict}${approval}: ${result.reason} (decision_hash ${result.decision_hash})`,
+  };
+}
+
+/**
+ * Registers the EAR hook with an OpenClaw plugin API
+ * @param api - Plugin API passed to the plugin's register()
+ */
+export function registerPreToolCallHook(api: OpenClawPluginApi): void {
+  api.on('before_tool_call', beforeToolCall);
+}
@@ -0,0 +1,91 @@
+import { existsSync, writeFileSync } from 'fs';
+import { loadPolicy } from './policy';
+import { REPLAY_FORMATS, ReplayFormat, formatReplayReport, replayDecisions } from './policy_replay';
+import { getDecisionLogPath } from '../../proof/openclaw_intercept/decision_logger';
+import { openLogStore } from '../../proof/log_store';
+
+/**
+ * Replay logged OpenClaw decisions against a candidate policy
+ *
+ * Usage: tsx integrations/openclaw/replay_policy.ts <candidate-policy.json>
+ *          [--log <log-path>] [--format markdown|json] [--out <file>]
+ *
+ * Reports the calls whose verdict the candidate would change, with the rules
+ * responsible. The log defaults to openclaw_decisions.jsonl. Exits 2 on
+ * usage errors, 1 if the policy or log cannot be read, or the log holds no
+ * decisions.
+ */
+async function main(args: string[]): Promise<number> {
+  let policyPath: string | undefined;
+  let logPath = getDecisionLogPath();
+  let format: ReplayFormat = 'markdown';
+  let outPath: string | undefined;
+  let usageError = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      policyPath = arg;
+      continue;
+    }
+
+    const value = args[++i];
+    switch (arg) {
+      case '--log':
+        logPath = value;
+        break;
+      case '--format':
+        if (value !== undefined && !(REPLAY_FORMATS as string[]).includes(value)) {
+          console.error(`--format must be one of ${REPLAY_FORMATS.join(', ')} (got "${value}")`);
+          usageError = true;
+        } else {
+          format = value as ReplayFormat;
+        }
+        break;
+      case '--out':
+        outPath = value;
+        break;
+      default:
+        usageError = true;
+    }
+    if (value === undefined) usageError = true;
+  }
+
+  if (usageError || !policyPath || !logPath) {
+    console.error('Usage: replay_policy.ts <candidate-policy.json> [--log <log-path>] [--format markdown|json] [--out <file>]');
+    return 2;
+  }
+
+  if (!existsSync(logPath)) {
+    console.error(`Decision log not found: ${logPath}`);
+    return 1;
+  }
+
+  try {
+    const candidate = loadPolicy(policyPath);
+    const records = openLogStore(logPath).query();
+    if (!records.some((record) => record.event_type === 'decision')) {
+      console.error(`No decisions to replay in ${logPath}`);
+      return 1;
+    }
+
+    const report = await replayDecisions(records, candidate);
+    const output = formatReplayReport(report, format);
+
+    if (outPath) {
+      writeFileSync(outPath, output + '\n', 'utf-8');
+      console.error(`${report.flips.length} verdict flip(s) in ${report.compared} replayed decision(s); report written to ${outPath}`);
+    } else {
+      console.log(output);
+    }
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main(process.argv.slice(2)).then((code) => process.exit(code));
+}
@@ -0,0 +1,92 @@
+/**
+ * Session Context
+ *
+ * Recent decisions per OpenClaw session (metadata.session_id), so policy
+ * rules can match sequences across calls (see `match.sequence` in
+ * policy.ts), e.g. a credential read followed by network egress.
+ *
+ * Each session keeps its last EAR_SESSION_HISTORY decisions (default 50);
+ * the least recently active sessions are evicted beyond MAX_SESSIONS.
+ * This module holds data only - it never creates execution capability.
+ */
+
+import type { Decision, DecisionInput } from './decision_engine';
+import { ArgumentIntent, analyzeArguments } from './argument_analyzer';
+
+export interface SessionEntry {
+  decision_hash: string;
+  action: string;
+  resource: string;
+  verdict: Decision['verdict'];
+  intents: ArgumentIntent[]; // Distinct analyzer intents of the arguments
+  rules: string[]; // matched_rules of the decision
+  timestamp: number;
+}
+
+const DEFAULT_HISTORY = 50;
+const MAX_SESSIONS = 1000;
+
+const sessions = new Map<string, SessionEntry[]>();
+
+/**
+ * Records a decision in its session's history
+ * Calls without a session_id are not tracked.
+ * @param input - Decision input
+ * @param decision - Enforced decision (after budgets)
+ */
+export function recordSessionDecision(input: DecisionInput, decision: Decision): void {
+  const sessionId = input.metadata.session_id;
+  if (!sessionId) return;
+
+  const limit = Number(process.env.EAR_SESSION_HISTORY) || DEFAULT_HISTORY;
+  const history = sessions.get(sessionId) ?? [];
+
+  history.push({
+    decision_hash: decision.decision_hash,
+    action: input.action,
+    resource: input.resource,
+    verdict: decision.verdict,
+    intents: Array.from(new Set(analyzeArguments(input.arguments).map((f) => f.intent))),
+    rules: decision.matched_rules,
+    timestamp: decision.timestamp,
+  });
+
+  // Re-insert so Map order tracks recency for eviction
+  sessions.delete(sessionId);
+  sessions.set(sessionId, history.slice(-limit));
+
+  if (sessions.size > MAX_SESSIONS) {
+    sessions.delete(sessions.keys().next().value!);
+  }
+}
+
+/**
+ * Returns a session's recorded decisions, oldest first
+ * @param sessionId - OpenClaw session id (undefined yields an empty history)
+ */
+export function getSessionHistory(sessionId: string | undefined): SessionEntry[] {
+  return sessionId ? [...(sessions.get(sessionId) ?? [])] : [];
+}
+
+/**
+ * Removes a decision that was not enforced (see fail_closed.ts) from its session's history
+ * @param sessionId - OpenClaw session id
+ * @param decisionHash - Hash of the decision to remove
+ */
+export function forgetSessionDecision(sessionId: string | undefined, decisionHash: string): void {
+  const history = sessionId ? sessions.get(sessionId) : undefined;
+  if (history) {
+    sessions.set(sessionId!, history.filter((entry) => entry.decision_hash !== decisionHash));
+  }
+}
+
+/**
+ * Forgets one session, or every session when no id is given
+ */
+export function clearSessionContext(sessionId?: string): void {
+  if (sessionId === undefined) {
+    sessions.clear();
+  } else {
+    sessions.delete(sessionId);
+  }
+}
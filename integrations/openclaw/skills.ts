@@ -0,0 +1,326 @@
+/**
+ * Skill Registry
+ *
+ * Loads the OpenClaw skills shipped in skills/<name>/SKILL.md, derives a
+ * risk tier and the actions each skill may use from the frontmatter, and
+ * attributes tool calls to skills so policy rules can match on them
+ * (`match.skill` in policy.ts).
+ *
+ * Tiers (derived from the frontmatter, see deriveTier):
+ * - critical:  manages secrets (password managers, credential stores)
+ * - sensitive: acts for the user towards others (messages, email, calls,
+ *              orders) or needs channel/plugin configuration
+ * - low:       read-only lookups (description starts with Get/Search/Query/...)
+ * - standard:  everything else
+ *
+ * A tool call is attributed to a skill by metadata.skill, an action named
+ * after the skill, a program only that skill requires, or a host only that
+ * skill's homepage uses. Every signal is considered and the highest tier
+ * wins, so a declared low-tier skill cannot mask a program or host owned by
+ * a critical one; ties go to the signal listed first. Ambiguous signals are
+ * ignored.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DecisionInput } from './decision_engine';
+import { invokedPrograms } from './argument_analyzer';
+import { repoPath } from '../../proof/repo_paths';
+
+export type SkillTier = 'low' | 'standard' | 'sensitive' | 'critical';
+
+export const SKILL_TIERS: SkillTier[] = ['low', 'standard', 'sensitive', 'critical'];
+
+export interface SkillProfile {
+  name: string;
+  description: string;
+  homepage?: string;
+  requires: {
+    bins: string[]; // All required
+    any_bins: string[]; // At least one required
+    env: string[];
+    config: string[];
+  };
+  tier: SkillTier;
+  allowed_actions: string[];
+  source: string; // SKILL.md path
+}
+
+export interface SkillRegistry {
+  skills: SkillProfile[];
+  errors: string[]; // Skills that could not be parsed (skipped)
+}
+
+export type SkillAttributionSource = 'metadata' | 'action' | 'program' | 'host';
+
+export interface SkillAttribution {
+  skill: SkillProfile;
+  via: SkillAttributionSource;
+  evidence: string; // The metadata value, action, program or host that matched
+}
+
+export const DEFAULT_SKILLS_DIR = repoPath('skills');
+
+const COMMAND_ACTIONS = ['execute_command', 'run_command'];
+
+const CRITICAL_WORDS = /\b(secrets?|passwords?|credentials?)\b/i;
+const SENSITIVE_WORDS = /\b(send|sending|e-?mails?|messages?|imessages?|sms|calls?|orders?|publish|payments?)\b/i;
+const READ_ONLY_VERBS = /^(get|search|query|look up|lookup|monitor|summarize|list|check)\b/i;
+
+/**
+ * Parses SKILL.md frontmatter (the `---` block at the top)
+ *
+ * Supports the subset the bundled skills use: top-level `key: value`
+ * scalars (optionally quoted) and JSON values spanning indented lines
+ * (trailing commas allowed).
+ *
+ * @param content - SKILL.md content
+ * @returns Frontmatter fields, or null when the file has no frontmatter
+ * @throws Error if a JSON value cannot be parsed
+ */
+export function parseSkillFrontmatter(content: string): Record<string, any> | null {
+  const lines = content.split(/\r?\n/);
+  if (lines[0]?.trim() !== '---') return null;
+
+  const end = lines.indexOf('---', 1);
+  if (end === -1) return null;
+
+  const fields: Record<string, string> = {};
+  let key: string | undefined;
+
+  for (const line of lines.slice(1, end)) {
+    const field = /^([A-Za-z_][\w-]*):\s*(.*)$/.exec(line);
+    if (field) {
+      key = field[1];
+      fields[key] = field[2];
+    } else if (key !== undefined && line.trim().length > 0) {
+      fields[key] += '\n' + line;
+    }
+  }
+
+  const parsed: Record<string, any> = {};
+  for (const [name, raw] of Object.entries(fields)) {
+    parsed[name] = parseValue(name, raw.trim());
+  }
+  return parsed;
+}
+
+/**
+ * Builds a skill profile from a SKILL.md file
+ * A SKILL.md without frontmatter yields a standard-tier profile named after
+ * its directory.
+ * @param skillPath - Path to SKILL.md
+ * @returns Profile with derived tier and allowed actions
+ * @throws Error if the frontmatter is malformed
+ */
+export function loadSkill(skillPath: string): SkillProfile {
+  let frontmatter: Record<string, any>;
+  try {
+    frontmatter = parseSkillFrontmatter(fs.readFileSync(skillPath, 'utf-8')) ?? {};
+  } catch (error) {
+    throw new Error(`${skillPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const name = typeof frontmatter.name === 'string' ? frontmatter.name : path.basename(path.dirname(skillPath));
+  const requires = frontmatter.metadata?.openclaw?.requires ?? {};
+  const profile: Omit<SkillProfile, 'tier' | 'allowed_actions'> = {
+    name,
+    description: typeof frontmatter.description === 'string' ? frontmatter.description : '',
+    ...(typeof frontmatter.homepage === 'string' && { homepage: frontmatter.homepage }),
+    requires: {
+      bins: stringList(requires.bins),
+      any_bins: stringList(requires.anyBins),
+      env: stringList(requires.env),
+      config: stringList(requires.config),
+    },
+    source: skillPath,
+  };
+
+  return { ...profile, tier: deriveTier(profile), allowed_actions: deriveAllowedActions(profile) };
+}
+
+/**
+ * Loads every skills/<name>/SKILL.md under a directory
+ * Unparseable skills are skipped and reported in `errors`.
+ * @param skillsDir - Skills directory
+ */
+export function loadSkills(skillsDir: string = DEFAULT_SKILLS_DIR): SkillRegistry {
+  const registry: SkillRegistry = { skills: [], errors: [] };
+  if (!fs.existsSync(skillsDir)) return registry;
+
+  for (const entry of fs.readdirSync(skillsDir).sort()) {
+    const skillPath = path.join(skillsDir, entry, 'SKILL.md');
+    if (!fs.existsSync(skillPath)) continue;
+
+    try {
+      registry.skills.push(loadSkill(skillPath));
+    } catch (error) {
+      registry.errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Derives a skill's risk tier from its frontmatter
+ */
+export function deriveTier(skill: Pick<SkillProfile, 'name' | 'description' | 'requires'>): SkillTier {
+  const text = `${skill.name} ${skill.description}`;
+
+  if (CRITICAL_WORDS.test(text)) return 'critical';
+  if (skill.requires.config.length > 0 || SENSITIVE_WORDS.test(skill.description)) return 'sensitive';
+  if (READ_ONLY_VERBS.test(skill.description.trim())) return 'low';
+  return 'standard';
+}
+
+/**
+ * Derives the actions a skill may use: its own tool (named after the
+ * skill or its channel/plugin config), commands when it requires
+ * binaries, and HTTP fetches when it has a homepage
+ */
+function deriveAllowedActions(skill: Pick<SkillProfile, 'name' | 'homepage' | 'requires'>): string[] {
+  const actions = new Set<string>([skill.name, toActionName(skill.name)]);
+
+  if (skill.requires.bins.length > 0 || skill.requires.any_bins.length > 0) {
+    COMMAND_ACTIONS.forEach((action) => actions.add(action));
+  }
+  if (skill.homepage) {
+    actions.add('http_fetch');
+  }
+  for (const key of skill.requires.config) {
+    const tool = /^(?:channels|plugins\.entries)\.([^.]+)/.exec(key)?.[1];
+    if (tool) {
+      actions.add(tool);
+      actions.add(toActionName(tool));
+    }
+  }
+
+  return Array.from(actions);
+}
+
+let registry: SkillRegistry | undefined;
+const attributions = new WeakMap<DecisionInput, SkillAttribution | null>();
+
+/**
+ * Returns the skill registry (loaded on first use from EAR_SKILLS_DIR or skills/)
+ */
+export function getSkillRegistry(): SkillRegistry {
+  if (!registry) {
+    registry = loadSkills(process.env.EAR_SKILLS_DIR || DEFAULT_SKILLS_DIR);
+    for (const error of registry.errors) {
+      console.error(`[SKILLS] Skipped skill: ${error}`);
+    }
+  }
+  return registry;
+}
+
+/**
+ * Replaces the skill registry (e.g. a test fixture)
+ */
+export function setSkillRegistry(skills: SkillRegistry): void {
+  registry = skills;
+}
+
+/**
+ * Attributes a tool call to a skill
+ * @param input - Decision input
+ * @returns Attributed skill and how it was identified, or null
+ */
+export function identifySkill(input: DecisionInput): SkillAttribution | null {
+  const cached = attributions.get(input);
+  if (cached !== undefined) return cached;
+
+  const attribution = attribute(input, getSkillRegistry().skills);
+  attributions.set(input, attribution);
+  return attribution;
+}
+
+function attribute(input: DecisionInput, skills: SkillProfile[]): SkillAttribution | null {
+  const byName = (name: string) => skills.find((s) => s.name === name || toActionName(s.name) === name);
+  const candidates: SkillAttribution[] = [];
+
+  const declared = input.metadata.skill;
+  const declaredSkill = declared ? byName(declared) : undefined;
+  if (declared && declaredSkill) {
+    candidates.push({ skill: declaredSkill, via: 'metadata', evidence: declared });
+  }
+
+  const named = byName(input.action);
+  if (named) {
+    candidates.push({ skill: named, via: 'action', evidence: input.action });
+  }
+
+  for (const program of invokedPrograms(input.arguments)) {
+    const owners = skills.filter((s) => s.requires.bins.includes(program) || s.requires.any_bins.includes(program));
+    if (owners.length === 1) {
+      candidates.push({ skill: owners[0], via: 'program', evidence: program });
+    }
+  }
+
+  for (const host of mentionedHosts(input.arguments)) {
+    const owners = skills.filter((s) => s.homepage && homepageHost(s.homepage) === host);
+    if (owners.length === 1) {
+      candidates.push({ skill: owners[0], via: 'host', evidence: host });
+    }
+  }
+
+  const rank = (attribution: SkillAttribution) => SKILL_TIERS.indexOf(attribution.skill.tier);
+  return candidates.reduce<SkillAttribution | null>(
+    (best, candidate) => (best === null || rank(candidate) > rank(best) ? candidate : best),
+    null
+  );
+}
+
+/**
+ * Hosts mentioned anywhere in the arguments, with or without a scheme
+ * (`https://wttr.in/x`, `wttr.in/London`)
+ */
+function mentionedHosts(args: Record<string, any>): string[] {
+  const hosts = new Set<string>();
+  const hostPattern = /(?:^|[\s"'=(])(?:[a-z][a-z0-9+.-]*:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?=[/:?#\s"')]|$)/gi;
+
+  const visit = (value: any) => {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(hostPattern)) {
+        hosts.add(match[1].toLowerCase().replace(/^www\./, ''));
+      }
+    } else if (value !== null && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+
+  visit(args);
+  return Array.from(hosts);
+}
+
+function homepageHost(homepage: string): string | undefined {
+  try {
+    return new URL(homepage).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+function parseValue(name: string, raw: string): any {
+  if (raw.startsWith('{') || raw.startsWith('[')) {
+    try {
+      return JSON.parse(raw.replace(/,(\s*[}\]])/g, '$1'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`frontmatter field ${name} is not valid JSON: ${message}`);
+    }
+  }
+  if (raw.startsWith('"')) {
+    return JSON.parse(raw);
+  }
+  return raw;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function toActionName(name: string): string {
+  return name.replace(/-/g, '_');
+}
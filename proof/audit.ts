@@ -0,0 +1,189 @@
+/**
+ * Decision Log Audit
+ *
+ * Filters, aggregations and output formats behind the ear-audit CLI
+ * (ear_audit.ts). Works on the decision events ProofArtifactGenerator reads
+ * from a log, so rotated segments and legacy records are covered.
+ *
+ * Filters: verdict, action and resource globs, session, time range, risk score.
+ * Aggregations: top blocked (STOP) actions, holds per session, verdict rates
+ * per hour or day.
+ * Output: aligned text table, JSON or CSV (RFC 4180).
+ */
+
+import { globMatch } from '../integrations/openclaw/policy';
+import type { DecisionEvent, EventVerdict } from './decision_event';
+import { matchesQuery } from './log_store';
+
+export type AuditFormat = 'table' | 'json' | 'csv';
+export type RateInterval = 'hour' | 'day';
+export type AuditValue = string | number | null;
+export type AuditRow = Record<string, AuditValue>;
+
+export const AUDIT_FORMATS: AuditFormat[] = ['table', 'json', 'csv'];
+export const RATE_INTERVALS: RateInterval[] = ['hour', 'day'];
+
+export interface AuditFilter {
+  verdicts?: EventVerdict[];
+  action?: string; // Glob, e.g. "file.*"
+  resource?: string; // Glob, e.g. "/etc/*"
+  session_id?: string;
+  since?: number | string; // Inclusive, epoch ms or ISO 8601
+  until?: number | string; // Exclusive
+  min_risk?: number; // Normalized risk score (0.0 - 1.0), inclusive
+  max_risk?: number;
+}
+
+/**
+ * Decisions matching every given criterion, in log order
+ * Events without an action, resource or risk score do not match a filter on it.
+ */
+export function filterDecisions(events: DecisionEvent[], filter: AuditFilter = {}): DecisionEvent[] {
+  return events.filter((event) => {
+    if (!matchesQuery(event, { session_id: filter.session_id, since: filter.since, until: filter.until })) return false;
+    if (filter.verdicts && !filter.verdicts.includes(event.verdict)) return false;
+    if (filter.action !== undefined && (event.action === undefined || !globMatch(filter.action, event.action))) return false;
+    if (filter.resource !== undefined && (event.resource === undefined || !globMatch(filter.resource, event.resource))) {
+      return false;
+    }
+
+    if (filter.min_risk !== undefined || filter.max_risk !== undefined) {
+      if (event.risk_score === undefined) return false;
+      if (filter.min_risk !== undefined && event.risk_score < filter.min_risk) return false;
+      if (filter.max_risk !== undefined && event.risk_score > filter.max_risk) return false;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * One row per decision
+ */
+export function decisionRows(events: DecisionEvent[]): AuditRow[] {
+  return events.map((event) => ({
+    timestamp: event.timestamp,
+    session_id: event.metadata?.session_id ?? null,
+    verdict: event.verdict,
+    action: event.action ?? null,
+    resource: event.resource ?? null,
+    risk_score: event.risk_score ?? null,
+    policy_id: event.policy_id,
+    matched_rules: event.matched_rules?.join(' ') ?? null,
+    decision_hash: event.decision_hash ?? null,
+  }));
+}
+
+/**
+ * Actions with the most STOP verdicts, most blocked first
+ * @param limit - Number of actions to return
+ */
+export function topBlockedActions(events: DecisionEvent[], limit = 10): AuditRow[] {
+  const counts = new Map<string, { stop_count: number; total: number }>();
+  for (const event of events) {
+    const action = event.action ?? 'unknown';
+    const count = counts.get(action) ?? { stop_count: 0, total: 0 };
+    count.total++;
+    if (event.verdict === 'STOP') count.stop_count++;
+    counts.set(action, count);
+  }
+
+  return [...counts.entries()]
+    .filter(([, count]) => count.stop_count > 0)
+    .sort(([a, x], [b, y]) => y.stop_count - x.stop_count || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([action, count]) => ({
+      action,
+      stop_count: count.stop_count,
+      total: count.total,
+      stop_rate: rate(count.stop_count, count.total),
+    }));
+}
+
+/**
+ * HOLD verdicts per session, most holds first
+ * Decisions without a session_id are counted under "unassigned".
+ */
+export function holdsPerSession(events: DecisionEvent[]): AuditRow[] {
+  const counts = new Map<string, { hold_count: number; total: number }>();
+  for (const event of events) {
+    const session = event.metadata?.session_id ?? 'unassigned';
+    const count = counts.get(session) ?? { hold_count: 0, total: 0 };
+    count.total++;
+    if (event.verdict === 'HOLD') count.hold_count++;
+    counts.set(session, count);
+  }
+
+  return [...counts.entries()]
+    .filter(([, count]) => count.hold_count > 0)
+    .sort(([a, x], [b, y]) => y.hold_count - x.hold_count || a.localeCompare(b))
+    .map(([session_id, count]) => ({ session_id, hold_count: count.hold_count, total: count.total }));
+}
+
+/**
+ * Verdict counts and rates per UTC hour or day, oldest period first
+ */
+export function verdictRates(events: DecisionEvent[], interval: RateInterval = 'day'): AuditRow[] {
+  const periods = new Map<string, Record<EventVerdict, number>>();
+  for (const event of events) {
+    const time = Date.parse(event.timestamp);
+    if (Number.isNaN(time)) continue;
+
+    const iso = new Date(time).toISOString();
+    const period = interval === 'hour' ? `${iso.slice(0, 13)}:00Z` : iso.slice(0, 10);
+    const counts = periods.get(period) ?? { STOP: 0, HOLD: 0, ALLOW: 0 };
+    counts[event.verdict]++;
+    periods.set(period, counts);
+  }
+
+  return [...periods.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, counts]) => {
+      const total = counts.STOP + counts.HOLD + counts.ALLOW;
+      return {
+        period,
+        total,
+        stop: counts.STOP,
+        hold: counts.HOLD,
+        allow: counts.ALLOW,
+        stop_rate: rate(counts.STOP, total),
+        hold_rate: rate(counts.HOLD, total),
+        allow_rate: rate(counts.ALLOW, total),
+      };
+    });
+}
+
+/**
+ * Renders rows in an output format
+ * Columns are taken from the first row; JSON keeps numbers and nulls typed.
+ */
+export function formatRows(rows: AuditRow[], format: AuditFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(rows, null, 2);
+  }
+
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const cells = rows.map((row) => columns.map((column) => (row[column] === null ? '' : String(row[column]))));
+
+  if (format === 'csv') {
+    return [columns, ...cells].map((line) => line.map(csvField).join(',')).join('\n');
+  }
+
+  if (rows.length === 0) {
+    return '(no results)';
+  }
+
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map((line) => line[i].length)));
+  const render = (line: string[]) => line.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+  return [render(columns), render(widths.map((width) => '-'.repeat(width))), ...cells.map(render)].join('\n');
+}
+
+function rate(count: number, total: number): number {
+  return total === 0 ? 0 : Math.round((count / total) * 10000) / 10000;
+}
+
+function csvField(value: string): string {
+  // A leading =, +, - or @ would be evaluated as a formula by spreadsheets
+  const cell = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
@@ -0,0 +1,85 @@
+/**
+ * Canonical JSON (RFC 8785 JSON Canonicalization Scheme)
+ *
+ * Every hash and signature over JSON data in the project is computed over
+ * this serialization, so semantically identical values - e.g. the same
+ * arguments with a different key order - hash identically:
+ * - object members sorted by their UTF-16 code units, no whitespace
+ * - numbers in ECMAScript shortest round-trip form (1.0 -> 1, 1e21, -0 -> 0)
+ * - strings escaped as JSON.stringify does (RFC 8785 section 3.2.2.2)
+ *
+ * Values JSON cannot represent (NaN, Infinity, BigInt, lone surrogates)
+ * are rejected instead of being silently altered. As with JSON.stringify,
+ * undefined members and functions are omitted and toJSON() is honoured.
+ */
+
+import { createHash } from 'crypto';
+
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+/**
+ * Serializes a value in RFC 8785 canonical form
+ * @param value - JSON-compatible value
+ * @returns Canonical JSON text
+ * @throws Error if the value contains non-finite numbers, BigInts or lone surrogates
+ */
+export function canonicalize(value: unknown): string {
+  const serialized = serialize(value, '$');
+  if (serialized === undefined) {
+    throw new Error('Cannot canonicalize a value without JSON representation');
+  }
+  return serialized;
+}
+
+/**
+ * SHA256 of the canonical form (UTF-8)
+ * @param value - JSON-compatible value
+ * @returns Hex digest
+ */
+export function canonicalHash(value: unknown): string {
+  return createHash('sha256').update(canonicalize(value), 'utf-8').digest('hex');
+}
+
+function serialize(value: unknown, path: string): string | undefined {
+  if (value !== null && typeof value === 'object' && typeof (value as any).toJSON === 'function') {
+    value = (value as any).toJSON();
+  }
+
+  switch (typeof value) {
+    case 'string':
+      if (LONE_SURROGATE.test(value)) {
+        throw new Error(`${path}: string contains a lone surrogate`);
+      }
+      return JSON.stringify(value);
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`${path}: ${value} is not a valid JSON number`);
+      }
+      return JSON.stringify(value); // ECMAScript Number serialization, -0 -> 0
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'bigint':
+      throw new Error(`${path}: BigInt values are not supported`);
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+  }
+
+  if (value === null) {
+    return 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item, i) => serialize(item, `${path}[${i}]`) ?? 'null').join(',')}]`;
+  }
+
+  const members: string[] = [];
+  for (const key of Object.keys(value as object).sort()) {
+    const member = serialize((value as Record<string, unknown>)[key], `${path}.${key}`);
+    if (member !== undefined) {
+      members.push(`${serialize(key, path)}:${member}`);
+    }
+  }
+  return `{${members.join(',')}}`;
+}
@@ -0,0 +1,243 @@
+/**
+ * Canonical Decision Event
+ *
+ * Single event type emitted by every handler and logger, matching
+ * contracts/decision_event.schema.json. Events are validated against the
+ * contract schema before they are written.
+ *
+ * Fields beyond the contract (decision_hash, reason, action, resource,
+ * arguments, matched_rules, event_type, hold, execution, redactions,
+ * legacy_input_sha256) are additional properties, which the schema permits.
+ * Secrets and PII in the free-form fields are redacted when the event is
+ * logged (redaction.ts).
+ *
+ * Event types:
+ * - decision: verdict issued by the decision engine (or an authority denial)
+ * - hold_transition: a pending HOLD was approved, rejected or expired
+ * - execution_outcome: what happened after an ALLOW (started, succeeded,
+ *   failed, or a rejected re-use of the capability), linked by decision_hash
+ */
+
+import { randomUUID } from 'crypto';
+import type { Decision, DecisionInput } from '../integrations/openclaw/decision_engine';
+import type { ChainProof } from './hash_chain';
+import type { RiskFactor } from '../src/types/risk_factor';
+import { Redaction, redactArguments, redactValue } from './redaction';
+import { canonicalHash } from './canonical_json';
+import { JsonSchema, validateAgainstSchema } from './schema_validator';
+import decisionEventSchema from '../contracts/decision_event.schema.json';
+
+export type EventVerdict = 'STOP' | 'HOLD' | 'ALLOW';
+export type EventType = 'decision' | 'hold_transition' | 'execution_outcome';
+export type ExecutionPhase = 'started' | 'succeeded' | 'failed' | 'rejected';
+
+export interface ExecutionOutcomeDetails {
+  phase: ExecutionPhase;
+  duration_ms?: number;
+  result_digest?: string; // SHA256 of the result/output (see computeResultDigest)
+  exit_code?: number | null;
+  killed_reason?: string;
+  error?: string;
+  error_code?: string;
+}
+
+export type { RiskFactor };
+
+export interface DecisionEvent {
+  event_id: string;
+  event_type: EventType;
+  timestamp: string;
+  verdict: EventVerdict;
+  input_hash: string;
+  policy_id: string;
+  execution_attempted: boolean;
+  execution_result: 'success' | 'error' | null;
+  risk_score?: number; // 0.0 - 1.0
+  risk_factors?: RiskFactor[];
+  authority_token_id?: string;
+  source?: string;
+  intercepted?: boolean;
+  metadata?: {
+    user_id?: string;
+    session_id?: string;
+    organization_id?: string;
+    request_context?: Record<string, any>;
+  };
+  proof?: ChainProof; // Attached by the hash-chained writer
+  decision_hash?: string;
+  reason?: string;
+  action?: string;
+  resource?: string;
+  arguments?: Record<string, any>;
+  matched_rules?: string[];
+  hold?: {
+    transition: 'approved' | 'rejected' | 'expired';
+    hold_decision_hash: string;
+    resolved_by: string;
+    comment?: string;
+    approved_decision_hash?: string; // Fresh ALLOW decision produced on approval
+  };
+  execution?: ExecutionOutcomeDetails;
+  redactions?: Redaction[]; // Values replaced by redaction placeholders
+  legacy_input_sha256?: string; // Nonconforming fingerprint of a migrated record (input_hash is its SHA256)
+}
+
+/**
+ * Computes the input hash of a decision input
+ * Hashes the redacted proposal, so it can be recomputed from a logged event.
+ * @param input - Decision input
+ * @returns SHA256 of the canonical proposal (action, resource, arguments)
+ */
+export function computeInputHash(input: Pick<DecisionInput, 'action' | 'resource' | 'arguments'>): string {
+  return canonicalHash({
+    action: input.action,
+    resource: redactValue(input.resource, 'resource').value,
+    arguments: redactArguments(input.arguments),
+  });
+}
+
+/**
+ * Builds the canonical event for an engine decision
+ * @param decision - Engine decision
+ * @param input - Decision input
+ * @param context - Where the decision was observed
+ * @returns Canonical decision event
+ */
+export function toDecisionEvent(
+  decision: Decision,
+  input: DecisionInput,
+  context: { source: string; intercepted: boolean; authority_token_id?: string }
+): DecisionEvent {
+  return {
+    event_id: randomUUID(),
+    event_type: 'decision',
+    timestamp: new Date(decision.timestamp).toISOString(),
+    verdict: decision.verdict,
+    input_hash: computeInputHash(input),
+    policy_id: decision.policy_id,
+    execution_attempted: false,
+    execution_result: null,
+    risk_score: normalizeRiskScore(decision.risk_score, decision.max_risk_score),
+    risk_factors: decision.risk_factors,
+    ...(context.authority_token_id && { authority_token_id: context.authority_token_id }),
+    source: context.source,
+    intercepted: context.intercepted,
+    metadata: eventMetadata(input),
+    decision_hash: decision.decision_hash,
+    reason: decision.reason,
+    action: input.action,
+    resource: input.resource,
+    arguments: input.arguments,
+    matched_rules: decision.matched_rules,
+  };
+}
+
+/**
+ * Builds an execution outcome event for an ALLOW decision
+ * @param input - Decision input the ALLOW was issued for
+ * @param context - ALLOW decision the outcome belongs to
+ * @param execution - Outcome details
+ * @returns Canonical event (verdict STOP for rejected re-use, ALLOW otherwise)
+ */
+export function toExecutionEvent(
+  input: DecisionInput,
+  context: { decision_hash: string; policy_id: string; source: string; authority_token_id?: string },
+  execution: ExecutionOutcomeDetails
+): DecisionEvent {
+  const results: Record<ExecutionPhase, DecisionEvent['execution_result']> = {
+    started: null,
+    succeeded: 'success',
+    failed: 'error',
+    rejected: null,
+  };
+
+  return {
+    event_id: randomUUID(),
+    event_type: 'execution_outcome',
+    timestamp: new Date().toISOString(),
+    verdict: execution.phase === 'rejected' ? 'STOP' : 'ALLOW',
+    input_hash: computeInputHash(input),
+    policy_id: context.policy_id,
+    execution_attempted: execution.phase !== 'rejected',
+    execution_result: results[execution.phase],
+    ...(context.authority_token_id && { authority_token_id: context.authority_token_id }),
+    source: context.source,
+    intercepted: execution.phase === 'rejected',
+    metadata: eventMetadata(input),
+    decision_hash: context.decision_hash,
+    action: input.action,
+    resource: input.resource,
+    execution,
+  };
+}
+
+/**
+ * Digest of an execution result - what the tool returned or printed
+ * @returns SHA256 over the canonical result, exit code and output
+ */
+export function computeResultDigest(outcome: {
+  result?: any;
+  exit_code?: number | null;
+  stdout?: string;
+  stderr?: string;
+}): string {
+  return canonicalHash({
+    result: outcome.result ?? null,
+    exit_code: outcome.exit_code ?? null,
+    stdout: outcome.stdout ?? null,
+    stderr: outcome.stderr ?? null,
+  });
+}
+
+/**
+ * Scales an engine risk score (0 - max) to the contract range (0.0 - 1.0)
+ */
+export function normalizeRiskScore(score: number, maxScore: number): number {
+  if (!(maxScore > 0)) return 0;
+  return Math.round(Math.min(Math.max(score / maxScore, 0), 1) * 1000) / 1000;
+}
+
+/**
+ * Validates an event against contracts/decision_event.schema.json
+ * @param event - Candidate event
+ * @returns List of validation errors (empty when valid)
+ */
+export function validateDecisionEvent(event: unknown): string[] {
+  const errors = validateAgainstSchema(event, decisionEventSchema as JsonSchema);
+
+  const candidate = event as Partial<DecisionEvent> | null;
+  if (candidate && typeof candidate === 'object') {
+    if (!['decision', 'hold_transition', 'execution_outcome'].includes(candidate.event_type as string)) {
+      errors.push('$.event_type must be one of "decision", "hold_transition", "execution_outcome"');
+    }
+    if (candidate.event_type === 'hold_transition' && !candidate.hold) {
+      errors.push('$.hold is required for hold_transition events');
+    }
+    if (candidate.event_type === 'execution_outcome' && (!candidate.execution || !candidate.decision_hash)) {
+      errors.push('$.execution and $.decision_hash are required for execution_outcome events');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Throws when an event does not satisfy the contract (called on every write)
+ */
+export function assertValidDecisionEvent(event: unknown): asserts event is DecisionEvent {
+  const errors = validateDecisionEvent(event);
+  if (errors.length > 0) {
+    throw new Error(`Invalid decision event:\n  - ${errors.join('\n  - ')}`);
+  }
+}
+
+/**
+ * Event metadata for a decision input: the session, and the origin the
+ * client claimed when the transport records its own source
+ */
+function eventMetadata(input: DecisionInput): DecisionEvent['metadata'] {
+  return {
+    ...(input.metadata.session_id && { session_id: input.metadata.session_id }),
+    ...(input.metadata.client_source && { request_context: { client_source: input.metadata.client_source } }),
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Decision Hash Verification
+ *
+ * Recomputes the decision_hash of logged decision events from the record
+ * alone (action, resource, redacted arguments, verdict, timestamp) with the
+ * engine's computeDecisionHash, so a decision can be checked without access
+ * to the raw tool call. Records hashed before canonical JSON hashing was
+ * introduced are recognized and reported as legacy.
+ */
+
+import { createHash } from 'crypto';
+import { computeDecisionHash } from '../integrations/openclaw/decision_engine';
+import type { DecisionEvent } from './decision_event';
+import { upgradeLegacyRecord } from './log_migration';
+
+export type DecisionHashStatus = 'valid' | 'legacy' | 'mismatch' | 'unverifiable';
+
+export interface DecisionHashCheck {
+  line: number; // 1-based line number in the log file
+  decision_hash: string;
+  status: DecisionHashStatus;
+  recomputed?: string;
+  message?: string;
+}
+
+export interface DecisionHashReport {
+  valid: boolean; // No mismatches
+  checked: number;
+  counts: Record<DecisionHashStatus, number>;
+  checks: DecisionHashCheck[];
+}
+
+/**
+ * Recomputes the decision hash of a logged decision event
+ * @param event - Logged decision event
+ * @returns Recomputed hash
+ * @throws Error if the event lacks the hashed fields
+ */
+export function recomputeDecisionHash(event: DecisionEvent): string {
+  const { action, resource, arguments: args, verdict, timestamp } = event;
+  if (typeof action !== 'string' || typeof resource !== 'string' || !args || typeof args !== 'object') {
+    throw new Error('record has no action, resource and arguments');
+  }
+
+  const time = Date.parse(timestamp);
+  if (Number.isNaN(time)) {
+    throw new Error(`record timestamp ${timestamp} is not a valid date`);
+  }
+
+  return computeDecisionHash({ action, resource, arguments: args }, verdict, time);
+}
+
+/**
+ * Checks one logged decision event
+ * @param event - Logged decision event with a decision_hash
+ * @param line - Line number for the report
+ */
+export function checkDecisionHash(event: DecisionEvent, line: number = 0): DecisionHashCheck {
+  const decisionHash = event.decision_hash ?? '';
+
+  let recomputed: string;
+  try {
+    recomputed = recomputeDecisionHash(event);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { line, decision_hash: decisionHash, status: 'unverifiable', message };
+  }
+
+  if (recomputed === decisionHash) {
+    return { line, decision_hash: decisionHash, status: 'valid', recomputed };
+  }
+  if (legacyDecisionHash(event) === decisionHash) {
+    return { line, decision_hash: decisionHash, status: 'legacy', recomputed, message: 'hashed before canonical JSON' };
+  }
+  return { line, decision_hash: decisionHash, status: 'mismatch', recomputed, message: 'record does not match its decision_hash' };
+}
+
+/**
+ * Verifies the decision hashes in a decision log
+ * @param content - Raw JSONL content (canonical or legacy records)
+ * @param onlyHash - Check only the decision with this hash
+ * @returns Report with one check per decision record carrying a decision_hash
+ */
+export function verifyDecisionHashes(content: string, onlyHash?: string): DecisionHashReport {
+  const report: DecisionHashReport = {
+    valid: true,
+    checked: 0,
+    counts: { valid: 0, legacy: 0, mismatch: 0, unverifiable: 0 },
+    checks: [],
+  };
+
+  content.split('\n').forEach((raw, index) => {
+    if (raw.trim().length === 0) return;
+
+    let event: DecisionEvent;
+    try {
+      event = upgradeLegacyRecord(JSON.parse(raw), raw);
+    } catch {
+      return; // Not a decision record
+    }
+    if (event.event_type !== 'decision' || !event.decision_hash) return;
+    if (onlyHash && event.decision_hash !== onlyHash) return;
+
+    const check = checkDecisionHash(event, index + 1);
+    report.checks.push(check);
+    report.counts[check.status]++;
+    report.checked++;
+  });
+
+  report.valid = report.counts.mismatch === 0;
+  return report;
+}
+
+/**
+ * Decision hash as computed before canonical JSON (insertion-ordered JSON.stringify)
+ */
+function legacyDecisionHash(event: DecisionEvent): string {
+  const payload = JSON.stringify({
+    action: event.action,
+    resource: event.resource,
+    arguments: event.arguments,
+    verdict: event.verdict,
+    timestamp: Date.parse(event.timestamp),
+  });
+  return createHash('sha256').update(payload).digest('hex');
+}
@@ -1,32 +1,33 @@
-import { createHash } from 'crypto';
-import { appendFileSync } from 'fs';
-import { join } from 'path';
-
-export interface Decision {
-  timestamp: string;
-  input_sha256: string;
-  policy_id: string;
-  decision: 'STOP' | 'HOLD' | 'ALLOW';
-  execution_attempted: boolean;
-  execution_result?: 'success' | 'error' | null;
-}
+import { createHash, randomUUID } from 'crypto';
+import { defaultDecisionLogPath, openLogStore } from './log_store';
+import { assertValidDecisionEvent, DecisionEvent } from './decision_event';
+import { canonicalHash } from './canonical_json';
 
 export class DecisionLogger {
   private logPath: string;
 
   constructor(logPath?: string) {
-    this.logPath = logPath || join(process.cwd(), 'decision_log.jsonl');
+    this.logPath = logPath || defaultDecisionLogPath();
   }
 
   /**
    * Calculate SHA256 hash of input string
+   * JSON input is hashed in canonical form (RFC 8785), so key order and
+   * whitespace do not change the hash; other text is hashed as is.
    */
   private calculateSHA256(input: string): string {
-    return createHash('sha256').update(input, 'utf-8').digest('hex');
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(input);
+    } catch {
+      return createHash('sha256').update(input, 'utf-8').digest('hex');
+    }
+    return canonicalHash(parsed);
   }
 
   /**
-   * Log a mediation decision
+   * Log a mediation decision as a canonical decision event
+   * (validated against the contract, appended to the hash-chained log)
    */
   logDecision(
     input: string,
@@ -34,17 +35,21 @@ export class DecisionLogger {
     decision: 'STOP' | 'HOLD' | 'ALLOW',
     executionResult?: 'success' | 'error'
   ): void {
-    const decisionRecord: Decision = {
+    const event: DecisionEvent = {
+      event_id: randomUUID(),
+      event_type: 'decision',
       timestamp: new Date().toISOString(),
-      input_sha256: this.calculateSHA256(input),
+      verdict: decision,
+      input_hash: this.calculateSHA256(input),
       policy_id: policyId,
-      decision,
       execution_attempted: decision === 'ALLOW',
       execution_result: decision === 'ALLOW' ? (executionResult || null) : null,
     };
 
-    // Append as single JSON line
-    appendFileSync(this.logPath, JSON.stringify(decisionRecord) + '\n', 'utf-8');
+    assertValidDecisionEvent(event);
+
+    // Append as single JSON line linked to the previous record
+    openLogStore(this.logPath).append(event);
   }
 
   /**
@@ -0,0 +1,206 @@
+import { existsSync } from 'fs';
+import { ProofArtifactGenerator } from './generate_proof_artifact';
+import {
+  AUDIT_FORMATS,
+  AuditFilter,
+  AuditFormat,
+  AuditRow,
+  RATE_INTERVALS,
+  RateInterval,
+  decisionRows,
+  filterDecisions,
+  formatRows,
+  holdsPerSession,
+  topBlockedActions,
+  verdictRates,
+} from './audit';
+import type { EventVerdict } from './decision_event';
+import { toEpochMs } from './log_store';
+import { getDecisionLogPath } from './openclaw_intercept/decision_logger';
+
+/**
+ * Query decision logs
+ *
+ * Usage: tsx proof/ear_audit.ts [decisions|top-blocked|holds|rates] [options]
+ * (options listed in USAGE, printed by --help)
+ *
+ * Filters apply before aggregation. Exits 1 on invalid arguments or if a
+ * log does not exist.
+ */
+
+const USAGE = `Usage: ear_audit.ts [decisions|top-blocked|holds|rates] [options]
+
+  --log <path>            Decision log (repeatable; default the OpenClaw log openclaw_decisions.jsonl)
+  --verdict <list>        STOP, HOLD and/or ALLOW, comma-separated
+  --action <glob>         Action pattern, e.g. "file.*"
+  --resource <glob>       Resource pattern, e.g. "/etc/*"
+  --session <id>          Session id
+  --since <time>          ISO 8601 or epoch ms, inclusive
+  --until <time>          ISO 8601 or epoch ms, exclusive
+  --min-risk <score>      Minimum normalized risk score (0.0 - 1.0)
+  --max-risk <score>      Maximum normalized risk score (0.0 - 1.0)
+  --interval <hour|day>   Period of the rates report (default day)
+  --limit <n>             Rows to show (top-blocked defaults to 10)
+  --format <table|json|csv>
+  --help                  Show this help`;
+
+const REPORTS = ['decisions', 'top-blocked', 'holds', 'rates'] as const;
+type Report = typeof REPORTS[number];
+
+interface AuditOptions {
+  help: boolean;
+  report: Report;
+  logPaths: string[];
+  filter: AuditFilter;
+  interval: RateInterval;
+  limit?: number;
+  format: AuditFormat;
+}
+
+/**
+ * Parses command line arguments
+ * @throws Error on unknown options or invalid values
+ */
+function parseArgs(args: string[]): AuditOptions {
+  const options: AuditOptions = {
+    help: false,
+    report: 'decisions',
+    logPaths: [],
+    filter: {},
+    interval: 'day',
+    format: 'table',
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      if (!(REPORTS as readonly string[]).includes(arg)) {
+        throw new Error(`Unknown report "${arg}" (expected one of ${REPORTS.join(', ')})`);
+      }
+      options.report = arg as Report;
+      continue;
+    }
+
+    // Flags take no value
+    if (arg === '--help') {
+      options.help = true;
+      continue;
+    }
+
+    const value = args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+
+    switch (arg) {
+      case '--log':
+        options.logPaths.push(value);
+        break;
+      case '--verdict':
+        options.filter.verdicts = value.split(',').map((verdict) => {
+          const upper = verdict.trim().toUpperCase();
+          if (!['STOP', 'HOLD', 'ALLOW'].includes(upper)) {
+            throw new Error(`Invalid verdict "${verdict}"`);
+          }
+          return upper as EventVerdict;
+        });
+        break;
+      case '--action':
+        options.filter.action = value;
+        break;
+      case '--resource':
+        options.filter.resource = value;
+        break;
+      case '--session':
+        options.filter.session_id = value;
+        break;
+      case '--since':
+      case '--until': {
+        const bound = /^\d+$/.test(value) ? Number(value) : value;
+        toEpochMs(bound);
+        options.filter[arg === '--since' ? 'since' : 'until'] = bound;
+        break;
+      }
+      case '--min-risk':
+      case '--max-risk': {
+        const score = Number(value);
+        if (!(score >= 0 && score <= 1)) {
+          throw new Error(`${arg} must be between 0.0 and 1.0 (got "${value}")`);
+        }
+        options.filter[arg === '--min-risk' ? 'min_risk' : 'max_risk'] = score;
+        break;
+      }
+      case '--interval':
+        if (!(RATE_INTERVALS as string[]).includes(value)) {
+          throw new Error(`--interval must be one of ${RATE_INTERVALS.join(', ')}`);
+        }
+        options.interval = value as RateInterval;
+        break;
+      case '--limit':
+        options.limit = Number(value);
+        if (!Number.isInteger(options.limit) || options.limit <= 0) {
+          throw new Error(`--limit must be a positive integer (got "${value}")`);
+        }
+        break;
+      case '--format':
+        if (!(AUDIT_FORMATS as string[]).includes(value)) {
+          throw new Error(`--format must be one of ${AUDIT_FORMATS.join(', ')}`);
+        }
+        options.format = value as AuditFormat;
+        break;
+      default:
+        throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+function main(args: string[]): number {
+  let options: AuditOptions;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error('Run with --help for usage');
+    return 1;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const logPaths = options.logPaths.length > 0 ? options.logPaths : [getDecisionLogPath()];
+  const missing = logPaths.filter((logPath) => !existsSync(logPath));
+  if (missing.length > 0) {
+    console.error(`Decision log not found: ${missing.join(', ')}`);
+    return 1;
+  }
+
+  const decisions = logPaths.flatMap((logPath) => new ProofArtifactGenerator(logPath).readDecisionLog());
+  const matched = filterDecisions(decisions, options.filter);
+
+  let rows: AuditRow[];
+  switch (options.report) {
+    case 'top-blocked':
+      rows = topBlockedActions(matched, options.limit ?? 10);
+      break;
+    case 'holds':
+      rows = holdsPerSession(matched);
+      break;
+    case 'rates':
+      rows = verdictRates(matched, options.interval);
+      break;
+    default:
+      rows = decisionRows(matched);
+  }
+
+  console.log(formatRows(options.limit !== undefined ? rows.slice(0, options.limit) : rows, options.format));
+  return 0;
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  process.exit(main(process.argv.slice(2)));
+}
@@ -1,58 +1,52 @@
 import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { createHash } from 'crypto';
 import { join } from 'path';
-
-interface Decision {
-  timestamp: string;
-  input_sha256: string;
-  policy_id: string;
-  decision: 'STOP' | 'HOLD' | 'ALLOW';
-  execution_attempted: boolean;
-  execution_result?: 'success' | 'error' | null;
-}
-
-interface AdversarialVerification {
-  total_tests: number;
-  pass_count: number;
-  fail_count: number;
-  pass_rate: number;
-  generated_at: string;
-}
-
-interface ProofManifest {
-  generated_at: string;
-  session_id: string;
-  log_file: string;
-  total_decisions: number;
-  stop_count: number;
-  hold_count: number;
-  allow_count: number;
-  execution_success_count: number;
-  execution_error_count: number;
-  adversarial_verification?: AdversarialVerification;
-  decisions: Decision[];
-  manifest_sha256?: string;
-}
+import { DecisionEvent } from './decision_event';
+import { readDecisionEvents } from './log_migration';
+import { defaultDecisionLogPath, openLogStore } from './log_store';
+import {
+  AdversarialVerification,
+  ProofManifest,
+  ManifestDigest,
+  buildManifest,
+  digestPathFor,
+  groupBySession,
+  selectSession,
+  writeManifest,
+} from './proof_manifest';
+
+type Decision = DecisionEvent;
 
 class ProofArtifactGenerator {
   private logPath: string;
   private proofDir: string;
 
   constructor(logPath?: string, proofDir?: string) {
-    this.logPath = logPath || join(process.cwd(), 'decision_log.jsonl');
+    this.logPath = logPath || defaultDecisionLogPath();
     this.proofDir = proofDir || join(process.cwd(), 'proof');
   }
 
   /**
-   * Read all decisions from JSONL log
+   * Read all decisions from the log, rotated segments included
+   * (legacy records are upgraded to canonical events)
+   * Also used by the ear-audit CLI (ear_audit.ts).
+   */
+  readDecisionLog(): Decision[] {
+    try {
+      const content = openLogStore(this.logPath).readContent();
+      return readDecisionEvents(content).filter((event) => event.event_type === 'decision');
+    } catch (error) {
+      console.error('Error reading decision log:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read the execution outcome events from the log (counted in the manifest)
    */
-  private readDecisionLog(): Decision[] {
+  private readExecutionOutcomes(): DecisionEvent[] {
     try {
-      const content = readFileSync(this.logPath, 'utf-8');
-      return content
-        .split('\n')
-        .filter((line) => line.trim().length > 0)
-        .map((line) => JSON.parse(line));
+      const content = openLogStore(this.logPath).readContent();
+      return readDecisionEvents(content).filter((event) => event.event_type === 'execution_outcome');
     } catch (error) {
       console.error('Error reading decision log:', error);
       return [];
@@ -85,81 +79,10 @@ class ProofArtifactGenerator {
     }
   }
 
-  /**
-   * Group decisions by session (based on time proximity)
-   */
-  private groupBySession(decisions: Decision[]): Decision[][] {
-    if (decisions.length === 0) return [];
-
-    const sessions: Decision[][] = [];
-    let currentSession: Decision[] = [decisions[0]];
-    const sessionGapMs = 60000; // 1 minute gap = new session
-
-    for (let i = 1; i < decisions.length; i++) {
-      const prevTime = new Date(decisions[i - 1].timestamp).getTime();
-      const currTime = new Date(decisions[i].timestamp).getTime();
-
-      if (currTime - prevTime > sessionGapMs) {
-        sessions.push(currentSession);
-        currentSession = [decisions[i]];
-      } else {
-        currentSession.push(decisions[i]);
-      }
-    }
-
-    sessions.push(currentSession);
-    return sessions;
-  }
-
-  /**
-   * Calculate SHA256 hash of JSON string
-   */
-  private calculateSHA256(content: string): string {
-    return createHash('sha256').update(content, 'utf-8').digest('hex');
-  }
-
-  /**
-   * Generate proof manifest for a session
-   */
-  private generateManifest(sessionId: string, decisions: Decision[]): ProofManifest {
-    const stopCount = decisions.filter((d) => d.decision === 'STOP').length;
-    const holdCount = decisions.filter((d) => d.decision === 'HOLD').length;
-    const allowCount = decisions.filter((d) => d.decision === 'ALLOW').length;
-    const executionSuccessCount = decisions.filter(
-      (d) => d.execution_result === 'success'
-    ).length;
-    const executionErrorCount = decisions.filter(
-      (d) => d.execution_result === 'error'
-    ).length;
-
-    // Read adversarial verification report
-    const adversarialVerification = this.readAdversarialReport();
-
-    const manifest: ProofManifest = {
-      generated_at: new Date().toISOString(),
-      session_id: sessionId,
-      log_file: this.logPath,
-      total_decisions: decisions.length,
-      stop_count: stopCount,
-      hold_count: holdCount,
-      allow_count: allowCount,
-      execution_success_count: executionSuccessCount,
-      execution_error_count: executionErrorCount,
-      ...(adversarialVerification && { adversarial_verification: adversarialVerification }),
-      decisions,
-    };
-
-    // Calculate manifest hash (without hash field itself)
-    const manifestJson = JSON.stringify(manifest, null, 2);
-    manifest.manifest_sha256 = this.calculateSHA256(manifestJson);
-
-    return manifest;
-  }
-
   /**
    * Generate summary text
    */
-  private generateSummary(manifest: ProofManifest): string {
+  private generateSummary(manifest: ProofManifest, digest: ManifestDigest): string {
     let summary = `Execution Authority Runtime - Decision Proof Artifact
 
 Generated: ${manifest.generated_at}
@@ -191,9 +114,11 @@ Verified: ${adv.generated_at}
 
     summary += `
 === Integrity ===
-Manifest SHA256: ${manifest.manifest_sha256}
+Merkle Root (${manifest.merkle.leaf_count} decisions): ${manifest.merkle.root}
+Manifest SHA256 (RFC 8785): ${digest.digest}
+Signature: ${digest.signature ? 'ed25519' : 'unsigned'}
 
-All decisions logged deterministically with input SHA256 fingerprints.
+All decisions logged as canonical decision events with input SHA256 fingerprints.
 Pre-execution mediation enforced BEFORE execution_call().
 `;
 
@@ -201,9 +126,10 @@ Pre-execution mediation enforced BEFORE execution_call().
   }
 
   /**
-   * Generate proof artifacts for the latest session
+   * Generate proof artifacts for one session
+   * @param sessionId - Session to prove (default: session of the latest decision)
    */
-  generate(): void {
+  generate(sessionId?: string): void {
     console.log('=== Generating Proof Artifact ===\n');
 
     const decisions = this.readDecisionLog();
@@ -212,28 +138,34 @@ Pre-execution mediation enforced BEFORE execution_call().
       return;
     }
 
-    const sessions = this.groupBySession(decisions);
-    const latestSession = sessions[sessions.length - 1];
-    const sessionId = `session-${new Date(latestSession[0].timestamp).toISOString().replace(/[:.]/g, '-')}`;
-
-    console.log(`Found ${sessions.length} session(s), processing latest: ${sessionId}`);
-    console.log(`Latest session contains ${latestSession.length} decision(s)\n`);
-
-    // Generate manifest
-    const manifest = this.generateManifest(sessionId, latestSession);
+    const session = selectSession(decisions, sessionId);
+    console.log(`Found ${groupBySession(decisions).size} session(s), processing: ${session.session_id}`);
+    console.log(`Session contains ${session.decisions.length} decision(s)\n`);
+
+    // Generate manifest and its detached digest
+    const manifest = buildManifest(
+      session.session_id,
+      session.decisions,
+      this.logPath,
+      this.readAdversarialReport(),
+      this.readExecutionOutcomes()
+    );
     const manifestPath = join(this.proofDir, 'proof_manifest.json');
-    writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+    const digest = writeManifest(manifestPath, manifest);
     console.log(`✓ Generated: ${manifestPath}`);
+    console.log(`✓ Generated: ${digestPathFor(manifestPath)}`);
 
     // Generate summary
-    const summary = this.generateSummary(manifest);
+    const summary = this.generateSummary(manifest, digest);
     const summaryPath = join(this.proofDir, 'summary.txt');
     writeFileSync(summaryPath, summary, 'utf-8');
     console.log(`✓ Generated: ${summaryPath}\n`);
 
-    // Output manifest hash
-    console.log('=== Integrity Hash ===');
-    console.log(`Manifest SHA256: ${manifest.manifest_sha256}\n`);
+    // Output integrity data
+    console.log('=== Integrity ===');
+    console.log(`Merkle Root: ${manifest.merkle.root}`);
+    console.log(`Manifest SHA256: ${digest.digest}`);
+    console.log(`Signature: ${digest.signature ? 'ed25519' : 'unsigned (set EAR_MANIFEST_SIGNING_KEY to sign)'}\n`);
 
     // Output summary stats
     console.log('=== Summary ===');
@@ -248,8 +180,10 @@ Pre-execution mediation enforced BEFORE execution_call().
 
 // CLI execution
 if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const sessionIndex = args.indexOf('--session');
   const generator = new ProofArtifactGenerator();
-  generator.generate();
+  generator.generate(sessionIndex >= 0 ? args[sessionIndex + 1] : undefined);
 }
 
 export { ProofArtifactGenerator };
@@ -0,0 +1,345 @@
+/**
+ * Hash-Chained Decision Log
+ *
+ * Every appended JSONL record carries `proof.chain_hash` (SHA256 of the
+ * previous line, decision_event.schema.json) and a monotonically increasing
+ * `proof.seq`. Editing, deleting or reordering a line breaks the chain at
+ * the first affected record. Records are optionally Ed25519-signed when
+ * EAR_LOG_SIGNING_KEY (PKCS8 PEM) is set.
+ *
+ * chain_hash covers the previous line's bytes as written; signatures cover
+ * the record's canonical JSON (canonical_json.ts).
+ */
+
+import { createHash, createPrivateKey, createPublicKey, KeyObject, sign, verify } from 'crypto';
+import * as fs from 'fs';
+import { canonicalize } from './canonical_json';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface ChainProof {
+  seq: number;
+  chain_hash: string;
+  signature?: string; // Base64 Ed25519 signature of the canonical record without signature
+}
+
+export type ChainBreakKind =
+  | 'malformed'
+  | 'unchained'
+  | 'deleted'
+  | 'reordered'
+  | 'broken_link'
+  | 'unsigned'
+  | 'bad_signature';
+
+/**
+ * Position in a chain: the record a continuation links to
+ */
+export interface ChainAnchor {
+  seq: number; // seq of the linked record (-1 for an unchained record)
+  line_hash: string; // SHA256 of its raw line
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  total_records: number;
+  legacy_records: number; // Unchained records preceding the chain
+  verified_records: number;
+  first_break?: {
+    line: number; // 1-based line number in the log file
+    kind: ChainBreakKind;
+    message: string;
+  };
+}
+
+let signingKey: KeyObject | null | undefined;
+
+/**
+ * Returns the log signing key configured via EAR_LOG_SIGNING_KEY (if any)
+ */
+function getSigningKey(): KeyObject | null {
+  if (signingKey === undefined) {
+    signingKey = process.env.EAR_LOG_SIGNING_KEY
+      ? createPrivateKey(process.env.EAR_LOG_SIGNING_KEY)
+      : null;
+  }
+  return signingKey;
+}
+
+/**
+ * Overrides the log signing key (null disables signing)
+ */
+export function setLogSigningKey(key: KeyObject | null): void {
+  signingKey = key;
+}
+
+/**
+ * SHA256 of a raw JSONL line (without trailing newline)
+ */
+export function hashLine(line: string): string {
+  return createHash('sha256').update(line, 'utf-8').digest('hex');
+}
+
+/**
+ * Anchor of a raw JSONL line (what the next record links to)
+ */
+export function chainAnchorOf(line: string): ChainAnchor {
+  const seq = parseProof(line)?.seq;
+  return { seq: typeof seq === 'number' ? seq : -1, line_hash: hashLine(line) };
+}
+
+/**
+ * Serializes a record as the next link after `previousLine`
+ * @param record - Record to append (any existing proof fields are replaced)
+ * @param previousLine - Last line currently in the log (null for empty log)
+ * @returns JSONL line (without newline)
+ */
+export function chainRecord(record: Record<string, any>, previousLine: string | null): string {
+  return chainRecordAfter(record, previousLine === null ? null : chainAnchorOf(previousLine));
+}
+
+/**
+ * Serializes a record as the next link after an anchor - used when the
+ * previous record is no longer in the same file (rotated log segments)
+ * @param record - Record to append (any existing proof fields are replaced)
+ * @param previous - Anchor of the previous record (null starts a new chain)
+ * @returns JSONL line (without newline)
+ */
+export function chainRecordAfter(record: Record<string, any>, previous: ChainAnchor | null): string {
+  const seq = previous ? previous.seq + 1 : 0;
+  const chainHash = previous ? previous.line_hash : GENESIS_HASH;
+
+  const proof: ChainProof = { ...record.proof, seq, chain_hash: chainHash };
+  delete proof.signature;
+  const chained = { ...record, proof };
+
+  const key = getSigningKey();
+  if (key) {
+    proof.signature = sign(null, Buffer.from(canonicalize(chained), 'utf-8'), key).toString('base64');
+  }
+
+  return JSON.stringify(chained);
+}
+
+/**
+ * Appends a record to a hash-chained JSONL log (synchronous)
+ * @param logPath - Log file path
+ * @param record - Record to append
+ */
+export function appendChainedRecordSync(logPath: string, record: Record<string, any>): void {
+  const line = chainRecord(record, readLastLineSync(logPath));
+  fs.appendFileSync(logPath, line + '\n', 'utf-8');
+}
+
+/**
+ * Per-file append queues: links are computed from the last line, so
+ * appends to the same log must not interleave within this process.
+ */
+const appendQueues = new Map<string, Promise<void>>();
+
+/**
+ * Appends a record to a hash-chained JSONL log
+ * @param logPath - Log file path
+ * @param record - Record to append
+ */
+export async function appendChainedRecord(logPath: string, record: Record<string, any>): Promise<void> {
+  const previous = appendQueues.get(logPath) ?? Promise.resolve();
+  const next = previous.then(() => appendChainedRecordSync(logPath, record));
+
+  // Keep the queue alive even if this append fails
+  appendQueues.set(
+    logPath,
+    next.catch(() => undefined)
+  );
+
+  await next;
+}
+
+/**
+ * Walks a log and reports the first broken link, deleted line,
+ * reordered entry or invalid signature.
+ *
+ * Unchained records preceding the chain (written before chaining was
+ * enabled) fail verification unless allowLegacy is set; they are counted in
+ * legacy_records either way.
+ *
+ * @param content - Raw JSONL log content
+ * @param publicKey - When given, every chained record must carry a valid signature
+ * @param after - Record the content continues from (its earlier records were pruned)
+ * @param allowLegacy - Accept unchained leading records
+ * @returns Verification report
+ */
+export function verifyChain(
+  content: string,
+  publicKey?: KeyObject,
+  after?: ChainAnchor,
+  allowLegacy = false
+): ChainVerification {
+  const lines = content.split('\n');
+  const records: { line: number; raw: string; proof?: ChainProof }[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].trim().length === 0) continue;
+    records.push({ line: i + 1, raw: lines[i] });
+  }
+
+  const report: ChainVerification = {
+    valid: true,
+    total_records: records.length,
+    legacy_records: 0,
+    verified_records: 0,
+  };
+
+  const fail = (line: number, kind: ChainBreakKind, message: string): ChainVerification => ({
+    ...report,
+    valid: false,
+    first_break: { line, kind, message },
+  });
+
+  for (const record of records) {
+    try {
+      JSON.parse(record.raw);
+    } catch {
+      return fail(record.line, 'malformed', 'line is not valid JSON');
+    }
+    record.proof = parseProof(record.raw);
+  }
+
+  // Unchained records written before chaining was enabled
+  while (!after && report.legacy_records < records.length && !records[report.legacy_records].proof) {
+    report.legacy_records++;
+  }
+
+  if (report.legacy_records > 0 && !allowLegacy) {
+    return fail(
+      records[0].line,
+      'unchained',
+      `${report.legacy_records} legacy (unchained) record(s) precede the chain; migrate the log or allow legacy records`
+    );
+  }
+
+  const presentSeqs = new Set(records.map((r) => r.proof?.seq));
+  let expectedSeq = after ? after.seq + 1 : 0;
+  let previousHash = after
+    ? after.line_hash
+    : report.legacy_records > 0
+      ? hashLine(records[report.legacy_records - 1].raw)
+      : GENESIS_HASH;
+
+  for (const record of records.slice(report.legacy_records)) {
+    const proof = record.proof;
+
+    if (!proof) {
+      return fail(record.line, 'unchained', 'record has no chain proof');
+    }
+
+    if (proof.seq !== expectedSeq) {
+      if (proof.seq > expectedSeq && !presentSeqs.has(expectedSeq)) {
+        return fail(
+          record.line,
+          'deleted',
+          `record seq ${expectedSeq}${proof.seq - 1 > expectedSeq ? `-${proof.seq - 1}` : ''} missing before seq ${proof.seq}`
+        );
+      }
+      return fail(record.line, 'reordered', `expected seq ${expectedSeq}, found seq ${proof.seq}`);
+    }
+
+    if (proof.chain_hash !== previousHash) {
+      return fail(record.line, 'broken_link', 'chain_hash does not match previous record (previous record modified)');
+    }
+
+    if (publicKey) {
+      if (!proof.signature) {
+        return fail(record.line, 'unsigned', 'record has no signature');
+      }
+      if (!verifyRecordSignature(record.raw, publicKey)) {
+        return fail(record.line, 'bad_signature', 'signature does not verify');
+      }
+    }
+
+    previousHash = hashLine(record.raw);
+    expectedSeq++;
+    report.verified_records++;
+  }
+
+  return report;
+}
+
+/**
+ * Verifies a hash-chained log file
+ * @param logPath - Log file path
+ * @param publicKeyPem - Optional PEM public key for signature checks
+ * @param allowLegacy - Accept unchained leading records
+ */
+export function verifyLogFile(logPath: string, publicKeyPem?: string, allowLegacy = false): ChainVerification {
+  const content = fs.readFileSync(logPath, 'utf-8');
+  return verifyChain(content, publicKeyPem ? createPublicKey(publicKeyPem) : undefined, undefined, allowLegacy);
+}
+
+function verifyRecordSignature(raw: string, publicKey: KeyObject): boolean {
+  const record = JSON.parse(raw);
+  const signature = Buffer.from(record.proof.signature, 'base64');
+  delete record.proof.signature;
+
+  // Records signed before canonical serialization signed the line's own key order
+  return [canonicalize(record), JSON.stringify(record)].some((payload) =>
+    verify(null, Buffer.from(payload, 'utf-8'), publicKey, signature)
+  );
+}
+
+function parseProof(line: string): ChainProof | undefined {
+  try {
+    const proof = JSON.parse(line).proof;
+    if (proof && typeof proof.seq === 'number' && typeof proof.chain_hash === 'string') {
+      return proof;
+    }
+  } catch {
+    // Malformed line - treated as unchained
+  }
+  return undefined;
+}
+
+/**
+ * Reads the last non-empty line of a file without loading the whole file
+ * @returns The line, or null if the file is empty or does not exist
+ */
+export function readLastLineSync(filePath: string): string | null {
+  let fd: number;
+  try {
+    fd = fs.openSync(filePath, 'r');
+  } catch {
+    return null; // Log does not exist yet
+  }
+
+  try {
+    const size = fs.fstatSync(fd).size;
+    const chunkSize = 64 * 1024;
+    let position = size;
+    let tail = Buffer.alloc(0);
+
+    while (position > 0) {
+      const length = Math.min(chunkSize, position);
+      position -= length;
+
+      const chunk = Buffer.alloc(length);
+      fs.readSync(fd, chunk, 0, length, position);
+      tail = Buffer.concat([chunk, tail]);
+
+      // Strip trailing newlines, then look for the line break before the last line
+      let end = tail.length;
+      while (end > 0 && tail[end - 1] === 0x0a) end--;
+      const newline = tail.lastIndexOf(0x0a, end - 1);
+
+      if (newline !== -1 && end > 0) {
+        return tail.subarray(newline + 1, end).toString('utf-8');
+      }
+      if (position === 0) {
+        return end > 0 ? tail.subarray(0, end).toString('utf-8') : null;
+      }
+    }
+
+    return null;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
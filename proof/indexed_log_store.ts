@@ -0,0 +1,213 @@
+/**
+ * Indexed Log Store
+ *
+ * Hash-chained JSONL data file plus a sidecar index (<name>.index.jsonl)
+ * with one line per record: byte offset and length in the data file,
+ * decision_hash, session_id, verdict, event_type and time. The index is
+ * loaded into lookup maps on first use; lookups by decision_hash,
+ * session_id and verdict read only the matching records from the data file.
+ *
+ * The data file is the source of truth: records the index does not cover
+ * (a crash between the two appends, or a log written by another backend)
+ * are indexed from the data file when the index is loaded. Before each
+ * append or query the data file's size is compared with the size the
+ * index was loaded at, and the index is reloaded if another process has
+ * appended since, so long-running readers see every record.
+ */
+
+import type { KeyObject } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChainVerification, chainRecord, readLastLineSync, verifyChain } from './hash_chain';
+import type { DecisionEvent } from './decision_event';
+import type { DecisionEventQuery, DecisionLogStore } from './log_store';
+import { matchesQuery, toEpochMs } from './log_store';
+import { upgradeLegacyRecord } from './log_migration';
+
+export interface IndexEntry {
+  offset: number;
+  length: number; // Bytes, without the newline
+  decision_hash?: string;
+  session_id?: string;
+  verdict?: string;
+  event_type?: string;
+  time: number; // Epoch ms (NaN if the record has no valid timestamp)
+}
+
+export class IndexedLogStore implements DecisionLogStore {
+  readonly backend = 'indexed' as const;
+
+  private entries: IndexEntry[] | null = null;
+  private loadedSize = 0; // Data file size the entries cover
+  private byDecisionHash = new Map<string, number[]>();
+  private bySession = new Map<string, number[]>();
+  private byVerdict = new Map<string, number[]>();
+
+  constructor(readonly logPath: string) {}
+
+  append(event: DecisionEvent): void {
+    const entries = this.load();
+    const line = chainRecord(event, readLastLineSync(this.logPath));
+    const offset = fs.existsSync(this.logPath) ? fs.statSync(this.logPath).size : 0;
+
+    fs.appendFileSync(this.logPath, line + '\n', 'utf-8');
+
+    const entry = indexEntry(event, offset, Buffer.byteLength(line, 'utf-8'));
+    fs.appendFileSync(this.indexPath(), JSON.stringify(entry) + '\n', 'utf-8');
+    this.addEntry(entries, entry);
+
+    // Still current unless another process appended in between
+    if (offset === this.loadedSize) this.loadedSize = offset + entry.length + 1;
+  }
+
+  query(query: DecisionEventQuery = {}): DecisionEvent[] {
+    const entries = this.load();
+    const candidates = this.candidates(entries, query);
+    const events: DecisionEvent[] = [];
+
+    const fd = fs.openSync(this.logPath, 'r');
+    try {
+      for (const position of candidates) {
+        const { offset, length } = entries[position];
+        const buffer = Buffer.alloc(length);
+        fs.readSync(fd, buffer, 0, length, offset);
+
+        const raw = buffer.toString('utf-8');
+        const event = upgradeLegacyRecord(JSON.parse(raw), raw);
+        if (!matchesQuery(event, query)) continue;
+
+        events.push(event);
+        if (query.limit !== undefined && events.length >= query.limit) break;
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    return events;
+  }
+
+  readContent(): string {
+    return fs.existsSync(this.logPath) ? fs.readFileSync(this.logPath, 'utf-8') : '';
+  }
+
+  verify(publicKey?: KeyObject, allowLegacy = false): ChainVerification {
+    return verifyChain(this.readContent(), publicKey, undefined, allowLegacy);
+  }
+
+  /**
+   * Positions of the entries that can match, in log order
+   */
+  private candidates(entries: IndexEntry[], query: DecisionEventQuery): number[] {
+    const lookups = [
+      query.decision_hash !== undefined ? this.byDecisionHash.get(query.decision_hash) ?? [] : null,
+      query.session_id !== undefined ? this.bySession.get(query.session_id) ?? [] : null,
+      query.verdict !== undefined ? this.byVerdict.get(query.verdict) ?? [] : null,
+    ].filter((positions): positions is number[] => positions !== null);
+
+    let positions = lookups.length > 0
+      ? lookups.reduce((smallest, next) => (next.length < smallest.length ? next : smallest))
+      : entries.map((_, position) => position);
+
+    if (query.since !== undefined || query.until !== undefined) {
+      const since = query.since !== undefined ? toEpochMs(query.since) : -Infinity;
+      const until = query.until !== undefined ? toEpochMs(query.until) : Infinity;
+      positions = positions.filter((position) => entries[position].time >= since && entries[position].time < until);
+    }
+
+    return positions;
+  }
+
+  /**
+   * Loads the index, indexing data-file records it does not cover yet;
+   * reloads it if the data file has grown or shrunk since it was loaded
+   */
+  private load(): IndexEntry[] {
+    const size = fs.existsSync(this.logPath) ? fs.statSync(this.logPath).size : 0;
+    if (this.entries && size === this.loadedSize) return this.entries;
+
+    this.byDecisionHash.clear();
+    this.bySession.clear();
+    this.byVerdict.clear();
+
+    const entries: IndexEntry[] = [];
+    let covered = 0;
+    const indexPath = this.indexPath();
+    if (fs.existsSync(indexPath)) {
+      for (const line of fs.readFileSync(indexPath, 'utf-8').split('\n')) {
+        if (line.trim().length === 0) continue;
+        const entry: IndexEntry = JSON.parse(line);
+        if (entry.offset < covered) continue; // Indexed twice (by two processes)
+        this.addEntry(entries, entry);
+        covered = entry.offset + entry.length + 1;
+      }
+    }
+
+    const missing = this.indexFrom(covered);
+    if (missing.length > 0) {
+      fs.appendFileSync(indexPath, missing.map((entry) => JSON.stringify(entry) + '\n').join(''), 'utf-8');
+      missing.forEach((entry) => this.addEntry(entries, entry));
+    }
+
+    this.entries = entries;
+    this.loadedSize = size;
+    return entries;
+  }
+
+  /**
+   * Index entries for the data-file records starting at a byte offset
+   */
+  private indexFrom(start: number): IndexEntry[] {
+    if (!fs.existsSync(this.logPath)) return [];
+
+    const data = fs.readFileSync(this.logPath);
+    const entries: IndexEntry[] = [];
+    let offset = start;
+
+    while (offset < data.length) {
+      let end = data.indexOf(0x0a, offset);
+      if (end === -1) end = data.length;
+
+      const raw = data.subarray(offset, end).toString('utf-8');
+      if (raw.trim().length > 0) {
+        try {
+          entries.push(indexEntry(upgradeLegacyRecord(JSON.parse(raw), raw), offset, end - offset));
+        } catch {
+          // Malformed line - not indexed, reported by verify()
+        }
+      }
+      offset = end + 1;
+    }
+
+    return entries;
+  }
+
+  private addEntry(entries: IndexEntry[], entry: IndexEntry): void {
+    const position = entries.push(entry) - 1;
+    const add = (map: Map<string, number[]>, key: string | undefined) => {
+      if (key === undefined) return;
+      const positions = map.get(key);
+      if (positions) positions.push(position);
+      else map.set(key, [position]);
+    };
+
+    add(this.byDecisionHash, entry.decision_hash);
+    add(this.bySession, entry.session_id);
+    add(this.byVerdict, entry.verdict);
+  }
+
+  private indexPath(): string {
+    return path.join(path.dirname(this.logPath), `${path.basename(this.logPath, '.jsonl')}.index.jsonl`);
+  }
+}
+
+function indexEntry(event: DecisionEvent, offset: number, length: number): IndexEntry {
+  return {
+    offset,
+    length,
+    ...(event.decision_hash && { decision_hash: event.decision_hash }),
+    ...(event.metadata?.session_id && { session_id: event.metadata.session_id }),
+    ...(event.verdict && { verdict: event.verdict }),
+    ...(event.event_type && { event_type: event.event_type }),
+    time: Date.parse(event.timestamp),
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * JSONL Log Store
+ *
+ * Append-only hash-chained JSONL log with rotation and retention.
+ *
+ * The active file (e.g. openclaw_decisions.jsonl) is rotated once it reaches
+ * rotation.max_bytes or its first record is rotation.max_age_ms old. Rotated
+ * segments are renamed to <name>.<n>.jsonl and gzipped (<name>.<n>.jsonl.gz)
+ * unless compression is off. The chain continues across segments: the first
+ * record of the new active file links to the last record of the previous
+ * segment.
+ *
+ * Retention deletes the oldest rotated segments beyond retention.max_segments
+ * or whose last record is older than retention.max_age_ms. The pruned chain
+ * position is kept as an anchor, so the retained records still verify.
+ *
+ * Segment bookkeeping lives in <name>.segments.json (absent until the first
+ * rotation, so an unrotated log is a plain chained JSONL file).
+ */
+
+import type { KeyObject } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import { ChainAnchor, ChainVerification, chainAnchorOf, chainRecordAfter, readLastLineSync, verifyChain } from './hash_chain';
+import type { DecisionEvent } from './decision_event';
+import type { DecisionEventQuery, DecisionLogStore, LogStoreConfig } from './log_store';
+import { matchesQuery } from './log_store';
+import { readDecisionEvents } from './log_migration';
+
+export interface LogSegment {
+  segment: number;
+  file: string; // Relative to the log directory
+  compressed: boolean;
+  records: number;
+  bytes: number; // Uncompressed size
+  first_timestamp: string | null;
+  last_timestamp: string | null;
+  last: ChainAnchor; // Last record, for the next segment's first link
+}
+
+export interface SegmentIndex {
+  segments: LogSegment[]; // Retained rotated segments, oldest first
+  next_segment: number;
+  active_since: string | null; // Timestamp of the active file's first record
+  pruned: ChainAnchor | null; // Last record of the newest deleted segment
+}
+
+export class JsonlLogStore implements DecisionLogStore {
+  readonly backend = 'jsonl' as const;
+
+  constructor(
+    readonly logPath: string,
+    private readonly config: Pick<LogStoreConfig, 'rotation' | 'compress' | 'retention'>
+  ) {}
+
+  append(event: DecisionEvent): void {
+    const current = this.readIndex();
+    const index = this.shouldRotate(current) ? this.rotate(current) : current;
+
+    const previousLine = readLastLineSync(this.logPath);
+    const lastSegment = index.segments[index.segments.length - 1];
+    const previous = previousLine !== null ? chainAnchorOf(previousLine) : lastSegment?.last ?? index.pruned;
+    fs.appendFileSync(this.logPath, chainRecordAfter(event, previous) + '\n', 'utf-8');
+
+    if (previousLine === null && (index.segments.length > 0 || index.pruned)) {
+      this.writeIndex({ ...index, active_since: event.timestamp });
+    }
+  }
+
+  query(query: DecisionEventQuery = {}): DecisionEvent[] {
+    const matches = readDecisionEvents(this.readContent()).filter((event) => matchesQuery(event, query));
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+
+  readContent(): string {
+    const directory = path.dirname(this.logPath);
+    const segments = this.readIndex().segments.map((segment) => {
+      const raw = fs.readFileSync(path.join(directory, segment.file));
+      return (segment.compressed ? gunzipSync(raw) : raw).toString('utf-8');
+    });
+    const active = fs.existsSync(this.logPath) ? fs.readFileSync(this.logPath, 'utf-8') : '';
+    return [...segments, active].join('');
+  }
+
+  verify(publicKey?: KeyObject, allowLegacy = false): ChainVerification {
+    return verifyChain(this.readContent(), publicKey, this.readIndex().pruned ?? undefined, allowLegacy);
+  }
+
+  /**
+   * Rotated segments and chain bookkeeping
+   */
+  readIndex(): SegmentIndex {
+    const indexPath = this.indexPath();
+    if (!fs.existsSync(indexPath)) {
+      return { segments: [], next_segment: 1, active_since: null, pruned: null };
+    }
+    return JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+  }
+
+  private shouldRotate(index: SegmentIndex): boolean {
+    const { max_bytes, max_age_ms } = this.config.rotation;
+    if (max_bytes === undefined && max_age_ms === undefined) return false;
+
+    const size = fs.existsSync(this.logPath) ? fs.statSync(this.logPath).size : 0;
+    if (size === 0) return false;
+    if (max_bytes !== undefined && size >= max_bytes) return true;
+
+    const since = index.active_since ?? timestampOf(readFirstLine(this.logPath));
+    return max_age_ms !== undefined && since !== null && Date.now() - Date.parse(since) >= max_age_ms;
+  }
+
+  /**
+   * Moves the active file into a new segment, then applies retention
+   * @returns The updated index
+   */
+  private rotate(index: SegmentIndex): SegmentIndex {
+    const content = fs.readFileSync(this.logPath, 'utf-8');
+    const lines = content.split('\n').filter((line) => line.trim().length > 0);
+    const name = path.basename(this.logPath, '.jsonl');
+    const file = `${name}.${String(index.next_segment).padStart(6, '0')}.jsonl${this.config.compress ? '.gz' : ''}`;
+    const segmentPath = path.join(path.dirname(this.logPath), file);
+
+    writeAtomic(segmentPath, this.config.compress ? gzipSync(content) : Buffer.from(content, 'utf-8'));
+
+    const segment: LogSegment = {
+      segment: index.next_segment,
+      file,
+      compressed: this.config.compress,
+      records: lines.length,
+      bytes: Buffer.byteLength(content, 'utf-8'),
+      first_timestamp: timestampOf(lines[0]),
+      last_timestamp: timestampOf(lines[lines.length - 1]),
+      last: chainAnchorOf(lines[lines.length - 1]),
+    };
+
+    // The index is written before the active file is truncated, so a crash in between duplicates rather than loses records
+    const rotated: SegmentIndex = {
+      ...index,
+      segments: [...index.segments, segment],
+      next_segment: index.next_segment + 1,
+      active_since: null,
+    };
+    this.writeIndex(rotated);
+    fs.truncateSync(this.logPath, 0);
+
+    return this.applyRetention(rotated);
+  }
+
+  private applyRetention(index: SegmentIndex): SegmentIndex {
+    const { max_segments, max_age_ms } = this.config.retention;
+    const expired = (segment: LogSegment) =>
+      max_age_ms !== undefined &&
+      segment.last_timestamp !== null &&
+      Date.now() - Date.parse(segment.last_timestamp) > max_age_ms;
+
+    const segments = [...index.segments];
+    let pruned = index.pruned;
+    while (segments.length > 0 && ((max_segments !== undefined && segments.length > max_segments) || expired(segments[0]))) {
+      const oldest = segments.shift() as LogSegment;
+      pruned = oldest.last;
+      fs.rmSync(path.join(path.dirname(this.logPath), oldest.file), { force: true });
+    }
+
+    if (segments.length === index.segments.length) {
+      return index;
+    }
+
+    const retained = { ...index, segments, pruned };
+    this.writeIndex(retained);
+    return retained;
+  }
+
+  private indexPath(): string {
+    return path.join(path.dirname(this.logPath), `${path.basename(this.logPath, '.jsonl')}.segments.json`);
+  }
+
+  private writeIndex(index: SegmentIndex): void {
+    writeAtomic(this.indexPath(), Buffer.from(JSON.stringify(index, null, 2), 'utf-8'));
+  }
+}
+
+function timestampOf(line: string | undefined): string | null {
+  if (!line) return null;
+  try {
+    const timestamp = JSON.parse(line).timestamp;
+    return typeof timestamp === 'string' ? timestamp : typeof timestamp === 'number' ? new Date(timestamp).toISOString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * First line of a file (up to 64 KiB), without reading the whole file
+ */
+function readFirstLine(filePath: string): string | undefined {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(64 * 1024);
+    const length = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, length).toString('utf-8').split('\n', 1)[0];
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function writeAtomic(filePath: string, content: Buffer): void {
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, content);
+  fs.renameSync(tmp, filePath);
+}
@@ -0,0 +1,196 @@
+/**
+ * Legacy Decision Log Migration
+ *
+ * Converts the pre-canonical log formats into canonical decision events:
+ * - decision_log.jsonl records ({ input_sha256, decision, ... }); a fingerprint
+ *   that is not a SHA256 digest is kept in legacy_input_sha256
+ * - openclaw_decisions.jsonl records ({ input, decision, intercepted, source, ... })
+ * - hold transition records ({ event: 'hold_transition', ... })
+ *
+ * Canonical records pass through unchanged (apart from their chain proof,
+ * which is recomputed when the migrated log is written).
+ */
+
+import { createHash } from 'crypto';
+import { computeInputHash, DecisionEvent, normalizeRiskScore, validateDecisionEvent } from './decision_event';
+
+const LEGACY_RISK_SCALE = 10; // Engine scale before policies declared max_score
+const LEGACY_POLICY_ID = 'legacy-unversioned';
+const SHA256_HEX = /^[a-f0-9]{64}$/;
+
+export interface MigrationResult {
+  events: DecisionEvent[];
+  canonical_count: number; // Records already in canonical format
+  migrated_count: number;
+  skipped: { line: number; reason: string }[];
+}
+
+/**
+ * Converts one parsed log record into a canonical event (no validation)
+ * @param record - Parsed JSONL record (legacy or canonical)
+ * @param seed - Stable seed for the generated event_id (e.g. the raw line)
+ * @param holdEvents - Previously converted decisions, keyed by decision_hash
+ * @returns Canonical event
+ * @throws Error if the record format is not recognized
+ */
+export function upgradeLegacyRecord(
+  record: any,
+  seed: string,
+  holdEvents: Map<string, DecisionEvent> = new Map()
+): DecisionEvent {
+  if (record && typeof record.event_id === 'string' && typeof record.verdict === 'string') {
+    const { proof: _proof, ...event } = record;
+    return { event_type: 'decision', ...event };
+  }
+
+  if (record && typeof record.input_sha256 === 'string' && typeof record.decision === 'string') {
+    // Early fingerprints are not 64-hex SHA256 digests; the hashed input is gone, so the
+    // fingerprint is kept as is and input_hash becomes its SHA256
+    const conforming = SHA256_HEX.test(record.input_sha256);
+    return {
+      event_id: deterministicUuid(seed),
+      event_type: 'decision',
+      timestamp: record.timestamp,
+      verdict: record.decision,
+      input_hash: conforming ? record.input_sha256 : createHash('sha256').update(record.input_sha256, 'utf-8').digest('hex'),
+      ...(!conforming && { legacy_input_sha256: record.input_sha256 }),
+      policy_id: record.policy_id ?? LEGACY_POLICY_ID,
+      execution_attempted: Boolean(record.execution_attempted),
+      execution_result: record.execution_result ?? null,
+    };
+  }
+
+  if (record && record.input && record.decision && typeof record.decision === 'object') {
+    const { input, decision } = record;
+    return {
+      event_id: deterministicUuid(seed),
+      event_type: 'decision',
+      timestamp: new Date(decision.timestamp).toISOString(),
+      verdict: decision.verdict,
+      input_hash: computeInputHash(input),
+      policy_id: decision.policy_id ?? LEGACY_POLICY_ID,
+      execution_attempted: false,
+      execution_result: null,
+      risk_score: normalizeRiskScore(decision.risk_score, decision.max_risk_score ?? LEGACY_RISK_SCALE),
+      ...(record.authority_token_id && { authority_token_id: record.authority_token_id }),
+      source: record.source,
+      intercepted: Boolean(record.intercepted),
+      metadata: {
+        ...(input.metadata?.session_id && { session_id: input.metadata.session_id }),
+      },
+      decision_hash: decision.decision_hash,
+      reason: decision.reason,
+      action: input.action,
+      resource: input.resource,
+      arguments: input.arguments,
+      ...(decision.matched_rules && { matched_rules: decision.matched_rules }),
+    };
+  }
+
+  if (record && record.event === 'hold_transition') {
+    const held = holdEvents.get(record.decision_hash);
+    if (!held) {
+      throw new Error(`hold transition references unknown decision ${record.decision_hash}`);
+    }
+
+    return {
+      ...held,
+      event_id: deterministicUuid(seed),
+      event_type: 'hold_transition',
+      timestamp: new Date(record.logged_at ?? Date.parse(held.timestamp)).toISOString(),
+      verdict: record.transition === 'approved' ? 'ALLOW' : 'STOP',
+      reason: `HOLD ${record.transition} by ${record.resolved_by}${record.comment ? `: ${record.comment}` : ''}`,
+      hold: {
+        transition: record.transition,
+        hold_decision_hash: record.decision_hash,
+        resolved_by: record.resolved_by,
+        ...(record.comment && { comment: record.comment }),
+        ...(record.approved_decision_hash && { approved_decision_hash: record.approved_decision_hash }),
+      },
+    };
+  }
+
+  throw new Error('unrecognized log record format');
+}
+
+/**
+ * Migrates a legacy JSONL log into validated canonical events
+ * @param content - Raw JSONL content
+ * @returns Converted events and the records that could not be converted
+ */
+export function migrateLegacyLog(content: string): MigrationResult {
+  const result: MigrationResult = { events: [], canonical_count: 0, migrated_count: 0, skipped: [] };
+  const decisionsByHash = new Map<string, DecisionEvent>();
+
+  content.split('\n').forEach((raw, index) => {
+    if (raw.trim().length === 0) return;
+    const line = index + 1;
+
+    try {
+      const record = JSON.parse(raw);
+      const canonical = typeof record.event_id === 'string';
+      const event = upgradeLegacyRecord(record, raw, decisionsByHash);
+
+      const errors = validateDecisionEvent(event);
+      if (errors.length > 0) {
+        result.skipped.push({ line, reason: errors.join('; ') });
+        return;
+      }
+
+      if (event.event_type === 'decision' && event.decision_hash) {
+        decisionsByHash.set(event.decision_hash, event);
+      }
+
+      result.events.push(event);
+      if (canonical) {
+        result.canonical_count++;
+      } else {
+        result.migrated_count++;
+      }
+    } catch (error) {
+      result.skipped.push({ line, reason: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Reads a log as canonical events, upgrading legacy records on the fly
+ * (lenient: records are not validated, unrecognized lines are dropped)
+ * @param content - Raw JSONL content
+ * @returns Canonical events in log order
+ */
+export function readDecisionEvents(content: string): DecisionEvent[] {
+  const events: DecisionEvent[] = [];
+  const decisionsByHash = new Map<string, DecisionEvent>();
+
+  for (const raw of content.split('\n')) {
+    if (raw.trim().length === 0) continue;
+
+    try {
+      const event = upgradeLegacyRecord(JSON.parse(raw), raw, decisionsByHash);
+      if (event.event_type === 'decision' && event.decision_hash) {
+        decisionsByHash.set(event.decision_hash, event);
+      }
+      events.push(event);
+    } catch {
+      // Not a decision record - skip
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Derives a stable UUIDv4-formatted identifier from a seed, so
+ * re-running a migration yields the same event_ids
+ */
+function deterministicUuid(seed: string): string {
+  const bytes = createHash('sha256').update(seed, 'utf-8').digest().subarray(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
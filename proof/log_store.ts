@@ -0,0 +1,165 @@
+/**
+ * Decision Log Storage
+ *
+ * Storage abstraction for canonical decision events. Both backends keep the
+ * hash-chained JSONL format (hash_chain.ts), so logs stay verifiable
+ * whichever backend wrote them:
+ * - jsonl: append-only JSONL file with size/time-based rotation, gzip of
+ *   rotated segments and retention (jsonl_log_store.ts)
+ * - indexed: single JSONL file plus a sidecar offset index for lookups by
+ *   decision_hash, session_id, verdict and time range (indexed_log_store.ts)
+ *
+ * Configuration (environment):
+ * - EAR_LOG_BACKEND: jsonl (default) | indexed
+ * - EAR_LOG_ROTATE_BYTES / EAR_LOG_ROTATE_INTERVAL_MS: rotate the active jsonl file
+ * - EAR_LOG_COMPRESS: gzip rotated segments (default true)
+ * - EAR_LOG_RETAIN_SEGMENTS / EAR_LOG_RETAIN_MS: delete the oldest rotated segments
+ * - EAR_DECISION_LOG_PATH: decision log of DecisionLogger and the proof tools
+ *   (default ./decision_log.jsonl)
+ */
+
+import type { KeyObject } from 'crypto';
+import { join } from 'path';
+import type { ChainVerification } from './hash_chain';
+import type { DecisionEvent, EventType, EventVerdict } from './decision_event';
+import { JsonlLogStore } from './jsonl_log_store';
+import { IndexedLogStore } from './indexed_log_store';
+
+export type LogBackend = 'jsonl' | 'indexed';
+
+export interface LogStoreConfig {
+  backend: LogBackend;
+  rotation: {
+    max_bytes?: number; // Rotate once the active file reaches this size
+    max_age_ms?: number; // Rotate once the active file's first record is this old
+  };
+  compress: boolean; // gzip rotated segments
+  retention: {
+    max_segments?: number; // Rotated segments to keep
+    max_age_ms?: number; // Delete rotated segments whose last record is older
+  };
+}
+
+export interface DecisionEventQuery {
+  decision_hash?: string;
+  session_id?: string;
+  verdict?: EventVerdict;
+  event_type?: EventType;
+  since?: number | string; // Inclusive, epoch ms or ISO 8601
+  until?: number | string; // Exclusive
+  limit?: number;
+}
+
+export interface DecisionLogStore {
+  readonly backend: LogBackend;
+  readonly logPath: string;
+
+  /**
+   * Appends an event as the next hash-chained record
+   * @throws Error if the log cannot be written
+   */
+  append(event: DecisionEvent): void;
+
+  /**
+   * Events matching every given criterion, in log order
+   */
+  query(query?: DecisionEventQuery): DecisionEvent[];
+
+  /**
+   * Raw JSONL content of every retained record, oldest first
+   */
+  readContent(): string;
+
+  /**
+   * Verifies the hash chain over every retained record
+   * @param allowLegacy - Accept unchained records preceding the chain
+   */
+  verify(publicKey?: KeyObject, allowLegacy?: boolean): ChainVerification;
+}
+
+export const LOG_BACKENDS: LogBackend[] = ['jsonl', 'indexed'];
+
+/**
+ * Reads the log store configuration from the environment
+ * @throws Error if EAR_LOG_BACKEND names an unknown backend
+ */
+export function loadLogStoreConfig(env: NodeJS.ProcessEnv = process.env): LogStoreConfig {
+  const backend = (env.EAR_LOG_BACKEND || 'jsonl') as LogBackend;
+  if (!LOG_BACKENDS.includes(backend)) {
+    throw new Error(`EAR_LOG_BACKEND must be one of ${LOG_BACKENDS.join(', ')} (got "${backend}")`);
+  }
+
+  return {
+    backend,
+    rotation: {
+      max_bytes: positiveInt(env.EAR_LOG_ROTATE_BYTES),
+      max_age_ms: positiveInt(env.EAR_LOG_ROTATE_INTERVAL_MS),
+    },
+    compress: env.EAR_LOG_COMPRESS !== 'false',
+    retention: {
+      max_segments: positiveInt(env.EAR_LOG_RETAIN_SEGMENTS),
+      max_age_ms: positiveInt(env.EAR_LOG_RETAIN_MS),
+    },
+  };
+}
+
+const stores = new Map<string, DecisionLogStore>();
+
+/**
+ * Returns the process-wide store for a log path
+ * @param logPath - Log file path (the active file for jsonl, the data file for indexed)
+ * @param config - Backend configuration (default: from the environment, on first open)
+ */
+export function openLogStore(logPath: string, config?: LogStoreConfig): DecisionLogStore {
+  const existing = stores.get(logPath);
+  if (existing && (!config || existing.backend === config.backend)) {
+    return existing;
+  }
+
+  const resolved = config ?? loadLogStoreConfig();
+  const store =
+    resolved.backend === 'indexed' ? new IndexedLogStore(logPath) : new JsonlLogStore(logPath, resolved);
+  stores.set(logPath, store);
+  return store;
+}
+
+/**
+ * Default decision log path (EAR_DECISION_LOG_PATH or ./decision_log.jsonl)
+ */
+export function defaultDecisionLogPath(): string {
+  return process.env.EAR_DECISION_LOG_PATH || join(process.cwd(), 'decision_log.jsonl');
+}
+
+/**
+ * Whether an event matches a query (limit is applied by the caller)
+ */
+export function matchesQuery(event: DecisionEvent, query: DecisionEventQuery): boolean {
+  if (query.decision_hash !== undefined && event.decision_hash !== query.decision_hash) return false;
+  if (query.session_id !== undefined && event.metadata?.session_id !== query.session_id) return false;
+  if (query.verdict !== undefined && event.verdict !== query.verdict) return false;
+  if (query.event_type !== undefined && event.event_type !== query.event_type) return false;
+
+  const time = Date.parse(event.timestamp);
+  if (query.since !== undefined && !(time >= toEpochMs(query.since))) return false;
+  if (query.until !== undefined && !(time < toEpochMs(query.until))) return false;
+
+  return true;
+}
+
+/**
+ * Converts a query bound to epoch milliseconds
+ * @throws Error if an ISO bound is not a valid date
+ */
+export function toEpochMs(bound: number | string): number {
+  if (typeof bound === 'number') return bound;
+  const time = Date.parse(bound);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid time bound "${bound}"`);
+  }
+  return time;
+}
+
+function positiveInt(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
@@ -0,0 +1,62 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { appendChainedRecordSync } from './hash_chain';
+import { redactDecisionEvent } from './redaction';
+import { migrateLegacyLog } from './log_migration';
+
+/**
+ * Migrate a legacy decision log to canonical decision events
+ *
+ * Usage: tsx proof/migrate_decision_log.ts [log-path] [--out <path>]
+ * Writes a new hash-chained log; the source log is never modified.
+ * Exits 1 if any record could not be converted.
+ */
+function main(args: string[]): number {
+  let logPath = join(process.cwd(), 'decision_log.jsonl');
+  let outPath: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--out') {
+      outPath = args[++i];
+    } else {
+      logPath = args[i];
+    }
+  }
+
+  outPath = outPath || logPath.replace(/\.jsonl$/, '') + '.canonical.jsonl';
+
+  console.log('=== Migrating Decision Log ===\n');
+  console.log(`Source: ${logPath}`);
+  console.log(`Output: ${outPath}\n`);
+
+  if (existsSync(outPath)) {
+    console.error(`✗ Output already exists: ${outPath}`);
+    return 1;
+  }
+
+  const result = migrateLegacyLog(readFileSync(logPath, 'utf-8'));
+
+  // Legacy records carry raw arguments - redact them in the new log
+  for (const event of result.events) {
+    appendChainedRecordSync(outPath, redactDecisionEvent(event));
+  }
+
+  console.log(`Migrated (legacy): ${result.migrated_count}`);
+  console.log(`Already canonical: ${result.canonical_count}`);
+  console.log(`Skipped: ${result.skipped.length}\n`);
+
+  if (result.skipped.length > 0) {
+    console.log('=== Skipped Records ===');
+    result.skipped.forEach((s) => console.log(`[line ${s.line}] ${s.reason}`));
+    console.log();
+    return 1;
+  }
+
+  console.log('✓ Migration complete\n');
+  return 0;
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  process.exit(main(process.argv.slice(2)));
+}
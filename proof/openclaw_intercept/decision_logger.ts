@@ -1,93 +1,132 @@
 /**
- * OpenClaw Decision Logger - Extended from base decision_logger
+ * OpenClaw Decision Logger
  *
- * Logs OpenClaw-specific decisions with source field and intercepted flag.
+ * Writes canonical decision events (contracts/decision_event.schema.json)
+ * to the hash-chained decision log (log_store.ts) and updates the segmented
+ * proof manifest.
+ * Secrets and PII are redacted before anything is written (redaction.ts).
+ * The log directory defaults to this directory (override: EAR_OPENCLAW_LOG_DIR).
  */
 
-import * as fs from 'fs/promises';
 import * as path from 'path';
-import { Decision, DecisionInput } from '../../integrations/openclaw/decision_engine';
+import { openLogStore } from '../log_store';
+import { assertValidDecisionEvent, DecisionEvent } from '../decision_event';
+import { redactDecisionEvent } from '../redaction';
+import { repoPath } from '../repo_paths';
+import { getManifestWriter, ManifestEntry } from './manifest_writer';
 
-export interface OpenClawDecisionLog {
-  input: DecisionInput;
-  decision: Decision;
-  intercepted: boolean;
-  source: string;
-  logged_at?: number; // Optional - will be added by logger
-}
+const DEFAULT_LOG_DIR = repoPath('proof', 'openclaw_intercept');
+
+export type DecisionEventListener = (event: DecisionEvent) => void;
 
-const DECISION_LOG_PATH = path.join(__dirname, 'openclaw_decisions.jsonl');
-const PROOF_MANIFEST_PATH = path.join(__dirname, 'proof_manifest.json');
+// Error code of failed log and manifest writes (see isLogWriteFailure)
+const LOG_WRITE_FAILED = 'EAR_LOG_WRITE_FAILED';
+
+const listeners = new Set<DecisionEventListener>();
 
 /**
- * Logs OpenClaw decision to JSONL file and updates proof manifest
- * @param log - OpenClaw decision log entry
- * @returns Path to proof artifact
+ * Returns the path of the OpenClaw decision log
  */
-export async function logOpenClawDecision(log: OpenClawDecisionLog): Promise<string> {
-  const timestamp = Date.now();
-  const logEntry = {
-    ...log,
-    logged_at: timestamp,
-  };
-
-  // Append to JSONL decision log
-  const jsonlLine = JSON.stringify(logEntry) + '\n';
-  await fs.appendFile(DECISION_LOG_PATH, jsonlLine, 'utf-8');
+export function getDecisionLogPath(): string {
+  return path.join(process.env.EAR_OPENCLAW_LOG_DIR || DEFAULT_LOG_DIR, 'openclaw_decisions.jsonl');
+}
 
-  // Update proof manifest
-  await updateProofManifest(logEntry);
+/**
+ * Returns the path of the OpenClaw proof manifest
+ */
+export function getProofManifestPath(): string {
+  return path.join(process.env.EAR_OPENCLAW_LOG_DIR || DEFAULT_LOG_DIR, 'proof_manifest.json');
+}
 
-  return PROOF_MANIFEST_PATH;
+/**
+ * Subscribes to events after they have been appended to the log
+ * @param listener - Called with every logged event (exceptions are ignored)
+ * @returns Unsubscribe function
+ */
+export function onDecisionEvent(listener: DecisionEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
 }
 
 /**
- * Updates proof manifest with OpenClaw-specific fields
- * @param logEntry - Decision log entry
+ * Logs a canonical decision event and updates the proof manifest
+ *
+ * Every append runs under the manifest lock (see manifest_writer.ts), so
+ * processes sharing the log cannot fork its hash chain, and a decision is
+ * appended in the same locked step as its manifest entry: the entry is
+ * written first and taken back out if the append fails. A STOP is kept in
+ * the log even if the manifest cannot be written; an ALLOW or HOLD is not
+ * logged then, leaving no record of a verdict that was not enforced.
+ *
+ * @param raw - Decision event (redacted, then validated against the contract schema)
+ * @param signal - Aborted once the caller has failed closed; nothing is logged after that
+ * @returns Path to proof artifact
+ * @throws Error if the event does not satisfy the contract, or if the log or
+ *   manifest cannot be written (see isLogWriteFailure)
  */
-async function updateProofManifest(logEntry: OpenClawDecisionLog): Promise<void> {
-  let manifest: any = {
-    decisions: [],
-    metadata: {
-      source: 'openclaw_mock',
-      intercepted: true,
-      generated_at: Date.now(),
-    },
+export async function logDecisionEvent(raw: DecisionEvent, signal?: AbortSignal): Promise<string> {
+  const event = redactDecisionEvent(raw);
+  assertValidDecisionEvent(event);
+
+  // Append to the hash-chained decision log (backend selected by EAR_LOG_BACKEND)
+  const store = openLogStore(getDecisionLogPath());
+  const commit = () => {
+    if (signal?.aborted) {
+      throw new Error('the decision pipeline was abandoned (failed closed)');
+    }
+    store.append(event);
   };
 
-  // Read existing manifest if it exists
   try {
-    const existing = await fs.readFile(PROOF_MANIFEST_PATH, 'utf-8');
-    manifest = JSON.parse(existing);
-  } catch (err) {
-    // File doesn't exist, use default manifest
+    // Only verdict decisions are summarized in the manifest
+    if (event.event_type === 'decision') {
+      await updateProofManifest(event, commit);
+    } else {
+      await getManifestWriter(getProofManifestPath()).commit(commit);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw Object.assign(new Error(`Decision log write failed: ${message}`), { code: LOG_WRITE_FAILED });
   }
 
-  // Add new decision entry
-  manifest.decisions.push({
-    verdict: logEntry.decision.verdict,
-    action: logEntry.input.action,
-    resource: logEntry.input.resource,
-    risk_score: logEntry.decision.risk_score,
-    decision_hash: logEntry.decision.decision_hash,
-    timestamp: logEntry.decision.timestamp,
-    intercepted: logEntry.intercepted,
-    source: logEntry.source,
-  });
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[DECISION_LOGGER] Event listener failed:', error);
+    }
+  }
 
-  // Update metadata
-  manifest.metadata = {
-    source: 'openclaw_mock',
-    intercepted: true,
-    runtime_contract_version: 'EAR_INTERCEPT_v1',
-    structural_absence_verified: true,
-    total_decisions: manifest.decisions.length,
-    stop_count: manifest.decisions.filter((d: any) => d.verdict === 'STOP').length,
-    hold_count: manifest.decisions.filter((d: any) => d.verdict === 'HOLD').length,
-    allow_count: manifest.decisions.filter((d: any) => d.verdict === 'ALLOW').length,
-    generated_at: Date.now(),
-  };
+  return getProofManifestPath();
+}
 
-  // Write updated manifest
-  await fs.writeFile(PROOF_MANIFEST_PATH, JSON.stringify(manifest, null, 2), 'utf-8');
+/**
+ * Whether an error was thrown because the decision log or manifest could not be written
+ */
+export function isLogWriteFailure(error: unknown): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === LOG_WRITE_FAILED;
+}
+
+/**
+ * Adds the decision to the proof manifest (serialized, atomic and segmented - see manifest_writer.ts)
+ * @param event - Decision event
+ * @param commit - Log append to run in the same locked step
+ */
+async function updateProofManifest(event: DecisionEvent, commit: () => void): Promise<void> {
+  const entry: ManifestEntry = {
+    event_id: event.event_id,
+    verdict: event.verdict,
+    action: event.action,
+    resource: event.resource,
+    risk_score: event.risk_score,
+    risk_factors: event.risk_factors ?? [],
+    policy_id: event.policy_id,
+    decision_hash: event.decision_hash,
+    timestamp: event.timestamp,
+    intercepted: event.intercepted,
+    source: event.source,
+  };
+  await getManifestWriter(getProofManifestPath()).append(entry, commit, { keep_on_failure: event.verdict === 'STOP' });
 }
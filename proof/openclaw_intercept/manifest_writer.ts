@@ -0,0 +1,399 @@
+/**
+ * OpenClaw Proof Manifest Writer
+ *
+ * Appends decision entries to the OpenClaw proof manifest without losing
+ * updates under concurrency:
+ * - in-process: entries are queued per manifest and applied in batches,
+ *   one read-modify-write per batch
+ * - across processes: each batch holds `<manifest>.lock` (created
+ *   exclusively; locks older than the stale timeout are renamed aside
+ *   atomically and removed)
+ * - every file is written to a temp file and renamed into place
+ * - commit callbacks (decision log appends) run under the same lock, in
+ *   queue order, so concurrent processes cannot fork the log's hash chain
+ *   and nothing is committed for an entry that never gets the lock
+ * - an entry is written before its commit runs and taken back out if the
+ *   commit fails, so the manifest and the log agree either way
+ *
+ * The manifest is segmented so a write never grows with the decision count:
+ * proof_manifest.json holds the open segment's decisions, the cumulative
+ * metadata and an index of sealed segments. Once the open segment reaches
+ * the segment size it is sealed into proof_manifest.<n>.json (written once,
+ * its canonical SHA256 recorded in the index).
+ *
+ * Options: EAR_MANIFEST_SEGMENT_SIZE (default 1000 decisions),
+ * EAR_MANIFEST_LOCK_TIMEOUT_MS (default 10 seconds)
+ */
+
+import type { Stats } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { canonicalHash } from '../canonical_json';
+import type { EventVerdict } from '../decision_event';
+
+const DEFAULT_SEGMENT_SIZE = 1000;
+const DEFAULT_LOCK_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_LOCK_MS = 30_000;
+const LOCK_RETRY_MS = 5;
+
+export interface ManifestEntry {
+  event_id: string;
+  verdict: EventVerdict;
+  source?: string;
+  [field: string]: any;
+}
+
+export interface ManifestSegment {
+  segment: number;
+  file: string; // Relative to the manifest directory
+  decision_count: number;
+  stop_count: number;
+  hold_count: number;
+  allow_count: number;
+  sources: string[];
+  sha256: string; // Canonical hash of the segment file
+}
+
+export interface OpenClawManifest {
+  decisions: ManifestEntry[]; // Open segment
+  segments: ManifestSegment[]; // Sealed segments, oldest first
+  metadata: Record<string, any>;
+}
+
+export interface ManifestAppendOptions {
+  keep_on_failure?: boolean; // Commit even if the manifest cannot be read or written (STOP records)
+}
+
+export interface ManifestWriterOptions {
+  segment_size?: number;
+  lock_timeout_ms?: number;
+  stale_lock_ms?: number;
+}
+
+interface PendingEntry {
+  entry?: ManifestEntry; // Absent for commits without a manifest entry
+  commit?: () => void;
+  keep_on_failure?: boolean;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Serialized, atomic, segmented writer for one manifest file
+ */
+export class ManifestWriter {
+  private pending: PendingEntry[] = [];
+  private flushing = false;
+  private readonly segmentSize: number;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+
+  constructor(
+    private readonly manifestPath: string,
+    options: ManifestWriterOptions = {}
+  ) {
+    this.segmentSize =
+      options.segment_size ?? positiveInt(process.env.EAR_MANIFEST_SEGMENT_SIZE) ?? DEFAULT_SEGMENT_SIZE;
+    this.lockTimeoutMs =
+      options.lock_timeout_ms ?? positiveInt(process.env.EAR_MANIFEST_LOCK_TIMEOUT_MS) ?? DEFAULT_LOCK_TIMEOUT_MS;
+    this.staleLockMs = options.stale_lock_ms ?? DEFAULT_STALE_LOCK_MS;
+  }
+
+  /**
+   * Queues an entry; resolves once it is durably in the manifest
+   * @param entry - Decision entry
+   * @param commit - Runs under the manifest lock once the entry is written;
+   *   if it throws, the entry is taken back out and the promise rejects
+   * @param options - Whether to commit when the manifest cannot be written
+   * @throws Error if the manifest cannot be locked, read or written
+   */
+  append(entry: ManifestEntry, commit?: () => void, options: ManifestAppendOptions = {}): Promise<void> {
+    return this.enqueue({ entry, commit, keep_on_failure: options.keep_on_failure });
+  }
+
+  /**
+   * Runs a commit without a manifest entry under the manifest lock, in
+   * queue order with the entries (e.g. a non-decision log record)
+   * @param commit - Commit callback
+   * @throws Error if the lock cannot be acquired or the commit throws
+   */
+  commit(commit: () => void): Promise<void> {
+    return this.enqueue({ commit });
+  }
+
+  /**
+   * Reads the manifest (empty manifest if none exists yet)
+   * @throws Error if the manifest is not valid JSON
+   */
+  async read(): Promise<OpenClawManifest> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.manifestPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { decisions: [], segments: [], metadata: { intercepted: true, generated_at: Date.now() } };
+      }
+      throw error;
+    }
+
+    const manifest = JSON.parse(content);
+    return { ...manifest, decisions: manifest.decisions ?? [], segments: manifest.segments ?? [] };
+  }
+
+  private enqueue(pending: Omit<PendingEntry, 'resolve' | 'reject'>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ ...pending, resolve, reject });
+      if (!this.flushing) {
+        this.flushing = true;
+        void this.flush();
+      }
+    });
+  }
+
+  /**
+   * Applies queued entries batch by batch until the queue is empty
+   */
+  private async flush(): Promise<void> {
+    while (this.pending.length > 0) {
+      const batch = this.pending.splice(0);
+      try {
+        const failed = await this.withLock(() => this.applyBatch(batch));
+        batch.forEach((pending) => (failed.has(pending) ? pending.reject(failed.get(pending)) : pending.resolve()));
+      } catch (error) {
+        batch.forEach((pending) => pending.reject(error));
+      }
+    }
+    this.flushing = false;
+  }
+
+  /**
+   * Adds and commits a batch of entries
+   * The manifest is written first and the commits run after it, so a failed
+   * manifest write commits nothing but commits without an entry and entries
+   * kept on failure; entries whose commit fails are taken back out.
+   * @returns Entries that failed (commit or manifest write), with the error
+   */
+  private async applyBatch(batch: PendingEntry[]): Promise<Map<PendingEntry, unknown>> {
+    const failed = new Map<PendingEntry, unknown>();
+    const entries = batch.filter((pending) => pending.entry);
+
+    let original: OpenClawManifest;
+    try {
+      original = await this.read();
+      if (entries.length > 0) await this.write(original, entries);
+    } catch (error) {
+      return this.commitWithoutManifest(batch, error, failed);
+    }
+
+    for (const pending of batch) {
+      try {
+        pending.commit?.();
+      } catch (error) {
+        failed.set(pending, error);
+      }
+    }
+
+    const uncommitted = entries.filter((pending) => failed.has(pending));
+    if (uncommitted.length > 0) {
+      try {
+        await this.write(original, entries.filter((pending) => !failed.has(pending)));
+      } catch (error) {
+        console.error(`[MANIFEST_WRITER] Could not remove ${uncommitted.length} uncommitted entries from ${this.manifestPath}:`, error);
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Writes the manifest: a base manifest plus entries, sealing full segments
+   */
+  private async write(base: OpenClawManifest, entries: PendingEntry[]): Promise<void> {
+    const manifest: OpenClawManifest = { ...base, decisions: [...base.decisions], segments: [...base.segments] };
+
+    for (const { entry } of entries) {
+      manifest.decisions.push(entry!);
+      if (manifest.decisions.length >= this.segmentSize) {
+        manifest.segments.push(await this.seal(manifest.segments.length + 1, manifest.decisions));
+        manifest.decisions = [];
+      }
+    }
+
+    manifest.metadata = summarize(manifest);
+    await writeAtomic(this.manifestPath, JSON.stringify(manifest, null, 2));
+  }
+
+  /**
+   * Handles a batch whose manifest cannot be read or written: commits what
+   * may stand without a manifest entry and fails every entry
+   */
+  private commitWithoutManifest(
+    batch: PendingEntry[],
+    error: unknown,
+    failed: Map<PendingEntry, unknown>
+  ): Map<PendingEntry, unknown> {
+    for (const pending of batch) {
+      if (!pending.entry || pending.keep_on_failure) {
+        try {
+          pending.commit?.();
+        } catch (commitError) {
+          failed.set(pending, commitError);
+          continue;
+        }
+      }
+      if (pending.entry) failed.set(pending, error);
+    }
+    return failed;
+  }
+
+  /**
+   * Writes a sealed segment and returns its index entry
+   */
+  private async seal(segment: number, decisions: ManifestEntry[]): Promise<ManifestSegment> {
+    const file = `${path.basename(this.manifestPath, '.json')}.${String(segment).padStart(6, '0')}.json`;
+    const content = { segment, sealed_at: new Date().toISOString(), decisions };
+    await writeAtomic(path.join(path.dirname(this.manifestPath), file), JSON.stringify(content, null, 2));
+
+    return {
+      segment,
+      file,
+      ...countVerdicts(decisions),
+      sources: uniqueSources(decisions),
+      sha256: canonicalHash(content),
+    };
+  }
+
+  /**
+   * Runs `fn` while holding the manifest lock file
+   * @throws Error if the lock is not acquired within the lock timeout
+   */
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.manifestPath}.lock`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+    await fs.mkdir(path.dirname(this.manifestPath), { recursive: true });
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.writeFile(`${process.pid}\n`, 'utf-8');
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      if (await this.breakStaleLock(lockPath)) continue;
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${this.lockTimeoutMs}ms waiting for manifest lock ${lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Breaks the lock if it is older than the stale timeout
+   * The lock is renamed aside atomically, so of several processes breaking
+   * it only one succeeds; if it was re-acquired since it was found stale
+   * (another file, or touched since), it is put back.
+   * @returns Whether to retry acquiring the lock right away
+   */
+  private async breakStaleLock(lockPath: string): Promise<boolean> {
+    let found: Stats;
+    try {
+      found = await fs.stat(lockPath);
+    } catch {
+      return true; // Released in the meantime
+    }
+    if (Date.now() - found.mtimeMs < this.staleLockMs) return false;
+
+    const moved = `${lockPath}.${process.pid}.${randomUUID()}.stale`;
+    try {
+      await fs.rename(lockPath, moved);
+    } catch {
+      return true; // Released or broken by another process in the meantime
+    }
+
+    try {
+      const stats = await fs.stat(moved);
+      if (stats.ino !== found.ino || stats.mtimeMs !== found.mtimeMs) {
+        await fs.link(moved, lockPath).catch(() => undefined); // Never replaces a newer lock
+        return false;
+      }
+      console.error(`[MANIFEST_WRITER] Removed stale manifest lock ${lockPath}`);
+      return true;
+    } finally {
+      await fs.rm(moved, { force: true });
+    }
+  }
+}
+
+const writers = new Map<string, ManifestWriter>();
+
+/**
+ * Returns the process-wide writer for a manifest path
+ */
+export function getManifestWriter(manifestPath: string): ManifestWriter {
+  let writer = writers.get(manifestPath);
+  if (!writer) {
+    writer = new ManifestWriter(manifestPath);
+    writers.set(manifestPath, writer);
+  }
+  return writer;
+}
+
+/**
+ * Cumulative metadata over the sealed segments and the open segment
+ */
+function summarize(manifest: OpenClawManifest): Record<string, any> {
+  const open = countVerdicts(manifest.decisions);
+  const sum = (key: keyof ReturnType<typeof countVerdicts>) =>
+    manifest.segments.reduce((total, segment) => total + segment[key], open[key]);
+
+  return {
+    sources: Array.from(new Set([...manifest.segments.flatMap((s) => s.sources), ...uniqueSources(manifest.decisions)])),
+    intercepted: true,
+    runtime_contract_version: 'EAR_INTERCEPT_v1',
+    structural_absence_verified: true,
+    total_decisions: sum('decision_count'),
+    stop_count: sum('stop_count'),
+    hold_count: sum('hold_count'),
+    allow_count: sum('allow_count'),
+    segment_count: manifest.segments.length,
+    generated_at: Date.now(),
+  };
+}
+
+function countVerdicts(decisions: ManifestEntry[]) {
+  return {
+    decision_count: decisions.length,
+    stop_count: decisions.filter((d) => d.verdict === 'STOP').length,
+    hold_count: decisions.filter((d) => d.verdict === 'HOLD').length,
+    allow_count: decisions.filter((d) => d.verdict === 'ALLOW').length,
+  };
+}
+
+function uniqueSources(decisions: ManifestEntry[]): string[] {
+  return Array.from(new Set(decisions.map((d) => d.source).filter((s): s is string => !!s)));
+}
+
+async function writeAtomic(filePath: string, content: string): Promise<void> {
+  const tmp = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tmp, content, 'utf-8');
+    await fs.rename(tmp, filePath);
+  } catch (error) {
+    await fs.rm(tmp, { force: true });
+    throw error;
+  }
+}
+
+function positiveInt(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
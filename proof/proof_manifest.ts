@@ -0,0 +1,374 @@
+/**
+ * Proof Manifest Integrity
+ *
+ * A proof manifest summarizes the decisions of one session of a decision
+ * log. Its integrity data never lives inside the file it protects:
+ * - merkle_root: RFC 6962 Merkle tree over the canonical (RFC 8785) JSON
+ *   of every included decision, in log order
+ * - detached digest (<manifest>.digest.json): SHA256 of the canonical
+ *   manifest, optionally Ed25519-signed (EAR_MANIFEST_SIGNING_KEY, PKCS8 PEM)
+ *
+ * Execution counts come from the execution_outcome events linked (by
+ * decision_hash) to the included decisions. verifyManifest recomputes both
+ * digests and checks the manifest against its source log: the included
+ * decisions must be the session's first leaf_count logged decisions, so a
+ * manifest stays valid while the session goes on.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, KeyObject, sign, verify } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { canonicalHash, canonicalize } from './canonical_json';
+import type { DecisionEvent } from './decision_event';
+import { readDecisionEvents } from './log_migration';
+import { openLogStore } from './log_store';
+
+export const MANIFEST_FORMAT = 'ear-proof-manifest/2';
+export const MERKLE_ALGORITHM = 'sha256-rfc6962';
+export const NO_SESSION = 'unassigned'; // Session of decisions logged without metadata.session_id
+
+export interface AdversarialVerification {
+  total_tests: number;
+  pass_count: number;
+  fail_count: number;
+  pass_rate: number;
+  generated_at: string;
+}
+
+export interface ProofManifest {
+  format: typeof MANIFEST_FORMAT;
+  generated_at: string;
+  session_id: string;
+  log_file: string;
+  total_decisions: number;
+  stop_count: number;
+  hold_count: number;
+  allow_count: number;
+  execution_success_count: number;
+  execution_error_count: number;
+  adversarial_verification?: AdversarialVerification;
+  merkle: {
+    algorithm: typeof MERKLE_ALGORITHM;
+    leaf_count: number;
+    root: string;
+  };
+  decisions: DecisionEvent[];
+}
+
+/**
+ * Detached digest written next to the manifest
+ */
+export interface ManifestDigest {
+  manifest: string; // Manifest file name
+  algorithm: 'sha256';
+  canonicalization: 'RFC8785';
+  digest: string;
+  signature?: {
+    algorithm: 'ed25519';
+    value: string; // Base64 signature over the digest (hex string, UTF-8)
+  };
+}
+
+export interface ManifestCheck {
+  check: 'manifest' | 'digest' | 'signature' | 'merkle_root' | 'counts' | 'source_log' | 'log_chain';
+  ok: boolean;
+  message: string;
+}
+
+export interface ManifestVerification {
+  valid: boolean;
+  checks: ManifestCheck[];
+}
+
+/**
+ * Session a decision belongs to
+ */
+export function sessionOf(event: DecisionEvent): string {
+  return event.metadata?.session_id ?? NO_SESSION;
+}
+
+/**
+ * Groups decisions by session_id, keeping log order within each session
+ * @returns Sessions ordered by their first decision
+ */
+export function groupBySession(decisions: DecisionEvent[]): Map<string, DecisionEvent[]> {
+  const sessions = new Map<string, DecisionEvent[]>();
+  for (const decision of decisions) {
+    const id = sessionOf(decision);
+    sessions.set(id, [...(sessions.get(id) ?? []), decision]);
+  }
+  return sessions;
+}
+
+/**
+ * Selects one session's decisions
+ * @param decisions - All decisions in log order
+ * @param sessionId - Session to select (default: session of the latest decision)
+ * @throws Error if the session has no decisions
+ */
+export function selectSession(
+  decisions: DecisionEvent[],
+  sessionId?: string
+): { session_id: string; decisions: DecisionEvent[] } {
+  const selected = sessionId ?? (decisions.length > 0 ? sessionOf(decisions[decisions.length - 1]) : NO_SESSION);
+  const sessionDecisions = groupBySession(decisions).get(selected);
+  if (!sessionDecisions) {
+    throw new Error(`Session ${selected} not found`);
+  }
+  return { session_id: selected, decisions: sessionDecisions };
+}
+
+/**
+ * RFC 6962 leaf hash of a decision: SHA256(0x00 || canonical JSON)
+ */
+export function merkleLeafHash(decision: DecisionEvent): Buffer {
+  return createHash('sha256').update(Buffer.from([0x00])).update(canonicalize(decision), 'utf-8').digest();
+}
+
+/**
+ * RFC 6962 Merkle tree hash over the decisions (empty tree: SHA256 of "")
+ * @param decisions - Decisions in log order
+ * @returns Hex root
+ */
+export function computeMerkleRoot(decisions: DecisionEvent[]): string {
+  const treeHash = (leaves: Buffer[]): Buffer => {
+    if (leaves.length === 0) return createHash('sha256').digest();
+    if (leaves.length === 1) return leaves[0];
+
+    // Split at the largest power of two smaller than the leaf count
+    let split = 1;
+    while (split * 2 < leaves.length) split *= 2;
+
+    return createHash('sha256')
+      .update(Buffer.from([0x01]))
+      .update(treeHash(leaves.slice(0, split)))
+      .update(treeHash(leaves.slice(split)))
+      .digest();
+  };
+
+  return treeHash(decisions.map(merkleLeafHash)).toString('hex');
+}
+
+/**
+ * Builds a manifest for one session's decisions
+ * @param sessionId - Session the decisions belong to
+ * @param decisions - The session's decisions in log order
+ * @param logFile - Source log path
+ * @param adversarial - Adversarial verification summary to include
+ * @param outcomes - Execution outcome events (those linked to the decisions are counted)
+ */
+export function buildManifest(
+  sessionId: string,
+  decisions: DecisionEvent[],
+  logFile: string,
+  adversarial?: AdversarialVerification | null,
+  outcomes: DecisionEvent[] = []
+): ProofManifest {
+  return {
+    format: MANIFEST_FORMAT,
+    generated_at: new Date().toISOString(),
+    session_id: sessionId,
+    log_file: logFile,
+    ...summarizeDecisions(decisions, outcomes),
+    ...(adversarial && { adversarial_verification: adversarial }),
+    merkle: {
+      algorithm: MERKLE_ALGORITHM,
+      leaf_count: decisions.length,
+      root: computeMerkleRoot(decisions),
+    },
+    decisions,
+  };
+}
+
+/**
+ * SHA256 of the canonical manifest - independent of how the file is formatted
+ */
+export function computeManifestDigest(manifest: ProofManifest): string {
+  return canonicalHash(manifest);
+}
+
+/**
+ * Path of the detached digest for a manifest file
+ */
+export function digestPathFor(manifestPath: string): string {
+  return manifestPath.replace(/\.json$/, '') + '.digest.json';
+}
+
+/**
+ * Writes a manifest and its detached (optionally signed) digest
+ * @param manifestPath - Manifest file path
+ * @param manifest - Manifest
+ * @param signingKey - Ed25519 private key (default: EAR_MANIFEST_SIGNING_KEY, if set)
+ * @returns The detached digest
+ */
+export function writeManifest(
+  manifestPath: string,
+  manifest: ProofManifest,
+  signingKey: KeyObject | null = defaultSigningKey()
+): ManifestDigest {
+  const digest = computeManifestDigest(manifest);
+  const detached: ManifestDigest = {
+    manifest: manifestPath.slice(manifestPath.lastIndexOf('/') + 1),
+    algorithm: 'sha256',
+    canonicalization: 'RFC8785',
+    digest,
+    ...(signingKey && {
+      signature: {
+        algorithm: 'ed25519' as const,
+        value: sign(null, Buffer.from(digest, 'utf-8'), signingKey).toString('base64'),
+      },
+    }),
+  };
+
+  writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+  writeFileSync(digestPathFor(manifestPath), JSON.stringify(detached, null, 2) + '\n', 'utf-8');
+  return detached;
+}
+
+/**
+ * Verifies a manifest: detached digest, signature, Merkle root, counts and
+ * (when the source log is readable) that it matches the session's
+ * decisions in the log and that the log's hash chain is intact.
+ * A missing or unreadable manifest, digest or signature fails its check.
+ * @param manifestPath - Manifest file path
+ * @param options - Source log override, public key for signature checks, and
+ *   whether unchained legacy records in the source log are accepted
+ * @returns One result per check; valid when all pass
+ */
+export function verifyManifest(
+  manifestPath: string,
+  options: { logPath?: string; publicKeyPem?: string; allowLegacy?: boolean } = {}
+): ManifestVerification {
+  const checks: ManifestCheck[] = [];
+  const result = (check: ManifestCheck['check'], ok: boolean, message: string) => checks.push({ check, ok, message });
+  const done = (): ManifestVerification => ({ valid: checks.every((c) => c.ok), checks });
+
+  let manifest: ProofManifest;
+  try {
+    manifest = readJson(manifestPath);
+    if (!manifest || typeof manifest !== 'object' || Array.isArray(manifest)) {
+      throw new Error('not a JSON object');
+    }
+  } catch (error) {
+    result('manifest', false, `cannot read manifest ${manifestPath}: ${errorMessage(error)}`);
+    return done();
+  }
+
+  const digestPath = digestPathFor(manifestPath);
+  const digest = computeManifestDigest(manifest);
+
+  let detached: ManifestDigest | undefined;
+  try {
+    detached = existsSync(digestPath) ? readJson(digestPath) : undefined;
+    if (detached === undefined) {
+      result('digest', false, `detached digest ${digestPath} not found`);
+    } else {
+      result(
+        'digest',
+        detached.digest === digest,
+        detached.digest === digest ? `sha256 ${digest}` : `manifest digest ${digest} does not match ${detached.digest}`
+      );
+    }
+  } catch (error) {
+    result('digest', false, `cannot read detached digest ${digestPath}: ${errorMessage(error)}`);
+  }
+
+  if (detached && options.publicKeyPem) {
+    try {
+      const signed =
+        !!detached.signature &&
+        verify(null, Buffer.from(detached.digest, 'utf-8'), createPublicKey(options.publicKeyPem), Buffer.from(detached.signature.value, 'base64'));
+      result('signature', signed, signed ? 'ed25519 signature valid' : detached.signature ? 'signature does not verify' : 'digest is not signed');
+    } catch (error) {
+      result('signature', false, `cannot check signature: ${errorMessage(error)}`);
+    }
+  }
+
+  const decisions = manifest.decisions ?? [];
+  const root = computeMerkleRoot(decisions);
+  const rootOk = root === manifest.merkle?.root && decisions.length === manifest.merkle?.leaf_count;
+  result('merkle_root', rootOk, rootOk ? `root ${root} over ${decisions.length} decisions` : `recomputed root ${root} does not match ${manifest.merkle?.root}`);
+
+  const logPath = options.logPath ?? manifest.log_file;
+  const store = logPath && existsSync(logPath) ? openLogStore(logPath) : null;
+  const events = store ? readDecisionEvents(store.readContent()) : [];
+
+  // Outcomes logged after the manifest was generated are not part of it
+  const generatedAt = Date.parse(manifest.generated_at);
+  const outcomes = events.filter(
+    (event) => event.event_type === 'execution_outcome' && Date.parse(event.timestamp) <= generatedAt
+  );
+  const counts = summarizeDecisions(decisions, outcomes);
+  const mismatched = (Object.keys(counts) as (keyof typeof counts)[]).filter(
+    (key) => manifest[key] !== counts[key] && (store !== null || !key.startsWith('execution_'))
+  );
+  result(
+    'counts',
+    mismatched.length === 0,
+    mismatched.length > 0
+      ? `counts differ: ${mismatched.join(', ')}`
+      : store
+        ? 'verdict and execution counts match'
+        : 'verdict counts match (execution counts need the source log)'
+  );
+
+  if (!store) {
+    result('source_log', false, `source log ${logPath} not found`);
+    return done();
+  }
+
+  const leafCount = manifest.merkle?.leaf_count ?? 0;
+  const logged = events.filter((event) => event.event_type === 'decision' && sessionOf(event) === manifest.session_id);
+  const logRoot = computeMerkleRoot(logged.slice(0, leafCount));
+  const sourceOk = logged.length >= leafCount && logRoot === manifest.merkle?.root;
+  result(
+    'source_log',
+    sourceOk,
+    sourceOk
+      ? `matches the first ${leafCount} of ${logged.length} decisions of session ${manifest.session_id} in ${logPath}`
+      : logged.length < leafCount
+        ? `session ${manifest.session_id} in ${logPath} has ${logged.length} decisions, fewer than ${leafCount}`
+        : `first ${leafCount} decisions of session ${manifest.session_id} in ${logPath} have root ${logRoot}`
+  );
+
+  const chain = store.verify(undefined, options.allowLegacy);
+  const legacy = chain.legacy_records > 0 ? ` (${chain.legacy_records} unchained legacy records accepted)` : '';
+  result(
+    'log_chain',
+    chain.valid,
+    chain.valid
+      ? `${chain.verified_records} chained records intact${legacy}`
+      : `chain broken at line ${chain.first_break?.line} (${chain.first_break?.kind})`
+  );
+
+  return done();
+}
+
+/**
+ * Verdict counts of the decisions, and execution counts of the outcomes
+ * linked to them by decision_hash
+ */
+function summarizeDecisions(decisions: DecisionEvent[], outcomes: DecisionEvent[]) {
+  const hashes = new Set(decisions.flatMap((d) => (d.decision_hash ? [d.decision_hash] : [])));
+  const linked = outcomes.filter((event) => event.decision_hash !== undefined && hashes.has(event.decision_hash));
+
+  return {
+    total_decisions: decisions.length,
+    stop_count: decisions.filter((d) => d.verdict === 'STOP').length,
+    hold_count: decisions.filter((d) => d.verdict === 'HOLD').length,
+    allow_count: decisions.filter((d) => d.verdict === 'ALLOW').length,
+    execution_success_count: linked.filter((event) => event.execution_result === 'success').length,
+    execution_error_count: linked.filter((event) => event.execution_result === 'error').length,
+  };
+}
+
+function defaultSigningKey(): KeyObject | null {
+  return process.env.EAR_MANIFEST_SIGNING_KEY ? createPrivateKey(process.env.EAR_MANIFEST_SIGNING_KEY) : null;
+}
+
+function readJson(filePath: string): any {
+  return JSON.parse(readFileSync(filePath, 'utf-8'));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,239 @@
+/**
+ * Secret and PII Redaction
+ *
+ * Replaces secrets (private keys, cloud and API tokens, passwords, JWTs)
+ * and personal data (email addresses, card numbers) in tool call arguments
+ * before they reach the decision log, the proof manifest or the decision
+ * stream. Each value becomes a placeholder carrying a salted digest,
+ * `[REDACTED:aws-access-key:3f9c0a12b7de44c1]`, so an auditor holding the
+ * raw value (and the salt) can still confirm which secret a record refers
+ * to with matchesRedacted.
+ *
+ * Decision and input hashes are computed over the redacted form (see
+ * computeDecisionHash), so logged records stay verifiable without the raw
+ * values.
+ *
+ * The salt comes from EAR_REDACTION_SALT; without it a random per-process
+ * salt is used, so digests cannot be compared across restarts.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { isCredentialKey } from '../integrations/openclaw/argument_analyzer';
+import type { DecisionEvent } from './decision_event';
+
+export type RedactionKind =
+  | 'private-key'
+  | 'aws-access-key'
+  | 'github-token'
+  | 'slack-token'
+  | 'api-key'
+  | 'jwt'
+  | 'bearer-token'
+  | 'url-password'
+  | 'secret-assignment'
+  | 'credential-field'
+  | 'email'
+  | 'card-number';
+
+export interface Redaction {
+  path: string; // e.g. 'arguments.env.AWS_SECRET_ACCESS_KEY', 'reason'
+  kind: RedactionKind;
+}
+
+interface SecretPattern {
+  kind: RedactionKind;
+  pattern: RegExp; // Global; when it has a capture group, only the last group is redacted
+  accept?: (value: string) => boolean;
+}
+
+/**
+ * Patterns applied to every string, in order (longer, more specific
+ * secrets first so e.g. a JWT is not half-eaten by the bearer pattern)
+ */
+const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    kind: 'private-key',
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z0-9 ]*PRIVATE KEY-----|$)/g,
+  },
+  { kind: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { kind: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'api-key', pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  { kind: 'bearer-token', pattern: /\b((?:Bearer|Basic)\s+)([A-Za-z0-9._~+/-]{8,}=*)/gi },
+  { kind: 'url-password', pattern: /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)([^\s@/]+)(?=@)/gi },
+  {
+    kind: 'secret-assignment',
+    pattern:
+      /((?<![A-Za-z0-9])(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret|secret[_-]?access[_-]?key)\s*[=:]\s*["']?)([^\s"'&;,]+)/gi,
+  },
+  {
+    kind: 'secret-assignment',
+    pattern: /(--?(?:password|passwd|secret|token|api-?key)\s+["']?)([^\s"'&;,-][^\s"'&;,]*)/gi,
+  },
+  { kind: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g },
+  { kind: 'card-number', pattern: /\b(?:4\d{3}|5[1-5]\d{2}|3[47]\d{2}|6011)(?:[ -]?\d){9,15}\b/g, accept: luhnValid },
+];
+
+const PLACEHOLDER = /^\[REDACTED:([a-z-]+):([0-9a-f]{16})\]$/;
+const EMBEDDED_PLACEHOLDER = /(\[REDACTED:[a-z-]+:[0-9a-f]{16}\])/;
+
+let processSalt: Buffer | undefined;
+
+/**
+ * Salted digest of a redacted value (first 16 hex chars of HMAC-SHA256)
+ */
+export function redactionDigest(value: string): string {
+  const salt = process.env.EAR_REDACTION_SALT || (processSalt ??= randomBytes(32)).toString('hex');
+  return createHmac('sha256', salt).update(value, 'utf-8').digest('hex').slice(0, 16);
+}
+
+/**
+ * Builds the placeholder that replaces a secret
+ * @param kind - What was redacted
+ * @param value - Raw value
+ * @returns e.g. `[REDACTED:email:0c3f5e1a9b2d4c6e]`
+ */
+export function redactionPlaceholder(kind: RedactionKind, value: string): string {
+  return `[REDACTED:${kind}:${redactionDigest(value)}]`;
+}
+
+/**
+ * Checks whether a placeholder stands for a raw value
+ * (requires the salt the placeholder was produced with)
+ * @param placeholder - Placeholder from a log record
+ * @param value - Candidate raw value
+ */
+export function matchesRedacted(placeholder: string, value: string): boolean {
+  const parsed = PLACEHOLDER.exec(placeholder);
+  return parsed !== null && parsed[2] === redactionDigest(value);
+}
+
+/**
+ * Redacts secrets and PII inside a string
+ * @param text - Text to scan
+ * @returns Redacted text and the kinds of values replaced
+ */
+export function redactString(text: string): { text: string; kinds: RedactionKind[] } {
+  const kinds: RedactionKind[] = [];
+  let redacted = text;
+
+  for (const { kind, pattern, accept } of SECRET_PATTERNS) {
+    // Placeholders of earlier patterns (odd segments) are never rescanned
+    redacted = redacted
+      .split(EMBEDDED_PLACEHOLDER)
+      .map((segment, i) =>
+        i % 2 === 1
+          ? segment
+          : segment.replace(pattern, (match: string, ...groups: any[]) => {
+              const captures = groups.slice(0, -2).filter((g): g is string => typeof g === 'string');
+              const secret = captures.length > 0 ? captures[captures.length - 1] : match;
+              if (accept && !accept(secret)) return match;
+
+              kinds.push(kind);
+              const prefix = captures.slice(0, -1).join('');
+              return prefix + redactionPlaceholder(kind, secret);
+            })
+      )
+      .join('');
+  }
+
+  return { text: redacted, kinds };
+}
+
+/**
+ * Redacts an argument tree: values under credential keys (password,
+ * api_key, token, ...) are replaced whole, other strings are scanned
+ * @param value - Argument value
+ * @param path - Path of the value, used in the returned redactions
+ * @returns Redacted copy (the input is not modified) and what was replaced
+ */
+export function redactValue<T>(value: T, path: string = 'arguments'): { value: T; redactions: Redaction[] } {
+  const redactions: Redaction[] = [];
+
+  const visit = (current: any, currentPath: string, key: string | undefined): any => {
+    if (typeof current === 'string') {
+      if (PLACEHOLDER.test(current)) return current;
+      if (key !== undefined && current.length > 0 && isCredentialKey(key)) {
+        redactions.push({ path: currentPath, kind: 'credential-field' });
+        return redactionPlaceholder('credential-field', current);
+      }
+      const { text, kinds } = redactString(current);
+      kinds.forEach((kind) => redactions.push({ path: currentPath, kind }));
+      return text;
+    }
+    if (typeof current === 'number' && key !== undefined && isCredentialKey(key)) {
+      redactions.push({ path: currentPath, kind: 'credential-field' });
+      return redactionPlaceholder('credential-field', String(current));
+    }
+    if (Array.isArray(current)) {
+      return current.map((item, i) => visit(item, `${currentPath}[${i}]`, key));
+    }
+    if (current !== null && typeof current === 'object') {
+      return Object.fromEntries(
+        Object.entries(current).map(([childKey, child]) => [childKey, visit(child, `${currentPath}.${childKey}`, childKey)])
+      );
+    }
+    return current;
+  };
+
+  return { value: visit(value, path, undefined), redactions };
+}
+
+/**
+ * Redacted form of tool call arguments (as logged and hashed)
+ */
+export function redactArguments(args: Record<string, any>): Record<string, any> {
+  return redactValue(args).value;
+}
+
+/**
+ * Redacts every free-form field of a decision event before it is written
+ * (arguments, resource, reason, risk factor evidence, hold comments and
+ * execution errors); the replaced paths are listed in `redactions`
+ * @param event - Event as built by the handlers
+ * @returns Redacted copy
+ */
+export function redactDecisionEvent(event: DecisionEvent): DecisionEvent {
+  const redactions: Redaction[] = [...(event.redactions ?? [])];
+  const scan = <T>(value: T, path: string): T => {
+    const result = redactValue(value, path);
+    redactions.push(...result.redactions);
+    return result.value;
+  };
+
+  const redacted: DecisionEvent = {
+    ...event,
+    ...(event.arguments && { arguments: scan(event.arguments, 'arguments') }),
+    ...(event.resource !== undefined && { resource: scan(event.resource, 'resource') }),
+    ...(event.reason !== undefined && { reason: scan(event.reason, 'reason') }),
+    ...(event.risk_factors && {
+      risk_factors: event.risk_factors.map((factor, i) =>
+        factor.evidence === undefined ? factor : { ...factor, evidence: scan(factor.evidence, `risk_factors[${i}].evidence`) }
+      ),
+    }),
+    ...(event.hold?.comment !== undefined && { hold: { ...event.hold, comment: scan(event.hold.comment, 'hold.comment') } }),
+    ...(event.execution?.error !== undefined && {
+      execution: { ...event.execution, error: scan(event.execution.error, 'execution.error') },
+    }),
+  };
+
+  return redactions.length > 0 ? { ...redacted, redactions } : redacted;
+}
+
+/**
+ * Luhn checksum (card numbers)
+ */
+function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
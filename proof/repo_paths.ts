@@ -0,0 +1,22 @@
+/**
+ * Repository Paths
+ *
+ * Resolves files shipped with the repository (the default policy, skills,
+ * the OpenClaw log directory) the same way under CommonJS (jest, compiled
+ * builds) and under tsx, which runs scripts as ES modules: there __dirname
+ * is undefined, and the scripts are run from the repository root.
+ */
+
+import * as path from 'path';
+
+// This file lives in proof/, one level below the root
+const REPO_ROOT = typeof __dirname !== 'undefined' ? path.join(__dirname, '..') : process.cwd();
+
+/**
+ * Resolves a path relative to the repository root
+ * @param segments - Path segments, e.g. ('integrations', 'openclaw')
+ * @returns Absolute path
+ */
+export function repoPath(...segments: string[]): string {
+  return path.join(REPO_ROOT, ...segments);
+}
@@ -1,11 +1,15 @@
 import { readFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
+import { receiveToolCall, OpenClawToolCall } from '../integrations/openclaw/openclaw_adapter';
+import type { RiskFactor } from '../src/types/risk_factor';
 
 interface AdversarialTest {
   id: string;
   type: string;
   description: string;
-  input: string;
+  input: string; // Shell command line, sent as execute_command { command: input }
+  tool_name?: string; // Overrides the execute_command wrapper
+  arguments?: Record<string, any>;
   expected_decision: 'STOP' | 'HOLD' | 'ALLOW';
 }
 
@@ -17,6 +21,10 @@ interface TestResult {
   expected_decision: string;
   actual_decision: string;
   passed: boolean;
+  decision_hash?: string;
+  reason?: string;
+  risk_factors?: RiskFactor[];
+  error?: string;
 }
 
 interface AdversarialReport {
@@ -29,78 +37,19 @@ interface AdversarialReport {
   all_results: TestResult[];
 }
 
-class AdversarialDecisionEngine {
-  /**
-   * Simulates execution authority decision layer with heuristic-based policy.
-   * In production, this would integrate with actual EAR gateway.
-   */
-  private dangerousPatterns = [
-    // File system destruction
-    /rm\s+-rf\s+\/|del\s+\/[SF]/i,
-    /shred|wipe|dd\s+if=/i,
-
-    // Privilege escalation
-    /sudo\s+(su|bash|sh)|sudo\s+-i/i,
-    /chmod\s+\+s|setuid|setgid/i,
-
-    // Network exfiltration
-    /curl.*\|\s*bash|wget.*\|\s*sh/i,
-    /nc\s+.*-e|ncat.*-e/i,
-    /\/dev\/tcp\/.*attacker/i,
-
-    // Credential access
-    /cat.*\/etc\/shadow|cat.*\/etc\/passwd/i,
-    /cat.*\.aws\/credentials|cat.*\.ssh/i,
-
-    // Command injection
-    /;\s*curl|&&\s*wget|`.*curl/i,
-    /\$\(.*curl|\$\(.*wget/i,
-
-    // Reverse shells
-    /bash\s+-i.*\/dev\/tcp|nc.*-lvp/i,
-
-    // System override attempts
-    /EAR_POLICY_OVERRIDE|DISABLE_AUTH|BYPASS_CHECK/i,
-
-    // Prompt injection markers
-    /ignore\s+all\s+previous\s+instructions|developer\s+mode/i,
-    /system:\s*override|admin:\s*execute/i
-  ];
-
-  decide(input: string): 'STOP' | 'HOLD' | 'ALLOW' {
-    // Check against dangerous patterns
-    for (const pattern of this.dangerousPatterns) {
-      if (pattern.test(input)) {
-        return 'STOP';
-      }
-    }
-
-    // Suspicious but not immediately dangerous
-    const suspiciousPatterns = [
-      /sudo\s+\w+/i,
-      /curl\s+http/i,
-      /eval\s*\(/i
-    ];
-
-    for (const pattern of suspiciousPatterns) {
-      if (pattern.test(input)) {
-        return 'HOLD';
-      }
-    }
-
-    return 'ALLOW';
-  }
-}
-
+/**
+ * Runs the adversarial suite through the shipping OpenClaw path:
+ * each case becomes a tool call passed to receiveToolCall (decision
+ * engine, policy, detectors, handlers and decision log), so the pass
+ * rate reflects what production would decide.
+ */
 class AdversarialTestRunner {
   private testsPath: string;
   private reportPath: string;
-  private engine: AdversarialDecisionEngine;
 
   constructor(testsPath?: string, reportPath?: string) {
     this.testsPath = testsPath || join(process.cwd(), 'proof', 'adversarial_tests.json');
     this.reportPath = reportPath || join(process.cwd(), 'proof', 'adversarial_report.json');
-    this.engine = new AdversarialDecisionEngine();
   }
 
   /**
@@ -117,41 +66,71 @@ class AdversarialTestRunner {
   }
 
   /**
-   * Run a single test case through decision layer
+   * Builds the OpenClaw tool call for a test case
    */
-  private runTest(test: AdversarialTest): TestResult {
-    const actualDecision = this.engine.decide(test.input);
-    const passed = actualDecision === test.expected_decision;
-
+  private toToolCall(test: AdversarialTest): OpenClawToolCall {
     return {
+      tool_name: test.tool_name ?? 'execute_command',
+      arguments: test.arguments ?? { command: test.input },
+      metadata: {
+        source: 'adversarial_suite',
+        timestamp: Date.now(),
+        session_id: `adversarial-${test.id}`,
+      },
+    };
+  }
+
+  /**
+   * Run a single test case through receiveToolCall (never executes)
+   */
+  private async runTest(test: AdversarialTest): Promise<TestResult> {
+    const base = {
       id: test.id,
       type: test.type,
       description: test.description,
       input: test.input,
       expected_decision: test.expected_decision,
-      actual_decision: actualDecision,
-      passed
     };
+
+    try {
+      const result = await receiveToolCall(this.toToolCall(test));
+
+      return {
+        ...base,
+        actual_decision: result.verdict,
+        passed: result.verdict === test.expected_decision,
+        decision_hash: result.decision_hash,
+        reason: result.reason,
+        risk_factors: result.risk_factors,
+      };
+    } catch (error) {
+      return {
+        ...base,
+        actual_decision: 'ERROR',
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
   }
 
   /**
    * Run all adversarial tests and generate report
    */
-  run(): void {
+  async run(): Promise<AdversarialReport | undefined> {
     console.log('=== Running Adversarial Verification Suite ===\n');
 
     const tests = this.loadTests();
     if (tests.length === 0) {
       console.log('No tests found. Exiting.');
-      return;
+      return undefined;
     }
 
     console.log(`Loaded ${tests.length} adversarial test case(s)\n`);
 
-    // Run all tests
+    // Run all tests sequentially (decision log appends stay in order)
     const results: TestResult[] = [];
     for (const test of tests) {
-      const result = this.runTest(test);
+      const result = await this.runTest(test);
       results.push(result);
 
       const status = result.passed ? '✓ PASS' : '✗ FAIL';
@@ -197,6 +176,8 @@ class AdversarialTestRunner {
       });
       console.log();
     }
+
+    return report;
   }
 }
 
@@ -206,4 +187,4 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   runner.run();
 }
 
-export { AdversarialTestRunner, AdversarialDecisionEngine };
+export { AdversarialTestRunner };
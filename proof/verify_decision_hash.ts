@@ -0,0 +1,59 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { verifyDecisionHashes } from './decision_hash';
+
+/**
+ * Recompute decision hashes from a decision log
+ *
+ * Usage: tsx proof/verify_decision_hash.ts [log-path] [--hash <decision_hash>]
+ * Exits 1 if any logged decision does not match its decision_hash
+ * (or the requested hash is not in the log).
+ */
+function main(args: string[]): number {
+  let logPath = join(process.cwd(), 'proof', 'openclaw_intercept', 'openclaw_decisions.jsonl');
+  let onlyHash: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--hash') {
+      onlyHash = args[++i];
+    } else {
+      logPath = args[i];
+    }
+  }
+
+  console.log('=== Verifying Decision Hashes ===\n');
+  console.log(`Log File: ${logPath}`);
+
+  const report = verifyDecisionHashes(readFileSync(logPath, 'utf-8'), onlyHash);
+
+  console.log(`Decisions Checked: ${report.checked}`);
+  console.log(`Valid: ${report.counts.valid}`);
+  console.log(`Legacy (pre-canonical): ${report.counts.legacy}`);
+  console.log(`Unverifiable: ${report.counts.unverifiable}`);
+  console.log(`Mismatched: ${report.counts.mismatch}\n`);
+
+  for (const check of report.checks.filter((c) => c.status === 'mismatch' || c.status === 'unverifiable')) {
+    console.log(`${check.status === 'mismatch' ? '✗' : '?'} line ${check.line} ${check.decision_hash}: ${check.message}`);
+    if (check.recomputed) {
+      console.log(`  recomputed ${check.recomputed}`);
+    }
+  }
+
+  if (onlyHash && report.checked === 0) {
+    console.log(`✗ Decision ${onlyHash} not found\n`);
+    return 1;
+  }
+
+  if (!report.valid) {
+    console.log('\n✗ Decision hash verification failed\n');
+    return 1;
+  }
+
+  console.log('✓ Decision hashes verified\n');
+  return 0;
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  process.exit(main(process.argv.slice(2)));
+}
@@ -0,0 +1,54 @@
+import { createPublicKey } from 'crypto';
+import { readFileSync } from 'fs';
+import { defaultDecisionLogPath, openLogStore } from './log_store';
+
+/**
+ * Verify a hash-chained decision log
+ *
+ * Usage: tsx proof/verify_decision_log.ts [log-path] [--public-key <pem-file>] [--allow-legacy]
+ * Rotated segments of the log are verified with it.
+ * Exits 1 on the first broken link, deleted line, reordered entry or bad signature,
+ * and on unchained legacy records unless --allow-legacy is given.
+ */
+function main(args: string[]): number {
+  let logPath = defaultDecisionLogPath();
+  let publicKeyPem: string | undefined;
+  let allowLegacy = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--public-key') {
+      publicKeyPem = readFileSync(args[++i], 'utf-8');
+    } else if (args[i] === '--allow-legacy') {
+      allowLegacy = true;
+    } else {
+      logPath = args[i];
+    }
+  }
+
+  console.log('=== Verifying Decision Log Chain ===\n');
+  console.log(`Log File: ${logPath}`);
+
+  const report = openLogStore(logPath).verify(publicKeyPem ? createPublicKey(publicKeyPem) : undefined, allowLegacy);
+
+  console.log(`Total Records: ${report.total_records}`);
+  console.log(`Legacy (unchained) Records: ${report.legacy_records}`);
+  console.log(`Verified Records: ${report.verified_records}`);
+  console.log(`Signatures Checked: ${publicKeyPem ? 'yes' : 'no'}\n`);
+
+  if (!report.valid && report.first_break) {
+    console.log(`✗ Chain broken at line ${report.first_break.line} (${report.first_break.kind})`);
+    console.log(`  ${report.first_break.message}${report.legacy_records > 0 ? ' (--allow-legacy accepts them)' : ''}\n`);
+    return 1;
+  }
+
+  if (report.legacy_records > 0) {
+    console.log(`⚠ ${report.legacy_records} legacy (unchained) record(s) accepted (--allow-legacy); they are not tamper-evident`);
+  }
+  console.log('✓ Hash chain intact\n');
+  return 0;
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  process.exit(main(process.argv.slice(2)));
+}
@@ -0,0 +1,59 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { verifyManifest } from './proof_manifest';
+
+/**
+ * Verify a proof manifest against its detached digest and source log
+ *
+ * Usage: tsx proof/verify_manifest.ts [manifest-path] [--log <log-path>] [--public-key <pem-file>] [--allow-legacy]
+ * Exits 1 if any check fails (a missing or unreadable manifest included).
+ * The signature is checked only when a public key is given. Unchained
+ * legacy records in the source log fail the chain check unless
+ * --allow-legacy is given.
+ */
+function main(args: string[]): number {
+  let manifestPath = join(process.cwd(), 'proof', 'proof_manifest.json');
+  let logPath: string | undefined;
+  let publicKeyPem: string | undefined;
+  let allowLegacy = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--log') {
+      logPath = args[++i];
+    } else if (args[i] === '--public-key') {
+      const keyPath = args[++i];
+      try {
+        publicKeyPem = readFileSync(keyPath, 'utf-8');
+      } catch (error) {
+        console.error(`Cannot read public key ${keyPath}: ${error instanceof Error ? error.message : String(error)}`);
+        return 1;
+      }
+    } else if (args[i] === '--allow-legacy') {
+      allowLegacy = true;
+    } else {
+      manifestPath = args[i];
+    }
+  }
+
+  console.log('=== Verifying Proof Manifest ===\n');
+  console.log(`Manifest: ${manifestPath}\n`);
+
+  const report = verifyManifest(manifestPath, { logPath, publicKeyPem, allowLegacy });
+
+  for (const check of report.checks) {
+    console.log(`${check.ok ? '✓' : '✗'} ${check.check}: ${check.message}`);
+  }
+
+  if (!report.valid) {
+    console.log('\n✗ Manifest verification failed\n');
+    return 1;
+  }
+
+  console.log('\n✓ Manifest verified\n');
+  return 0;
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  process.exit(main(process.argv.slice(2)));
+}
@@ -7,50 +7,70 @@
 
 import { ExecutionCapability } from '../types/execution_capability';
 import { Decision, DecisionInput } from '../../integrations/openclaw/decision_engine';
-import { logOpenClawDecision } from '../../proof/openclaw_intercept/decision_logger';
+import { logDecisionEvent } from '../../proof/openclaw_intercept/decision_logger';
+import { toDecisionEvent } from '../../proof/decision_event';
 import { createExecutionFunction } from '../executor/allow_execution';
+import { issueAuthorityToken } from '../authority/authority_token';
 
 /**
  * Handles ALLOW verdict - creates execution capability
  *
+ * Issues a signed authority token bound to the proposal; the execute
+ * function verifies it before the executor is reached.
+ *
  * CRITICAL: This function DOES import executor module
  * This file is EXCLUDED from STOP builds via tsconfig.stop.json
  *
  * @param decision - ALLOW decision from decision engine
  * @param input - Original decision input
  * @param payload - Original tool call payload
+ * @param signal - Aborted once the pipeline has failed closed
  * @returns ExecutionCapability<'ALLOW'> with execute function
  */
 export async function handleAllowVerdict(
   decision: Decision,
   input: DecisionInput,
-  payload: { tool_name: string; arguments: Record<string, any> }
+  payload: { tool_name: string; arguments: Record<string, any> },
+  signal?: AbortSignal
 ): Promise<ExecutionCapability<'ALLOW'>> {
-  const proofPath = await logOpenClawDecision({
-    input,
-    decision,
-    intercepted: false,
-    source: 'openclaw_mock',
-  });
+  // Issue authority token bound to this exact proposal
+  const token = issueAuthorityToken(
+    { action: payload.tool_name, arguments: payload.arguments },
+    { decision_hash: decision.decision_hash, policy_version: decision.policy_id }
+  );
+
+  const proofPath = await logDecisionEvent(
+    toDecisionEvent(decision, input, {
+      source: input.metadata.source,
+      intercepted: false,
+      authority_token_id: token.token_id,
+    }),
+    signal
+  );
 
   // Create execution context from payload
   const executionContext = {
     tool_name: payload.tool_name,
     arguments: payload.arguments,
+    resource: input.resource,
     metadata: {
-      source: 'openclaw',
+      source: input.metadata.source,
       timestamp: Date.now(),
+      session_id: input.metadata.session_id,
+      decision_hash: decision.decision_hash,
+      policy_id: decision.policy_id,
     },
   };
 
-  // Create execute function using executor module
-  const executeFunction = createExecutionFunction(executionContext);
+  // Create execute function using executor module (gated on the token)
+  const executeFunction = createExecutionFunction(executionContext, token);
 
   return {
     verdict: 'ALLOW',
     proof_path: proofPath,
     decision_hash: decision.decision_hash,
     reason: decision.reason || 'Execution allowed',
+    risk_factors: decision.risk_factors,
     executed: false,
     execute: executeFunction,
   };
@@ -7,33 +7,48 @@
 
 import { ExecutionCapability } from '../types/execution_capability';
 import { Decision, DecisionInput } from '../../integrations/openclaw/decision_engine';
-import { logOpenClawDecision } from '../../proof/openclaw_intercept/decision_logger';
+import { logDecisionEvent } from '../../proof/openclaw_intercept/decision_logger';
+import { toDecisionEvent } from '../../proof/decision_event';
+import { recordPendingHold } from '../../integrations/openclaw/approval_store';
+import type { OpenClawToolCall } from '../../integrations/openclaw/openclaw_adapter';
 
 /**
  * Handles HOLD verdict - no execution capability
  *
+ * Once the HOLD is logged, the original tool call is persisted as a pending
+ * approval keyed by decision_hash (see hold_approvals.ts to approve/reject
+ * it later). A HOLD that could not be logged, or whose pipeline already
+ * failed closed, is never recorded, so it cannot be approved into an ALLOW.
+ *
  * CRITICAL: This function does NOT import or reference executor module
  *
  * @param decision - HOLD decision from decision engine
  * @param input - Original decision input
+ * @param payload - Original tool call payload
+ * @param signal - Aborted once the pipeline has failed closed
  * @returns ExecutionCapability<'HOLD'> with no execute function
  */
 export async function handleHoldVerdict(
   decision: Decision,
-  input: DecisionInput
+  input: DecisionInput,
+  payload: OpenClawToolCall,
+  signal?: AbortSignal
 ): Promise<ExecutionCapability<'HOLD'>> {
-  const proofPath = await logOpenClawDecision({
-    input,
-    decision,
-    intercepted: true,
-    source: 'openclaw_mock',
-  });
+  const proofPath = await logDecisionEvent(
+    toDecisionEvent(decision, input, { source: input.metadata.source, intercepted: true }),
+    signal
+  );
+
+  if (!signal?.aborted) {
+    recordPendingHold(decision, input, payload);
+  }
 
   return {
     verdict: 'HOLD',
     proof_path: proofPath,
     decision_hash: decision.decision_hash,
     reason: decision.reason || 'External approval required',
+    risk_factors: decision.risk_factors,
     executed: false,
     requires_approval: true,
     // NO execute property - type system and binary separation enforce this
@@ -7,7 +7,8 @@
 
 import { ExecutionCapability } from '../types/execution_capability';
 import { Decision, DecisionInput } from '../../integrations/openclaw/decision_engine';
-import { logOpenClawDecision } from '../../proof/openclaw_intercept/decision_logger';
+import { logDecisionEvent } from '../../proof/openclaw_intercept/decision_logger';
+import { toDecisionEvent } from '../../proof/decision_event';
 
 /**
  * Handles STOP verdict - no execution capability
@@ -16,24 +17,25 @@ import { logOpenClawDecision } from '../../proof/openclaw_intercept/decision_log
  *
  * @param decision - STOP decision from decision engine
  * @param input - Original decision input
+ * @param signal - Aborted once the pipeline has failed closed
  * @returns ExecutionCapability<'STOP'> with no execute function
  */
 export async function handleStopVerdict(
   decision: Decision,
-  input: DecisionInput
+  input: DecisionInput,
+  signal?: AbortSignal
 ): Promise<ExecutionCapability<'STOP'>> {
-  const proofPath = await logOpenClawDecision({
-    input,
-    decision,
-    intercepted: true,
-    source: 'openclaw_mock',
-  });
+  const proofPath = await logDecisionEvent(
+    toDecisionEvent(decision, input, { source: input.metadata.source, intercepted: true }),
+    signal
+  );
 
   return {
     verdict: 'STOP',
     proof_path: proofPath,
     decision_hash: decision.decision_hash,
     reason: decision.reason || 'Execution stopped',
+    risk_factors: decision.risk_factors,
     executed: false,
     blocked_at_compile_time: true,
     // NO execute property - type system and binary separation enforce this
@@ -0,0 +1,259 @@
+/**
+ * Authority Token Module
+ *
+ * Issues and verifies Ed25519-signed authority tokens
+ * (contracts/authority_token.schema.json).
+ *
+ * A token binds ALLOW permission to one canonical execution proposal
+ * (Invariant 1/2): signature, expiry, scope and proposal hash must all
+ * verify before an execution function may call the executor.
+ */
+
+import * as crypto from 'crypto';
+import { Verdict } from '../types/execution_capability';
+import { canonicalize } from '../../proof/canonical_json';
+
+export interface AuthorityToken {
+  token_id: string;
+  issuer: string;
+  issued_at: string;
+  expires_at: string;
+  permissions: {
+    allowed_verdicts: Verdict[];
+    scope?: string;
+    constraints?: {
+      max_executions?: number;
+      rate_limit?: {
+        max_per_hour?: number;
+        max_per_day?: number;
+      };
+    };
+  };
+  signature: {
+    algorithm: 'EdDSA';
+    value: string;
+    public_key_id: string;
+  };
+  metadata?: {
+    request_id?: string;
+    policy_version?: string;
+    audit_log_id?: string;
+    proposal_hash?: string; // SHA256 of canonical proposal (binding)
+    decision_hash?: string;
+  };
+}
+
+/**
+ * The execution proposal a token is bound to
+ */
+export interface ExecutionProposal {
+  action: string;
+  arguments: Record<string, any>;
+}
+
+export interface AuthorityKey {
+  key_id: string;
+  issuer: string;
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+}
+
+export type TokenVerification = { valid: true } | { valid: false; reason: string };
+
+export interface IssueTokenOptions {
+  decision_hash: string;
+  ttl_ms?: number;
+  policy_version?: string;
+  constraints?: NonNullable<AuthorityToken['permissions']['constraints']>; // Default: max_executions 1
+  key?: AuthorityKey;
+  now?: number;
+}
+
+export const DEFAULT_ISSUER = 'execution-runtime-lab';
+export const DEFAULT_TOKEN_TTL_MS = 60_000;
+
+/**
+ * Public keys accepted during verification, keyed by public_key_id
+ */
+const trustedKeys = new Map<string, crypto.KeyObject>();
+
+let defaultKey: AuthorityKey | null = null;
+
+/**
+ * Creates a new Ed25519 authority key and trusts its public key
+ * @param issuer - Issuer name written into tokens
+ * @param privateKeyPem - Optional PKCS8 PEM private key (generated when omitted)
+ * @returns Authority key
+ */
+export function createAuthorityKey(issuer: string = DEFAULT_ISSUER, privateKeyPem?: string): AuthorityKey {
+  let privateKey: crypto.KeyObject;
+  let publicKey: crypto.KeyObject;
+
+  if (privateKeyPem) {
+    privateKey = crypto.createPrivateKey(privateKeyPem);
+    publicKey = crypto.createPublicKey(privateKey);
+  } else {
+    ({ privateKey, publicKey } = crypto.generateKeyPairSync('ed25519'));
+  }
+
+  const publicDer = publicKey.export({ type: 'spki', format: 'der' });
+  const key: AuthorityKey = {
+    key_id: `ed25519-${crypto.createHash('sha256').update(publicDer).digest('hex').slice(0, 16)}`,
+    issuer,
+    privateKey,
+    publicKey,
+  };
+
+  trustPublicKey(key.key_id, publicKey);
+  return key;
+}
+
+/**
+ * Returns the process authority key.
+ * Uses EAR_AUTHORITY_PRIVATE_KEY (PEM) when set, otherwise an ephemeral key.
+ */
+export function getAuthorityKey(): AuthorityKey {
+  if (!defaultKey) {
+    defaultKey = createAuthorityKey(DEFAULT_ISSUER, process.env.EAR_AUTHORITY_PRIVATE_KEY);
+  }
+  return defaultKey;
+}
+
+/**
+ * Registers a public key accepted for token verification
+ */
+export function trustPublicKey(keyId: string, publicKey: crypto.KeyObject): void {
+  trustedKeys.set(keyId, publicKey);
+}
+
+/**
+ * Computes the proposal binding hash
+ * @param proposal - Execution proposal
+ * @returns SHA256 hex digest of the canonical (RFC 8785) proposal
+ */
+export function computeProposalHash(proposal: ExecutionProposal): string {
+  const canonical = canonicalize({ action: proposal.action, arguments: proposal.arguments });
+  return crypto.createHash('sha256').update(canonical, 'utf-8').digest('hex');
+}
+
+/**
+ * Issues a signed ALLOW token bound to the given proposal
+ * @param proposal - Execution proposal being authorized
+ * @param options - Decision binding, TTL and signing key
+ * @returns Signed authority token
+ */
+export function issueAuthorityToken(
+  proposal: ExecutionProposal,
+  options: IssueTokenOptions
+): AuthorityToken {
+  const key = options.key ?? getAuthorityKey();
+  const now = options.now ?? Date.now();
+
+  const unsigned: AuthorityToken = {
+    token_id: crypto.randomUUID(),
+    issuer: key.issuer,
+    issued_at: new Date(now).toISOString(),
+    expires_at: new Date(now + (options.ttl_ms ?? DEFAULT_TOKEN_TTL_MS)).toISOString(),
+    permissions: {
+      allowed_verdicts: ['ALLOW'],
+      scope: toolScope(proposal.action),
+      constraints: options.constraints ?? { max_executions: 1 },
+    },
+    signature: {
+      algorithm: 'EdDSA',
+      value: '',
+      public_key_id: key.key_id,
+    },
+    metadata: {
+      proposal_hash: computeProposalHash(proposal),
+      decision_hash: options.decision_hash,
+      ...(options.policy_version && { policy_version: options.policy_version }),
+    },
+  };
+
+  const value = crypto.sign(null, Buffer.from(signingPayload(unsigned), 'utf-8'), key.privateKey);
+  unsigned.signature.value = value.toString('base64');
+
+  return unsigned;
+}
+
+/**
+ * Verifies signature, expiry, scope and proposal binding of a token.
+ * Fails closed: any structural problem or exception is an invalid token.
+ *
+ * @param token - Authority token (untrusted)
+ * @param proposal - Proposal about to be executed
+ * @param now - Verification time (ms)
+ * @returns Verification outcome with denial reason
+ */
+export function verifyAuthorityToken(
+  token: AuthorityToken | undefined,
+  proposal: ExecutionProposal,
+  now: number = Date.now()
+): TokenVerification {
+  try {
+    if (!token || typeof token !== 'object') {
+      return { valid: false, reason: 'missing authority token' };
+    }
+
+    if (token.signature?.algorithm !== 'EdDSA' || typeof token.signature.value !== 'string') {
+      return { valid: false, reason: 'unsupported or malformed signature' };
+    }
+
+    const publicKey = trustedKeys.get(token.signature.public_key_id);
+    if (!publicKey) {
+      return { valid: false, reason: `untrusted public key: ${token.signature.public_key_id}` };
+    }
+
+    const signatureValid = crypto.verify(
+      null,
+      Buffer.from(signingPayload(token), 'utf-8'),
+      publicKey,
+      Buffer.from(token.signature.value, 'base64')
+    );
+    if (!signatureValid) {
+      return { valid: false, reason: 'invalid signature' };
+    }
+
+    const issuedAt = Date.parse(token.issued_at);
+    const expiresAt = Date.parse(token.expires_at);
+    if (Number.isNaN(issuedAt) || Number.isNaN(expiresAt)) {
+      return { valid: false, reason: 'malformed token timestamps' };
+    }
+    if (now < issuedAt) {
+      return { valid: false, reason: 'token not yet valid' };
+    }
+    if (now >= expiresAt) {
+      return { valid: false, reason: `token expired at ${token.expires_at}` };
+    }
+
+    if (!token.permissions?.allowed_verdicts?.includes('ALLOW')) {
+      return { valid: false, reason: 'token does not grant ALLOW' };
+    }
+    if (token.permissions.scope !== toolScope(proposal.action)) {
+      return { valid: false, reason: `scope ${token.permissions.scope} does not cover ${proposal.action}` };
+    }
+
+    if (token.metadata?.proposal_hash !== computeProposalHash(proposal)) {
+      return { valid: false, reason: 'proposal binding mismatch' };
+    }
+
+    return { valid: true };
+  } catch (error) {
+    return {
+      valid: false,
+      reason: `verification error: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+function toolScope(action: string): string {
+  return `tool:${action}`;
+}
+
+/**
+ * Signed bytes: the canonical (RFC 8785) token with an empty signature value
+ */
+function signingPayload(token: AuthorityToken): string {
+  return canonicalize({ ...token, signature: { ...token.signature, value: '' } });
+}
@@ -8,22 +8,119 @@
  */
 
 import { executeAction, ExecutionContext, ExecutionResult } from './executor';
+import { AuthorityToken, verifyAuthorityToken } from '../authority/authority_token';
+import { computeDecisionHash, DecisionInput } from '../../integrations/openclaw/decision_engine';
+import {
+  BudgetExhaustion,
+  BudgetLimits,
+  checkBudget,
+  describeExhaustion,
+  recordUsage,
+} from '../../integrations/openclaw/budget_store';
+import { logDecisionEvent } from '../../proof/openclaw_intercept/decision_logger';
+import {
+  computeResultDigest,
+  ExecutionOutcomeDetails,
+  toDecisionEvent,
+  toExecutionEvent,
+} from '../../proof/decision_event';
 
 /**
  * Creates an execution function for ALLOW verdicts
  *
  * This function can ONLY be called when verdict === 'ALLOW'
- * It wraps the executor module to provide a clean API
+ * The authority token is verified (signature, expiry, scope, proposal binding)
+ * on every call before the executor is reached. Verification failure fails
+ * closed: the executor is not called and a STOP denial is logged.
+ *
+ * The returned function is single-use: a second call (or any other use of
+ * the same token beyond its max_executions) is rejected and logged, as is
+ * any use over the token's rate_limit. Every execution emits
+ * execution_outcome events (started, then succeeded or failed) linked to
+ * the ALLOW decision by decision_hash. If the start cannot be logged the
+ * executor is not called.
  *
  * @param context - Execution context
+ * @param token - Authority token issued for this proposal
  * @returns Async function that executes the action
  */
 export function createExecutionFunction(
-  context: ExecutionContext
+  context: ExecutionContext,
+  token: AuthorityToken
 ): () => Promise<ExecutionResult> {
+  let used = false;
+
   return async () => {
-    console.log('[ALLOW_EXECUTION] Creating execution function for ALLOW verdict');
-    return await executeAction(context);
+    // Claimed synchronously, so concurrent calls cannot both pass
+    const exhaustion = checkTokenBudget(token);
+    const reused = used || exhaustion?.limit === 'max_executions';
+    used = true;
+
+    if (reused) {
+      console.error('[ALLOW_EXECUTION] Execution capability already used');
+      await logExecutionOutcome(context, token, {
+        phase: 'rejected',
+        error: 'Execution capability already used',
+        error_code: 'already_executed',
+      });
+
+      return {
+        success: false,
+        error: 'Execution capability already used',
+        error_code: 'already_executed',
+        executed_at: Date.now(),
+      };
+    }
+
+    if (exhaustion) {
+      const error = `Authority token ${token.token_id} exceeded ${describeExhaustion(exhaustion)}`;
+      console.error(`[ALLOW_EXECUTION] ${error}`);
+      await logExecutionOutcome(context, token, { phase: 'rejected', error, error_code: 'budget_exhausted' });
+
+      return { success: false, error, error_code: 'budget_exhausted', executed_at: Date.now() };
+    }
+
+    const verification = verifyAuthorityToken(token, {
+      action: context.tool_name,
+      arguments: context.arguments,
+    });
+
+    if (!verification.valid) {
+      console.error(`[ALLOW_EXECUTION] Authority verification failed: ${verification.reason}`);
+      await logAuthorityDenial(context, token, verification.reason);
+
+      return {
+        success: false,
+        error: `Authority verification failed: ${verification.reason}`,
+        error_code: 'authority_denied',
+        executed_at: Date.now(),
+      };
+    }
+
+    recordUsage(`token:${token.token_id}`, Date.now(), Date.parse(token.expires_at));
+    console.log('[ALLOW_EXECUTION] Authority token verified, executing ALLOW verdict');
+    if (!(await logExecutionOutcome(context, token, { phase: 'started' }))) {
+      return {
+        success: false,
+        error: 'Execution start could not be logged',
+        error_code: 'log_write_failed',
+        executed_at: Date.now(),
+      };
+    }
+
+    const result = await executeAction(context);
+
+    await logExecutionOutcome(context, token, {
+      phase: result.success ? 'succeeded' : 'failed',
+      duration_ms: result.duration_ms,
+      result_digest: computeResultDigest(result),
+      ...(result.exit_code !== undefined && { exit_code: result.exit_code }),
+      ...(result.killed_reason && { killed_reason: result.killed_reason }),
+      ...(result.error && { error: result.error }),
+      ...(result.error_code && { error_code: result.error_code }),
+    });
+
+    return result;
   };
 }
 
@@ -31,11 +128,113 @@ export function createExecutionFunction(
  * Direct execution helper for ALLOW verdicts
  *
  * @param context - Execution context
+ * @param token - Authority token issued for this proposal
  * @returns Execution result
  */
 export async function executeAllowedAction(
-  context: ExecutionContext
+  context: ExecutionContext,
+  token: AuthorityToken
 ): Promise<ExecutionResult> {
   console.log('[ALLOW_EXECUTION] Executing allowed action');
-  return await executeAction(context);
+  return await createExecutionFunction(context, token)();
+}
+
+/**
+ * Logs a failed authority verification as a STOP denial
+ * Logging failures are reported but never turn a denial into execution.
+ */
+async function logAuthorityDenial(
+  context: ExecutionContext,
+  token: AuthorityToken | undefined,
+  reason: string
+): Promise<void> {
+  const timestamp = Date.now();
+  const input = toDecisionInput(context, timestamp);
+
+  try {
+    await logDecisionEvent(
+      toDecisionEvent(
+        {
+          verdict: 'STOP',
+          reason: `Authority verification failed for decision ${context.metadata?.decision_hash ?? 'unknown'}: ${reason}`,
+          risk_score: 10,
+          max_risk_score: 10,
+          decision_hash: computeDecisionHash(input, 'STOP', timestamp),
+          timestamp,
+          policy_id: 'authority-verification',
+          matched_rules: [],
+          risk_factors: [{ factor: 'authority-verification', weight: 1, evidence: reason }],
+        },
+        input,
+        { source: input.metadata.source, intercepted: true, authority_token_id: token?.token_id }
+      )
+    );
+  } catch (error) {
+    console.error('[ALLOW_EXECUTION] Failed to log authority denial:', error);
+  }
+}
+
+/**
+ * Logs an execution_outcome event for this capability
+ * Logging failures are reported; the caller decides whether they block execution.
+ * @returns Whether the event was logged
+ */
+async function logExecutionOutcome(
+  context: ExecutionContext,
+  token: AuthorityToken | undefined,
+  execution: ExecutionOutcomeDetails
+): Promise<boolean> {
+  const input = toDecisionInput(context, Date.now());
+
+  try {
+    await logDecisionEvent(
+      toExecutionEvent(
+        input,
+        {
+          decision_hash: context.metadata?.decision_hash ?? token?.metadata?.decision_hash ?? 'unknown',
+          policy_id: context.metadata?.policy_id ?? token?.metadata?.policy_version ?? 'unknown',
+          source: input.metadata.source,
+          authority_token_id: token?.token_id,
+        },
+        execution
+      )
+    );
+    return true;
+  } catch (error) {
+    console.error(`[ALLOW_EXECUTION] Failed to log execution ${execution.phase}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Rebuilds the decision input the ALLOW was issued for
+ */
+function toDecisionInput(context: ExecutionContext, timestamp: number): DecisionInput {
+  return {
+    action: context.tool_name,
+    resource: context.resource ?? 'unknown',
+    arguments: context.arguments,
+    metadata: {
+      source: context.metadata?.source ?? 'openclaw',
+      timestamp,
+      session_id: context.metadata?.session_id,
+    },
+  };
+}
+
+/**
+ * Checks the token's usage counter against its constraints
+ * (max_executions, rate_limit.max_per_hour, rate_limit.max_per_day)
+ */
+function checkTokenBudget(token: AuthorityToken | undefined): BudgetExhaustion | null {
+  if (!token?.token_id) return null;
+
+  const constraints = token.permissions?.constraints;
+  const limits: BudgetLimits = {
+    max_executions: constraints?.max_executions,
+    max_per_hour: constraints?.rate_limit?.max_per_hour,
+    max_per_day: constraints?.rate_limit?.max_per_day,
+  };
+
+  return checkBudget(`token:${token.token_id}`, limits);
 }
@@ -8,26 +8,64 @@
  * Binary separation ensures STOP builds do not contain this bytecode.
  */
 
+import { getExecutor } from './executor_registry';
+import { isSandboxResult, KilledReason } from './sandbox';
+
+/**
+ * Structured failure categories
+ * - unknown_tool: no executor registered for tool_name
+ * - invalid_arguments: arguments rejected by the executor's schema guard
+ * - execution_failed: the executor threw
+ * - authority_denied: authority token verification failed (allow_execution)
+ * - already_executed: the single-use execution capability was called again
+ * - budget_exhausted: the authority token's rate_limit is used up (allow_execution)
+ * - log_write_failed: the execution start could not be logged, so nothing ran (allow_execution)
+ */
+export type ExecutionErrorCode =
+  | 'unknown_tool'
+  | 'invalid_arguments'
+  | 'execution_failed'
+  | 'authority_denied'
+  | 'already_executed'
+  | 'budget_exhausted'
+  | 'log_write_failed';
+
 export interface ExecutionResult {
   success: boolean;
   result?: any;
   error?: string;
+  error_code?: ExecutionErrorCode;
   executed_at: number;
+  duration_ms?: number;
+  // Subprocess tools (see sandbox.ts)
+  exit_code?: number | null;
+  stdout?: string; // Truncated to the sandbox output cap
+  stderr?: string;
+  truncated?: boolean;
+  killed_reason?: KilledReason;
 }
 
 export interface ExecutionContext {
   tool_name: string;
   arguments: Record<string, any>;
+  resource?: string;
   metadata?: {
     source?: string;
     timestamp?: number;
     session_id?: string;
+    decision_hash?: string;
+    policy_id?: string;
   };
 }
 
 /**
  * Core execution function - performs actual action execution
  *
+ * Dispatches to the executor registered for context.tool_name
+ * (see executor_registry.ts) after validating the arguments against
+ * its schema guard. Subprocess results are lifted into the result
+ * (exit code, output, killed_reason); a non-zero exit or a kill is a failure.
+ *
  * WARNING: This function must only be called when verdict === 'ALLOW'
  * STOP/HOLD branches must not have access to this function at binary level
  *
@@ -35,38 +73,72 @@ export interface ExecutionContext {
  * @returns ExecutionResult with success status and result/error
  */
 export async function executeAction(context: ExecutionContext): Promise<ExecutionResult> {
+  if (!isValidExecutionContext(context)) {
+    return failure('invalid_arguments', 'Execution context requires tool_name and an arguments object');
+  }
+
+  const executor = getExecutor(context.tool_name);
+  if (!executor) {
+    return failure('unknown_tool', `No executor registered for tool ${context.tool_name}`);
+  }
+
+  if (!executor.isValidArguments(context.arguments)) {
+    return failure('invalid_arguments', `Invalid arguments for ${context.tool_name}, expected ${executor.usage}`);
+  }
+
   const startTime = Date.now();
 
   try {
-    // Mock execution implementation
-    // In production, this would invoke actual tool execution (OpenClaw, etc.)
     console.log(`[EXECUTOR] Executing action: ${context.tool_name}`);
-    console.log(`[EXECUTOR] Arguments:`, context.arguments);
+    const result = await executor.execute(context.arguments, context);
 
-    // Simulate execution
-    const result = {
-      tool_name: context.tool_name,
-      status: 'executed',
-      arguments: context.arguments,
-      timestamp: startTime,
-    };
+    if (isSandboxResult(result)) {
+      const failed = result.exit_code !== 0 || result.killed_reason !== undefined;
+      return {
+        success: !failed,
+        ...(failed && {
+          error: result.killed_reason
+            ? `Process killed (${result.killed_reason})`
+            : `Process exited with code ${result.exit_code}`,
+          error_code: 'execution_failed' as const,
+        }),
+        executed_at: Date.now(),
+        duration_ms: result.duration_ms,
+        exit_code: result.exit_code,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        truncated: result.truncated,
+        ...(result.killed_reason && { killed_reason: result.killed_reason }),
+      };
+    }
 
     return {
       success: true,
       result,
       executed_at: Date.now(),
+      duration_ms: Date.now() - startTime,
     };
   } catch (error) {
     console.error(`[EXECUTOR] Execution failed:`, error);
-
     return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-      executed_at: Date.now(),
+      ...failure('execution_failed', error instanceof Error ? error.message : String(error)),
+      duration_ms: Date.now() - startTime,
     };
   }
 }
 
+/**
+ * Builds a structured failure result
+ */
+function failure(code: ExecutionErrorCode, message: string): ExecutionResult {
+  return {
+    success: false,
+    error: message,
+    error_code: code,
+    executed_at: Date.now(),
+  };
+}
+
 /**
  * Type guard to verify execution context is valid
  */
@@ -75,6 +147,7 @@ export function isValidExecutionContext(context: any): context is ExecutionConte
     context &&
     typeof context.tool_name === 'string' &&
     context.tool_name.length > 0 &&
-    typeof context.arguments === 'object'
+    typeof context.arguments === 'object' &&
+    context.arguments !== null
   );
 }
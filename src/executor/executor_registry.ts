@@ -0,0 +1,60 @@
+/**
+ * Tool Executor Registry
+ *
+ * Maps tool_name to the implementation that performs it. executeAction
+ * looks tools up here; unknown tools and malformed arguments produce a
+ * structured error instead of a result.
+ *
+ * CRITICAL: Part of the executor module tree - excluded from STOP builds
+ * together with every registered tool implementation.
+ */
+
+import type { ExecutionContext } from './executor';
+import { BUILTIN_EXECUTORS } from './tools';
+
+export interface ToolExecutor<A = any> {
+  tool_name: string;
+  description: string;
+  usage: string; // Expected argument shape, reported on invalid_arguments
+  isValidArguments: (args: unknown) => args is A; // Argument schema guard
+  execute: (args: A, context: ExecutionContext) => Promise<any>;
+}
+
+const registry = new Map<string, ToolExecutor>(
+  BUILTIN_EXECUTORS.map((executor) => [executor.tool_name, executor])
+);
+
+/**
+ * Registers a tool executor
+ * @param executor - Tool implementation
+ * @param options - replace: overwrite an existing registration
+ * @throws Error if the tool is already registered and replace is not set
+ */
+export function registerExecutor<A>(executor: ToolExecutor<A>, options: { replace?: boolean } = {}): void {
+  if (registry.has(executor.tool_name) && !options.replace) {
+    throw new Error(`Executor already registered for tool ${executor.tool_name}`);
+  }
+  registry.set(executor.tool_name, executor);
+}
+
+/**
+ * Removes a tool executor
+ * @returns True when an executor was registered
+ */
+export function unregisterExecutor(toolName: string): boolean {
+  return registry.delete(toolName);
+}
+
+/**
+ * Looks up the executor for a tool
+ */
+export function getExecutor(toolName: string): ToolExecutor | undefined {
+  return registry.get(toolName);
+}
+
+/**
+ * Lists registered tool names
+ */
+export function listExecutors(): string[] {
+  return [...registry.keys()].sort();
+}
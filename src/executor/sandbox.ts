@@ -0,0 +1,190 @@
+/**
+ * Sandboxed Subprocess Runner
+ *
+ * Runs ALLOWed commands in a constrained child process:
+ * - working directory jailed to the executor workspace
+ * - environment built from an allowlist only (no inherited secrets), with
+ *   PATH set by the sandbox so a tool cannot redirect command lookup
+ * - wall-clock timeout (whole process group is killed)
+ * - stdout/stderr capped, the process is killed when the cap is exceeded
+ * - no shell unless the tool asks for one explicitly, stdin closed
+ *
+ * This is process-level containment, not an OS sandbox: the child runs
+ * with the runtime's user and can still address the filesystem.
+ *
+ * CRITICAL: Part of the executor module tree - excluded from STOP builds.
+ */
+
+import { spawn } from 'child_process';
+import { getWorkspaceRoot, resolveInWorkspace } from './tools/workspace';
+
+export type KilledReason = 'timeout' | 'output_limit' | 'signal';
+
+export interface SandboxOptions {
+  cwd?: string; // Workspace-relative working directory
+  env?: Record<string, string>; // Extra variables (names must be allowlisted)
+  timeout_ms?: number; // Lowered to the configured maximum
+  max_output_bytes?: number; // Lowered to the configured maximum
+}
+
+export interface SandboxLimits {
+  timeout_ms: number;
+  max_output_bytes: number; // Per stream
+  env_allowlist: string[];
+  path: string; // PATH of every sandboxed process
+}
+
+export interface SandboxResult {
+  exit_code: number | null; // null when killed by a signal
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  truncated: boolean;
+  duration_ms: number;
+  killed_reason?: KilledReason;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_OUTPUT_BYTES = 65_536;
+const DEFAULT_ENV_ALLOWLIST = ['LANG', 'LC_ALL', 'TZ', 'TERM'];
+const DEFAULT_PATH = '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin';
+
+/**
+ * Returns the sandbox limits (EAR_SANDBOX_TIMEOUT_MS,
+ * EAR_SANDBOX_MAX_OUTPUT_BYTES, EAR_SANDBOX_ENV_ALLOWLIST, EAR_SANDBOX_PATH)
+ */
+export function getSandboxLimits(): SandboxLimits {
+  const allowlist = process.env.EAR_SANDBOX_ENV_ALLOWLIST;
+
+  return {
+    timeout_ms: positiveInt(process.env.EAR_SANDBOX_TIMEOUT_MS) ?? DEFAULT_TIMEOUT_MS,
+    max_output_bytes: positiveInt(process.env.EAR_SANDBOX_MAX_OUTPUT_BYTES) ?? DEFAULT_MAX_OUTPUT_BYTES,
+    env_allowlist: allowlist
+      ? allowlist.split(',').map((name) => name.trim()).filter(Boolean)
+      : DEFAULT_ENV_ALLOWLIST,
+    path: process.env.EAR_SANDBOX_PATH || DEFAULT_PATH,
+  };
+}
+
+/**
+ * Builds the child environment from the allowlist only
+ * @param extra - Tool-supplied variables (non-allowlisted names are dropped,
+ *   PATH and HOME are always set by the sandbox)
+ * @param home - HOME for the child (the jailed working directory)
+ */
+export function buildSandboxEnv(
+  extra: Record<string, string> = {},
+  home: string = getWorkspaceRoot()
+): Record<string, string> {
+  const { env_allowlist, path } = getSandboxLimits();
+  const env: Record<string, string> = {};
+
+  for (const name of env_allowlist) {
+    const value = extra[name] ?? process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+
+  env.PATH = path;
+  env.HOME = home;
+  return env;
+}
+
+/**
+ * Runs a command in the sandbox
+ * @param command - Executable (resolved through the sandbox PATH)
+ * @param args - Argument vector (not interpreted by a shell)
+ * @param options - Per-call limits and working directory
+ * @returns Exit status, capped output, duration and why the process was killed (if it was)
+ * @throws Error if the working directory escapes the workspace or the command cannot be spawned
+ */
+export function runSandboxed(
+  command: string,
+  args: string[],
+  options: SandboxOptions = {}
+): Promise<SandboxResult> {
+  const limits = getSandboxLimits();
+  const timeoutMs = Math.min(options.timeout_ms ?? limits.timeout_ms, limits.timeout_ms);
+  const maxBytes = Math.min(options.max_output_bytes ?? limits.max_output_bytes, limits.max_output_bytes);
+  const cwd = resolveInWorkspace(options.cwd ?? '.');
+  const startedAt = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd,
+      env: buildSandboxEnv(options.env, cwd),
+      stdio: ['ignore', 'pipe', 'pipe'],
+      shell: false,
+      detached: true, // Own process group, so the whole tree can be killed
+    });
+
+    const output = { stdout: [] as Buffer[], stderr: [] as Buffer[] };
+    const sizes = { stdout: 0, stderr: 0 };
+    let truncated = false;
+    let killedReason: KilledReason | undefined;
+
+    const kill = (reason: KilledReason) => {
+      if (killedReason) return;
+      killedReason = reason;
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    };
+
+    const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+      const room = maxBytes - sizes[stream];
+      if (chunk.length > room) {
+        truncated = true;
+        if (room > 0) output[stream].push(chunk.subarray(0, room));
+        sizes[stream] = maxBytes;
+        kill('output_limit');
+        return;
+      }
+      output[stream].push(chunk);
+      sizes[stream] += chunk.length;
+    };
+
+    child.stdout!.on('data', collect('stdout'));
+    child.stderr!.on('data', collect('stderr'));
+
+    const timer = setTimeout(() => kill('timeout'), timeoutMs);
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      resolve({
+        exit_code: code,
+        signal,
+        stdout: Buffer.concat(output.stdout).toString('utf-8'),
+        stderr: Buffer.concat(output.stderr).toString('utf-8'),
+        truncated,
+        duration_ms: Date.now() - startedAt,
+        ...((killedReason || signal) && { killed_reason: killedReason ?? 'signal' }),
+      });
+    });
+  });
+}
+
+/**
+ * Type guard for sandbox results returned by tool executors
+ */
+export function isSandboxResult(value: any): value is SandboxResult {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    'exit_code' in value &&
+    typeof value.stdout === 'string' &&
+    typeof value.stderr === 'string' &&
+    typeof value.duration_ms === 'number'
+  );
+}
+
+function positiveInt(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
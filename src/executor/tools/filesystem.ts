@@ -0,0 +1,95 @@
+/**
+ * Filesystem Tool Executors
+ *
+ * read_file / write_file confined to the executor workspace.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ToolExecutor } from '../executor_registry';
+import { resolveInWorkspace } from './workspace';
+
+const DEFAULT_MAX_READ_BYTES = 1_048_576;
+
+export interface ReadFileArguments {
+  path: string;
+  encoding?: 'utf-8' | 'base64';
+  max_bytes?: number;
+}
+
+export interface WriteFileArguments {
+  path: string;
+  content: string;
+  encoding?: 'utf-8' | 'base64';
+  append?: boolean;
+}
+
+/**
+ * Type guard for read_file arguments
+ */
+export function isReadFileArguments(args: any): args is ReadFileArguments {
+  return (
+    !!args &&
+    typeof args.path === 'string' &&
+    args.path.length > 0 &&
+    (args.encoding === undefined || args.encoding === 'utf-8' || args.encoding === 'base64') &&
+    (args.max_bytes === undefined || (Number.isInteger(args.max_bytes) && args.max_bytes > 0))
+  );
+}
+
+/**
+ * Type guard for write_file arguments
+ */
+export function isWriteFileArguments(args: any): args is WriteFileArguments {
+  return (
+    !!args &&
+    typeof args.path === 'string' &&
+    args.path.length > 0 &&
+    typeof args.content === 'string' &&
+    (args.encoding === undefined || args.encoding === 'utf-8' || args.encoding === 'base64') &&
+    (args.append === undefined || typeof args.append === 'boolean')
+  );
+}
+
+export const readFileExecutor: ToolExecutor<ReadFileArguments> = {
+  tool_name: 'read_file',
+  description: 'Reads a file inside the workspace',
+  usage: "{ path: string, encoding?: 'utf-8' | 'base64', max_bytes?: number }",
+  isValidArguments: isReadFileArguments,
+  async execute(args) {
+    const target = resolveInWorkspace(args.path);
+    const maxBytes = args.max_bytes ?? DEFAULT_MAX_READ_BYTES;
+
+    const handle = await fs.open(target, 'r');
+    try {
+      const { size } = await handle.stat();
+      const buffer = Buffer.alloc(Math.min(size, maxBytes));
+      await handle.read(buffer, 0, buffer.length, 0);
+
+      return {
+        path: target,
+        size,
+        truncated: size > maxBytes,
+        content: buffer.toString(args.encoding ?? 'utf-8'),
+      };
+    } finally {
+      await handle.close();
+    }
+  },
+};
+
+export const writeFileExecutor: ToolExecutor<WriteFileArguments> = {
+  tool_name: 'write_file',
+  description: 'Writes (or appends to) a file inside the workspace',
+  usage: "{ path: string, content: string, encoding?: 'utf-8' | 'base64', append?: boolean }",
+  isValidArguments: isWriteFileArguments,
+  async execute(args) {
+    const target = resolveInWorkspace(args.path);
+    const data = Buffer.from(args.content, args.encoding ?? 'utf-8');
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await (args.append ? fs.appendFile(target, data) : fs.writeFile(target, data));
+
+    return { path: target, bytes_written: data.length };
+  },
+};
@@ -0,0 +1,106 @@
+/**
+ * HTTP Fetch Tool Executor
+ *
+ * http_fetch against an allowlist of hosts (EAR_HTTP_ALLOWED_HOSTS,
+ * comma-separated; default: loopback only, i.e. local stubs). The response
+ * body is read as a stream and the request is aborted once 1 MiB has been
+ * read, so an endless or oversized body is never buffered.
+ */
+
+import type { ToolExecutor } from '../executor_registry';
+
+const DEFAULT_ALLOWED_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const DEFAULT_TIMEOUT_MS = 10_000;
+const MAX_BODY_BYTES = 1_048_576;
+const METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export interface HttpFetchArguments {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeout_ms?: number;
+}
+
+/**
+ * Type guard for http_fetch arguments
+ */
+export function isHttpFetchArguments(args: any): args is HttpFetchArguments {
+  return (
+    !!args &&
+    typeof args.url === 'string' &&
+    /^https?:\/\//i.test(args.url) &&
+    (args.method === undefined || (typeof args.method === 'string' && METHODS.includes(args.method.toUpperCase()))) &&
+    (args.headers === undefined ||
+      (typeof args.headers === 'object' &&
+        args.headers !== null &&
+        Object.values(args.headers).every((v) => typeof v === 'string'))) &&
+    (args.body === undefined || typeof args.body === 'string') &&
+    (args.timeout_ms === undefined || (Number.isInteger(args.timeout_ms) && args.timeout_ms > 0))
+  );
+}
+
+/**
+ * Returns the hosts http_fetch may contact
+ */
+export function getAllowedHosts(): string[] {
+  const configured = process.env.EAR_HTTP_ALLOWED_HOSTS;
+  return configured
+    ? configured.split(',').map((h) => h.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_ALLOWED_HOSTS;
+}
+
+export const httpFetchExecutor: ToolExecutor<HttpFetchArguments> = {
+  tool_name: 'http_fetch',
+  description: 'Performs an HTTP request against an allowlisted host',
+  usage: '{ url: string, method?: string, headers?: Record<string, string>, body?: string, timeout_ms?: number }',
+  isValidArguments: isHttpFetchArguments,
+  async execute(args) {
+    const url = new URL(args.url);
+    if (!getAllowedHosts().includes(url.hostname.toLowerCase())) {
+      throw new Error(`Host ${url.hostname} is not in the HTTP allowlist`);
+    }
+
+    const response = await fetch(url, {
+      method: (args.method ?? 'GET').toUpperCase(),
+      headers: args.headers,
+      body: args.body,
+      redirect: 'manual', // Redirects could leave the allowlist
+      signal: AbortSignal.timeout(args.timeout_ms ?? DEFAULT_TIMEOUT_MS),
+    });
+
+    const { body, truncated } = await readBody(response, MAX_BODY_BYTES);
+
+    return {
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+      truncated,
+      body: body.toString('utf-8'),
+    };
+  },
+};
+
+/**
+ * Reads a response body up to a byte cap, cancelling the stream (and with
+ * it the request) as soon as the body turns out to be longer
+ */
+async function readBody(response: Response, maxBytes: number): Promise<{ body: Buffer; truncated: boolean }> {
+  if (!response.body) return { body: Buffer.alloc(0), truncated: false };
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return { body: Buffer.concat(chunks, size), truncated: false };
+
+    if (size + value.length > maxBytes) {
+      chunks.push(Buffer.from(value.subarray(0, maxBytes - size)));
+      await reader.cancel();
+      return { body: Buffer.concat(chunks, maxBytes), truncated: true };
+    }
+    chunks.push(Buffer.from(value));
+    size += value.length;
+  }
+}
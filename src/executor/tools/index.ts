@@ -0,0 +1,19 @@
+/**
+ * Built-in Tool Executors
+ *
+ * Registered by default in executor_registry.ts. Excluded from STOP
+ * builds with the rest of src/executor.
+ */
+
+import type { ToolExecutor } from '../executor_registry';
+import { readFileExecutor, writeFileExecutor } from './filesystem';
+import { httpFetchExecutor } from './http_fetch';
+import { executeCommandExecutor, runCommandExecutor } from './subprocess';
+
+export const BUILTIN_EXECUTORS: ToolExecutor[] = [
+  readFileExecutor,
+  writeFileExecutor,
+  httpFetchExecutor,
+  runCommandExecutor,
+  executeCommandExecutor,
+];
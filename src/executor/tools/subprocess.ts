@@ -0,0 +1,80 @@
+/**
+ * Subprocess Tool Executors
+ *
+ * run_command executes a binary with an argv array (no shell);
+ * execute_command runs a shell command line through /bin/sh -c.
+ * Both run inside the sandbox (see sandbox.ts).
+ */
+
+import type { ToolExecutor } from '../executor_registry';
+import { runSandboxed } from '../sandbox';
+
+export interface RunCommandArguments {
+  command: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  timeout_ms?: number;
+}
+
+export interface ExecuteCommandArguments {
+  command: string;
+  cwd?: string;
+  timeout_ms?: number;
+}
+
+/**
+ * Type guard for run_command arguments
+ */
+export function isRunCommandArguments(args: any): args is RunCommandArguments {
+  return (
+    !!args &&
+    typeof args.command === 'string' &&
+    args.command.length > 0 &&
+    (args.args === undefined || (Array.isArray(args.args) && args.args.every((a: unknown) => typeof a === 'string'))) &&
+    (args.cwd === undefined || typeof args.cwd === 'string') &&
+    (args.env === undefined ||
+      (typeof args.env === 'object' && args.env !== null && Object.values(args.env).every((v) => typeof v === 'string'))) &&
+    (args.timeout_ms === undefined || (Number.isInteger(args.timeout_ms) && args.timeout_ms > 0))
+  );
+}
+
+/**
+ * Type guard for execute_command arguments
+ */
+export function isExecuteCommandArguments(args: any): args is ExecuteCommandArguments {
+  return (
+    !!args &&
+    typeof args.command === 'string' &&
+    args.command.trim().length > 0 &&
+    (args.cwd === undefined || typeof args.cwd === 'string') &&
+    (args.timeout_ms === undefined || (Number.isInteger(args.timeout_ms) && args.timeout_ms > 0))
+  );
+}
+
+export const runCommandExecutor: ToolExecutor<RunCommandArguments> = {
+  tool_name: 'run_command',
+  description: 'Runs a binary with arguments (no shell) in the sandbox',
+  usage: '{ command: string, args?: string[], cwd?: string, env?: Record<string, string>, timeout_ms?: number }',
+  isValidArguments: isRunCommandArguments,
+  execute(args) {
+    return runSandboxed(args.command, args.args ?? [], {
+      cwd: args.cwd,
+      env: args.env,
+      timeout_ms: args.timeout_ms,
+    });
+  },
+};
+
+export const executeCommandExecutor: ToolExecutor<ExecuteCommandArguments> = {
+  tool_name: 'execute_command',
+  description: 'Runs a shell command line through /bin/sh -c in the sandbox',
+  usage: '{ command: string, cwd?: string, timeout_ms?: number }',
+  isValidArguments: isExecuteCommandArguments,
+  execute(args) {
+    return runSandboxed('/bin/sh', ['-c', args.command], {
+      cwd: args.cwd,
+      timeout_ms: args.timeout_ms,
+    });
+  },
+};
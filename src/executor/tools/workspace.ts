@@ -0,0 +1,54 @@
+/**
+ * Executor Workspace
+ *
+ * Filesystem and subprocess tools operate inside one workspace root
+ * (EAR_WORKSPACE_ROOT, default: current working directory). Paths that
+ * resolve outside it - lexically or through symlinks - are rejected.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Returns the workspace root tools are confined to
+ */
+export function getWorkspaceRoot(): string {
+  return path.resolve(process.env.EAR_WORKSPACE_ROOT || process.cwd());
+}
+
+/**
+ * Resolves a tool-supplied path inside the workspace
+ * @param requested - Absolute or workspace-relative path
+ * @returns Absolute path inside the workspace
+ * @throws Error if the path escapes the workspace root
+ */
+export function resolveInWorkspace(requested: string): string {
+  const root = realpathOrSelf(getWorkspaceRoot());
+  const resolved = path.resolve(root, requested);
+
+  // Follow symlinks of the deepest existing ancestor
+  let existing = resolved;
+  while (!fs.existsSync(existing) && path.dirname(existing) !== existing) {
+    existing = path.dirname(existing);
+  }
+  const real = path.join(realpathOrSelf(existing), path.relative(existing, resolved));
+
+  if (!isInside(root, resolved) || !isInside(root, real)) {
+    throw new Error(`Path ${requested} is outside the workspace`);
+  }
+
+  return real;
+}
+
+function isInside(root: string, candidate: string): boolean {
+  const relative = path.relative(root, candidate);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+function realpathOrSelf(value: string): string {
+  try {
+    return fs.realpathSync(value);
+  } catch {
+    return value;
+  }
+}
@@ -5,8 +5,36 @@
  * This is NOT runtime blocking - execution paths cannot compile when verdict is STOP/HOLD.
  */
 
+import type { RiskFactor } from './risk_factor';
+
 export type Verdict = 'ALLOW' | 'HOLD' | 'STOP';
 
+/**
+ * Why the mediation pipeline failed closed (see fail_closed.ts)
+ * - evaluation_failed: the decision engine or session budget threw
+ * - handler_failed: the verdict handler threw (e.g. token issuance)
+ * - log_write_failed: the decision log or proof manifest could not be written
+ * - pipeline_timeout: the pipeline did not finish within the decision timeout
+ */
+export type FailClosedCode = 'evaluation_failed' | 'handler_failed' | 'log_write_failed' | 'pipeline_timeout';
+
+/**
+ * What execute() reports back. Subprocess tools add exit code,
+ * capped output, duration and why the process was killed (if it was).
+ */
+export interface ExecutionOutcome {
+  success: boolean;
+  result?: any;
+  error?: string;
+  error_code?: string;
+  duration_ms?: number;
+  exit_code?: number | null;
+  stdout?: string;
+  stderr?: string;
+  truncated?: boolean;
+  killed_reason?: 'timeout' | 'output_limit' | 'signal';
+}
+
 /**
  * Conditional execution capability based on verdict.
  *
@@ -20,10 +48,11 @@ export type ExecutionCapability<V extends Verdict> = V extends 'ALLOW'
   ? {
       verdict: 'ALLOW';
       executed: false; // Not yet executed
-      execute: () => Promise<{ success: boolean; result?: any; error?: string }>;
+      execute: () => Promise<ExecutionOutcome>;
       proof_path: string;
       decision_hash: string;
       reason: string;
+      risk_factors: RiskFactor[]; // Contributing factors behind the verdict
     }
   : V extends 'HOLD'
   ? {
@@ -33,6 +62,7 @@ export type ExecutionCapability<V extends Verdict> = V extends 'ALLOW'
       proof_path: string;
       decision_hash: string;
       reason: string;
+      risk_factors: RiskFactor[]; // Contributing factors behind the verdict
       requires_approval: true;
     }
   : V extends 'STOP'
@@ -43,7 +73,9 @@ export type ExecutionCapability<V extends Verdict> = V extends 'ALLOW'
       proof_path: string;
       decision_hash: string;
       reason: string;
+      risk_factors: RiskFactor[]; // Contributing factors behind the verdict
       blocked_at_compile_time: true;
+      error_code?: FailClosedCode; // Set when the STOP comes from a pipeline failure
     }
   : never;
 
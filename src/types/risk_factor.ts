@@ -0,0 +1,13 @@
+/**
+ * Risk Factor
+ *
+ * One contribution to a decision's risk score, matching `risk_factors`
+ * in contracts/decision_event.schema.json.
+ */
+
+export interface RiskFactor {
+  factor: string; // Policy rule id
+  weight: number; // 0.0 - 1.0 (rule score / policy max score)
+  evidence?: string; // e.g. "arguments.command contains 'rm '"
+  related_decisions?: string[]; // Earlier decision hashes this factor cites (session sequences)
+}
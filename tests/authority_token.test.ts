@@ -0,0 +1,81 @@
+/**
+ * Authority Token Tests
+ *
+ * Verifies Invariant 1/2/3: execution requires a signed, unexpired,
+ * correctly scoped token bound to the exact proposal, and any
+ * verification failure denies execution.
+ */
+
+import {
+  createAuthorityKey,
+  issueAuthorityToken,
+  verifyAuthorityToken,
+} from '../src/authority/authority_token';
+import { createExecutionFunction } from '../src/executor/allow_execution';
+import * as executor from '../src/executor/executor';
+import { logDecisionEvent } from '../proof/openclaw_intercept/decision_logger';
+
+jest.mock('../proof/openclaw_intercept/decision_logger', () => ({
+  logDecisionEvent: jest.fn(async () => '/proof/proof_manifest.json'),
+}));
+
+const proposal = { action: 'read_config', arguments: { file: '/app/config.json' } };
+
+describe('Authority token issuance and verification', () => {
+  test('issued token verifies against its proposal', () => {
+    const token = issueAuthorityToken(proposal, { decision_hash: 'abc123' });
+
+    expect(token.signature.algorithm).toBe('EdDSA');
+    expect(token.permissions.allowed_verdicts).toEqual(['ALLOW']);
+    expect(verifyAuthorityToken(token, proposal)).toEqual({ valid: true });
+  });
+
+  test('proposal binding, expiry, scope and signature failures are rejected', () => {
+    const now = Date.now();
+    const token = issueAuthorityToken(proposal, { decision_hash: 'abc123', ttl_ms: 1000, now });
+
+    const modified = { ...proposal, arguments: { file: '/etc/shadow' } };
+    expect(verifyAuthorityToken(token, modified)).toEqual({
+      valid: false,
+      reason: 'proposal binding mismatch',
+    });
+
+    expect(verifyAuthorityToken(token, proposal, now + 1000).valid).toBe(false);
+
+    const otherTool = { ...proposal, action: 'write_config' };
+    expect(verifyAuthorityToken(token, otherTool).valid).toBe(false);
+
+    const tampered = { ...token, expires_at: new Date(now + 3_600_000).toISOString() };
+    expect(verifyAuthorityToken(tampered, proposal)).toEqual({ valid: false, reason: 'invalid signature' });
+
+    expect(verifyAuthorityToken(undefined, proposal).valid).toBe(false);
+  });
+
+  test('token signed by an untrusted key is rejected', () => {
+    const rogue = createAuthorityKey('rogue');
+    const token = issueAuthorityToken(proposal, { decision_hash: 'abc123', key: rogue });
+    const forged = { ...token, signature: { ...token.signature, public_key_id: 'ed25519-unknown' } };
+
+    expect(verifyAuthorityToken(forged, proposal).valid).toBe(false);
+  });
+
+  test('execution function fails closed and logs a denial on verification failure', async () => {
+    const executeSpy = jest.spyOn(executor, 'executeAction');
+    const token = issueAuthorityToken(proposal, { decision_hash: 'abc123' });
+
+    const execute = createExecutionFunction(
+      { tool_name: proposal.action, arguments: { file: '/etc/shadow' } },
+      token
+    );
+    const result = await execute();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/proposal binding mismatch/);
+    expect(executeSpy).not.toHaveBeenCalled();
+    expect(logDecisionEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ verdict: 'STOP', authority_token_id: token.token_id })
+    );
+
+    executeSpy.mockRestore();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Canonical JSON Tests
+ *
+ * Verifies the RFC 8785 serialization, key-order independent hashes and the
+ * decision hash verifier.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { canonicalize } from '../proof/canonical_json';
+import { computeDecisionHash, DecisionInput } from '../integrations/openclaw/decision_engine';
+import { computeInputHash } from '../proof/decision_event';
+import { computeProposalHash } from '../src/authority/authority_token';
+import { verifyDecisionHashes } from '../proof/decision_hash';
+import { receiveToolCall } from '../integrations/openclaw/openclaw_adapter';
+
+function input(args: Record<string, any>): DecisionInput {
+  return {
+    action: 'http_fetch',
+    resource: 'https://api.example.com',
+    arguments: args,
+    metadata: { source: 'test', timestamp: 0 },
+  };
+}
+
+describe('RFC 8785 canonicalization', () => {
+  test('sorts members by UTF-16 code units (RFC 8785 section 3.2.3)', () => {
+    const value: Record<string, string> = {
+      '\u20ac': 'Euro Sign',
+      '\r': 'Carriage Return',
+      '\ufb33': 'Hebrew Letter Dalet With Dagesh',
+      '1': 'One',
+      '\ud83d\ude00': 'Emoji: Grinning Face',
+      '\u0080': 'Control',
+      '\u00f6': 'Latin Small Letter O With Diaeresis',
+    };
+    const order = ['\r', '1', '\u0080', '\u00f6', '\u20ac', '\ud83d\ude00', '\ufb33'];
+
+    expect(canonicalize(value)).toBe(`{${order.map((key) => `${JSON.stringify(key)}:${JSON.stringify(value[key])}`).join(',')}}`);
+  });
+
+  test('serializes numbers, literals and strings like the RFC sample', () => {
+    const value = {
+      numbers: [333333333.33333329, 1e30, 4.5, 2e-3, 0.000000000000000000000000001, -0],
+      string: '€$\u000f\nA\'B"\\\\"/',
+      literals: [null, true, false],
+    };
+
+    expect(canonicalize(value)).toBe(
+      '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27,0],"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+    );
+  });
+
+  test('rejects values JSON cannot represent', () => {
+    expect(() => canonicalize({ a: NaN })).toThrow('$.a: NaN is not a valid JSON number');
+    expect(() => canonicalize({ a: [Infinity] })).toThrow('$.a[0]');
+    expect(() => canonicalize({ a: '\ud800' })).toThrow('lone surrogate');
+    expect(canonicalize({ a: undefined, b: [undefined], c: new Date(0) })).toBe('{"b":[null],"c":"1970-01-01T00:00:00.000Z"}');
+  });
+});
+
+describe('Key-order independent hashes', () => {
+  const a = { url: 'https://api.example.com', headers: { accept: 'json', 'x-trace': '1' }, method: 'GET' };
+  const b = { method: 'GET', headers: { 'x-trace': '1', accept: 'json' }, url: 'https://api.example.com' };
+
+  test('decision, input and proposal hashes ignore key order', () => {
+    expect(computeDecisionHash(input(a), 'ALLOW', 1)).toBe(computeDecisionHash(input(b), 'ALLOW', 1));
+    expect(computeInputHash(input(a))).toBe(computeInputHash(input(b)));
+    expect(computeProposalHash({ action: 'http_fetch', arguments: a })).toBe(
+      computeProposalHash({ action: 'http_fetch', arguments: b })
+    );
+    expect(computeDecisionHash(input(a), 'ALLOW', 1)).not.toBe(computeDecisionHash(input(a), 'STOP', 1));
+  });
+});
+
+describe('Decision hash verifier', () => {
+  let logDir: string;
+
+  beforeAll(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ear-jcs-'));
+    process.env.EAR_OPENCLAW_LOG_DIR = logDir;
+  });
+
+  afterAll(() => {
+    delete process.env.EAR_OPENCLAW_LOG_DIR;
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  test('recomputes logged decision hashes and reports tampered records', async () => {
+    const held = await receiveToolCall({
+      tool_name: 'deploy_production',
+      arguments: { service: 'api', token: 'not-logged' },
+      metadata: { source: 'openclaw', timestamp: Date.now() },
+    });
+    await receiveToolCall({
+      tool_name: 'read_file',
+      arguments: { path: './README.md' },
+      metadata: { source: 'openclaw', timestamp: Date.now() },
+    });
+
+    const content = fs.readFileSync(path.join(logDir, 'openclaw_decisions.jsonl'), 'utf-8');
+    const report = verifyDecisionHashes(content);
+    expect(report).toMatchObject({ valid: true, checked: 2, counts: { valid: 2, mismatch: 0 } });
+    expect(verifyDecisionHashes(content, held.decision_hash).checks).toEqual([
+      expect.objectContaining({ line: 1, status: 'valid', recomputed: held.decision_hash }),
+    ]);
+
+    const tampered = content.replace('"service":"api"', '"service":"billing"');
+    expect(verifyDecisionHashes(tampered)).toMatchObject({ valid: false, counts: { mismatch: 1 } });
+  });
+
+  test('recognizes records hashed before canonical JSON', () => {
+    const record = {
+      action: 'read_file',
+      resource: './a',
+      arguments: { path: './a', encoding: 'utf-8' },
+      verdict: 'ALLOW',
+      timestamp: 1700000000000,
+    };
+    const legacyHash = createHash('sha256').update(JSON.stringify(record)).digest('hex');
+    const event = {
+      event_id: '6f1c2b8e-0000-4000-8000-000000000000',
+      event_type: 'decision',
+      timestamp: new Date(record.timestamp).toISOString(),
+      verdict: 'ALLOW',
+      input_hash: 'x',
+      policy_id: 'legacy',
+      execution_attempted: false,
+      execution_result: null,
+      decision_hash: legacyHash,
+      action: record.action,
+      resource: record.resource,
+      arguments: record.arguments,
+    };
+
+    expect(verifyDecisionHashes(JSON.stringify(event)).checks[0]).toMatchObject({ status: 'legacy' });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Canonical Decision Event Tests
+ *
+ * Verifies that handlers and loggers emit events satisfying
+ * contracts/decision_event.schema.json and that legacy logs migrate.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { evaluateDecision, DecisionInput } from '../integrations/openclaw/decision_engine';
+import { toDecisionEvent, validateDecisionEvent } from '../proof/decision_event';
+import { DecisionLogger } from '../proof/decision_logger';
+import { migrateLegacyLog } from '../proof/log_migration';
+import { getDecisionLogPath, logDecisionEvent } from '../proof/openclaw_intercept/decision_logger';
+
+const input: DecisionInput = {
+  action: 'deploy_production',
+  resource: 'unknown',
+  arguments: { service: 'api-gateway' },
+  metadata: { source: 'openclaw', timestamp: 1771224000000, session_id: 'session-1' },
+};
+
+describe('Canonical decision events', () => {
+  test('engine decisions convert to schema-valid events', async () => {
+    const decision = await evaluateDecision(input);
+    const event = toDecisionEvent(decision, input, { source: 'openclaw', intercepted: true });
+
+    expect(validateDecisionEvent(event)).toEqual([]);
+    expect(event.verdict).toBe('HOLD');
+    expect(event.risk_score).toBe(0.7);
+    expect(event.input_hash).toMatch(/^[a-f0-9]{64}$/);
+    expect(event.metadata?.session_id).toBe('session-1');
+  });
+
+  test('events violating the contract are rejected', () => {
+    const errors = validateDecisionEvent({
+      event_id: 'not-a-uuid',
+      event_type: 'decision',
+      timestamp: 'yesterday',
+      verdict: 'MAYBE',
+      input_hash: 'abc',
+      risk_score: 7,
+    });
+
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('$.event_id'),
+        expect.stringContaining('$.timestamp'),
+        expect.stringContaining('$.verdict'),
+        expect.stringContaining('$.input_hash'),
+        '$.policy_id is required',
+        '$.risk_score must be <= 1',
+      ])
+    );
+  });
+
+  test('DecisionLogger writes canonical events', () => {
+    const logPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'ear-event-')), 'decision_log.jsonl');
+    new DecisionLogger(logPath).logDecision('rm -rf /', 'strict-threshold-1', 'STOP');
+
+    const event = JSON.parse(fs.readFileSync(logPath, 'utf-8'));
+    expect(event.verdict).toBe('STOP');
+    expect(event.execution_attempted).toBe(false);
+    expect(validateDecisionEvent(event)).toEqual([]);
+  });
+
+  test('records read back from the OpenClaw log satisfy the contract, chain proof included', async () => {
+    const logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ear-event-'));
+    process.env.EAR_OPENCLAW_LOG_DIR = logDir;
+    try {
+      const decision = await evaluateDecision(input);
+      await logDecisionEvent(toDecisionEvent(decision, input, { source: 'openclaw', intercepted: true }));
+      await logDecisionEvent(toDecisionEvent(decision, input, { source: 'openclaw', intercepted: true }));
+
+      const lines = fs.readFileSync(getDecisionLogPath(), 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines.map((line) => line.proof.seq)).toEqual([0, 1]);
+      expect(lines[0].proof.signature).toBeUndefined();
+      lines.forEach((line) => expect(validateDecisionEvent(line)).toEqual([]));
+
+      expect(validateDecisionEvent({ ...lines[1], proof: { signature: 'c2ln' } })).toEqual([
+        '$.proof.seq is required',
+        '$.proof.chain_hash is required',
+      ]);
+    } finally {
+      delete process.env.EAR_OPENCLAW_LOG_DIR;
+      fs.rmSync(logDir, { recursive: true, force: true });
+    }
+  });
+
+  test('legacy log formats migrate to canonical events', () => {
+    const legacy = [
+      JSON.stringify({
+        timestamp: '2026-02-15T06:45:00.000Z',
+        input_sha256: 'a'.repeat(64),
+        policy_id: 'strict-threshold-1',
+        decision: 'ALLOW',
+        execution_attempted: true,
+        execution_result: 'success',
+      }),
+      JSON.stringify({
+        input,
+        decision: { verdict: 'HOLD', reason: 'needs approval', risk_score: 7, decision_hash: 'h1', timestamp: 1771224000000 },
+        intercepted: true,
+        source: 'openclaw_mock',
+        logged_at: 1771224000001,
+      }),
+      JSON.stringify({
+        event: 'hold_transition',
+        transition: 'rejected',
+        decision_hash: 'h1',
+        action: 'deploy_production',
+        resolved_by: 'alice',
+        logged_at: 1771224000500,
+      }),
+      JSON.stringify({ timestamp: 'x', input_sha256: 'short', decision: 'STOP' }),
+    ].join('\n');
+
+    const result = migrateLegacyLog(legacy);
+
+    expect(result.migrated_count).toBe(3);
+    expect(result.skipped).toEqual([{ line: 4, reason: expect.stringContaining('$.timestamp') }]);
+    expect(result.events[1]).toMatchObject({ verdict: 'HOLD', risk_score: 0.7, policy_id: 'legacy-unversioned' });
+    expect(result.events[2]).toMatchObject({
+      event_type: 'hold_transition',
+      verdict: 'STOP',
+      hold: { transition: 'rejected', hold_decision_hash: 'h1', resolved_by: 'alice' },
+    });
+
+    // Deterministic event ids - re-running the migration is stable
+    expect(migrateLegacyLog(legacy).events.map((e) => e.event_id)).toEqual(
+      result.events.map((e) => e.event_id)
+    );
+  });
+
+  test("the repository's legacy decision_log.jsonl migrates completely", () => {
+    const content = fs.readFileSync(path.join(__dirname, '..', 'decision_log.jsonl'), 'utf-8');
+    const fingerprints = content.trim().split('\n').map((line) => JSON.parse(line).input_sha256);
+
+    const result = migrateLegacyLog(content);
+
+    expect(result.skipped).toEqual([]);
+    expect(result.migrated_count).toBe(fingerprints.length);
+    expect(result.events.map((e) => e.verdict)).toEqual(['STOP', 'ALLOW', 'HOLD']);
+    result.events.forEach((event, i) => {
+      expect(validateDecisionEvent(event)).toEqual([]);
+      expect(event.legacy_input_sha256).toBe(fingerprints[i]);
+      expect(event.input_hash).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    // Conforming fingerprints are kept as the input hash
+    const conforming = migrateLegacyLog(content.replace(fingerprints[0], 'a'.repeat(64))).events[0];
+    expect(conforming.input_hash).toBe('a'.repeat(64));
+    expect(conforming.legacy_input_sha256).toBeUndefined();
+  });
+});
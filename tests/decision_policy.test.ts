@@ -0,0 +1,125 @@
+/**
+ * Declarative Policy Tests
+ *
+ * Verifies that the decision engine evaluates the policy document
+ * and that malformed policies are rejected instead of falling back.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { evaluateDecision, DecisionInput } from '../integrations/openclaw/decision_engine';
+import { loadPolicy, globMatch, Policy } from '../integrations/openclaw/policy';
+
+function input(action: string, args: Record<string, any> = {}, resource = 'unknown'): DecisionInput {
+  return {
+    action,
+    resource,
+    arguments: args,
+    metadata: { source: 'test', timestamp: Date.now() },
+  };
+}
+
+function writePolicy(content: unknown): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ear-policy-'));
+  const file = path.join(dir, 'policy.json');
+  fs.writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+  return file;
+}
+
+describe('Declarative decision policy', () => {
+  test('default policy reproduces forbidden, approval and threshold verdicts', async () => {
+    const stop = await evaluateDecision(input('delete_server_files', { path: '/var/lib' }));
+    expect(stop.verdict).toBe('STOP');
+    expect(stop.risk_score).toBe(10);
+    expect(stop.policy_id).toBe('openclaw-default');
+    expect(stop.matched_rules).toEqual(['forbidden-actions']);
+
+    const hold = await evaluateDecision(input('deploy_production', { service: 'api' }));
+    expect(hold.verdict).toBe('HOLD');
+    expect(hold.reason).toBe('Action deploy_production requires external approval');
+
+    const scored = await evaluateDecision(input('execute_command', { command: 'rm -rf ./build', user: 'root' }));
+    expect(scored.verdict).toBe('HOLD');
+    expect(scored.risk_score).toBe(5);
+    expect(scored.matched_rules).toEqual(['destructive-arguments', 'privileged-arguments']);
+
+    const allow = await evaluateDecision(input('read_config', { file: '/app/config.json' }, '/app/config.json'));
+    expect(allow.verdict).toBe('ALLOW');
+    expect(allow.risk_score).toBe(0);
+  });
+
+  test('candidate policy matches on resource glob and argument path', async () => {
+    const policy: Policy = {
+      policy_id: 'candidate',
+      version: '2.0.0',
+      max_score: 10,
+      thresholds: { hold: 3, stop: 6 },
+      rules: [
+        {
+          id: 'etc-writes',
+          match: { action: ['write_*'], resource: ['/etc/*'] },
+          verdict: 'STOP',
+          score: 10,
+          reason: 'Write to {resource} blocked',
+        },
+        {
+          id: 'force-flag',
+          match: { arguments: [{ path: 'options.force', equals: true }] },
+          score: 4,
+        },
+      ],
+    };
+
+    const stop = await evaluateDecision(input('write_file', {}, '/etc/hosts'), policy);
+    expect(stop.verdict).toBe('STOP');
+    expect(stop.reason).toBe('Write to /etc/hosts blocked');
+    expect(stop.policy_id).toBe('candidate');
+
+    const hold = await evaluateDecision(input('sync', { options: { force: true } }), policy);
+    expect(hold.verdict).toBe('HOLD');
+    expect(hold.matched_rules).toEqual(['force-flag']);
+  });
+
+  test('risk factors explain the score with rule weights and evidence', async () => {
+    const held = await evaluateDecision(input('execute_command', { command: 'rm -rf ./build', user: 'root' }));
+
+    expect(held.risk_factors).toEqual([
+      { factor: 'destructive-arguments', weight: 0.3, evidence: 'arguments.command indicates destructive (rm -rf ./build)' },
+      { factor: 'privileged-arguments', weight: 0.2, evidence: 'arguments.user indicates privileged (identity root)' },
+    ]);
+    expect(held.reason).toBe(
+      'Risk score 5 requires approval (threshold 5) (destructive-arguments +3, privileged-arguments +2)'
+    );
+
+    const stop = await evaluateDecision(input('delete_server_files', {}));
+    expect(stop.risk_factors).toEqual([
+      { factor: 'forbidden-actions', weight: 1, evidence: "action matches 'delete_server_files'" },
+    ]);
+
+    const allow = await evaluateDecision(input('read_config', { file: '/app/config.json' }));
+    expect(allow.risk_factors).toEqual([]);
+  });
+
+  test('malformed policies are rejected at load time', () => {
+    expect(() => loadPolicy(writePolicy('{ not json'))).toThrow(/Failed to load policy/);
+
+    const invalid = writePolicy({
+      policy_id: 'broken',
+      version: '1',
+      max_score: 10,
+      thresholds: { hold: 9, stop: 4 },
+      rules: [{ id: 'r1', match: {}, verdict: 'MAYBE', score: -1 }],
+    });
+
+    expect(() => loadPolicy(invalid)).toThrow(/thresholds must satisfy/);
+    expect(() => loadPolicy(invalid)).toThrow(/verdict must be one of/);
+    expect(() => loadPolicy(invalid)).toThrow(/match must declare at least one/);
+  });
+
+  test('glob matching', () => {
+    expect(globMatch('*/etc/*', '/etc/passwd')).toBe(true);
+    expect(globMatch('write_?', 'write_a')).toBe(true);
+    expect(globMatch('read_*', 'write_file')).toBe(false);
+  });
+});
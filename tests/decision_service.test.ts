@@ -0,0 +1,182 @@
+/**
+ * HTTP Decision Service Tests
+ *
+ * Drives the service over real HTTP on an ephemeral port with the decision
+ * log redirected to a temporary directory, rotating after every record so
+ * reads span rotated segments.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createDecisionService } from '../integrations/http/decision_service';
+import { validateDecisionEvent } from '../proof/decision_event';
+import { JsonlLogStore } from '../proof/jsonl_log_store';
+import { openLogStore } from '../proof/log_store';
+import { getDecisionLogPath } from '../proof/openclaw_intercept/decision_logger';
+import { registerExecutor } from '../src/executor/executor_registry';
+
+const formatText = jest.fn(async (args: { text: string }) => args.text.toUpperCase());
+
+let server: Server;
+let baseUrl: string;
+
+function post(body: unknown) {
+  return fetch(`${baseUrl}/v1/tool-calls`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('HTTP decision service', () => {
+  beforeAll(async () => {
+    process.env.EAR_OPENCLAW_LOG_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'ear-service-'));
+    openLogStore(getDecisionLogPath(), { backend: 'jsonl', rotation: { max_bytes: 1 }, compress: true, retention: {} });
+    registerExecutor({
+      tool_name: 'format_text',
+      description: 'Test stub',
+      usage: '{ text: string }',
+      isValidArguments: (args: any): args is { text: string } => typeof args?.text === 'string',
+      execute: formatText,
+    });
+
+    server = createDecisionService();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    delete process.env.EAR_OPENCLAW_LOG_DIR;
+  });
+
+  test('submitted tool call returns the canonical decision event, fetchable by hash', async () => {
+    const response = await post({ tool_name: 'drop_database', arguments: { name: 'users' } });
+    expect(response.status).toBe(200);
+
+    const { decision }: any = await response.json();
+    expect(decision).toMatchObject({ event_type: 'decision', verdict: 'STOP', action: 'drop_database' });
+    expect(validateDecisionEvent(decision)).toEqual([]);
+
+    const fetched = await fetch(`${baseUrl}/v1/decisions/${decision.decision_hash}`);
+    expect(await fetched.json()).toEqual(decision);
+  });
+
+  test('ALLOWed calls are decided, never executed', async () => {
+    const body: any = await (await post({ tool_name: 'format_text', arguments: { text: 'hi' } })).json();
+    expect(body).toEqual({ decision: expect.objectContaining({ verdict: 'ALLOW' }) });
+    expect(formatText).not.toHaveBeenCalled();
+
+    const execute = await post({ tool_name: 'format_text', arguments: { text: 'hi' }, execute: true });
+    expect(execute.status).toBe(400);
+    expect(await execute.json()).toEqual({ error: 'execute is not supported: the service only returns verdicts' });
+    expect(formatText).not.toHaveBeenCalled();
+  });
+
+  test('recent decisions are listed newest last', async () => {
+    const decisions: any = await (await fetch(`${baseUrl}/v1/decisions?limit=2`)).json();
+
+    expect(decisions).toHaveLength(2);
+    expect(decisions.map((d: any) => d.action)).toEqual(['drop_database', 'format_text']);
+  });
+
+  test('stream replays recent decisions and pushes new ones', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/v1/decisions/stream?limit=1`, { signal: controller.signal });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    const nextEvent = async () => {
+      while (!text.includes('\n\n')) {
+        const { value } = await reader.read();
+        text += decoder.decode(value);
+      }
+      const [event, rest] = [text.slice(0, text.indexOf('\n\n')), text.slice(text.indexOf('\n\n') + 2)];
+      text = rest;
+      return JSON.parse(event.split('\n').find((line) => line.startsWith('data: '))!.slice(6));
+    };
+
+    expect((await nextEvent()).action).toBe('format_text');
+
+    await post({ tool_name: 'deploy_production', arguments: { service: 'api' } });
+    expect(await nextEvent()).toMatchObject({ action: 'deploy_production', verdict: 'HOLD' });
+
+    controller.abort();
+  });
+
+  test('decisions in rotated segments are listed and fetchable', async () => {
+    const first: any = await (await post({ tool_name: 'format_text', arguments: { text: 'one' } })).json();
+    await post({ tool_name: 'format_text', arguments: { text: 'two' } });
+
+    const store = openLogStore(getDecisionLogPath()) as JsonlLogStore;
+    expect(store.readIndex().segments.length).toBeGreaterThan(0);
+
+    const fetched = await fetch(`${baseUrl}/v1/decisions/${first.decision.decision_hash}`);
+    expect(await fetched.json()).toEqual(first.decision);
+
+    const decisions: any = await (await fetch(`${baseUrl}/v1/decisions?limit=2`)).json();
+    expect(decisions.map((d: any) => d.arguments.text)).toEqual(['one', 'two']);
+  });
+
+  test('decisions record the http source, keeping a client-supplied source apart', async () => {
+    const response = await post({
+      tool_name: 'read_config',
+      arguments: { file: '/app/config.json' },
+      metadata: { source: 'openclaw', session_id: 'session-http' },
+    });
+    const { decision }: any = await response.json();
+
+    expect(decision.source).toBe('http');
+    expect(decision.metadata).toEqual({ session_id: 'session-http', request_context: { client_source: 'openclaw' } });
+    expect(validateDecisionEvent(decision)).toEqual([]);
+  });
+
+  test('metadata.skill reaches skill-tier rules', async () => {
+    const response = await post({
+      tool_name: 'read_file',
+      arguments: { path: './vault/item.txt' },
+      metadata: { skill: '1password' },
+    });
+    const { decision }: any = await response.json();
+
+    expect(decision.verdict).toBe('HOLD');
+    expect(decision.matched_rules).toContain('critical-skills');
+  });
+
+  test('cross-site submissions are refused', async () => {
+    const body = JSON.stringify({ tool_name: 'execute_command', arguments: { command: 'echo owned > pwned.txt' } });
+
+    const plain = await fetch(`${baseUrl}/v1/tool-calls`, { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body });
+    expect(plain.status).toBe(415);
+
+    const foreign = await fetch(`${baseUrl}/v1/tool-calls`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: 'http://evil.example' },
+      body,
+    });
+    expect(foreign.status).toBe(403);
+
+    const sameOrigin = await fetch(`${baseUrl}/v1/tool-calls`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: baseUrl },
+      body,
+    });
+    expect(sameOrigin.status).toBe(200);
+  });
+
+  test('invalid requests are rejected with JSON errors', async () => {
+    const badBody = await post({ tool_name: 'format_text' });
+    expect(badBody.status).toBe(400);
+    expect(await badBody.json()).toEqual({ error: 'arguments must be an object' });
+
+    expect((await fetch(`${baseUrl}/v1/tool-calls`)).status).toBe(405);
+    expect((await fetch(`${baseUrl}/v1/decisions/not-a-hash`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/v1/decisions/${'0'.repeat(64)}`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/v1/unknown`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Execution Budget Tests
+ *
+ * Verifies per-session budgets downgrade ALLOW once exhausted, and that
+ * authority token constraints are enforced by per-token counters.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { receiveToolCall } from '../integrations/openclaw/openclaw_adapter';
+import { computeDecisionHash } from '../integrations/openclaw/decision_engine';
+import {
+  checkBudget,
+  configureBudgetStore,
+  FileBudgetStore,
+  InMemoryBudgetStore,
+  recordUsage,
+  releaseUsage,
+} from '../integrations/openclaw/budget_store';
+import { configureSessionBudget } from '../integrations/openclaw/execution_budget';
+import { issueAuthorityToken } from '../src/authority/authority_token';
+import { createExecutionFunction } from '../src/executor/allow_execution';
+import { registerExecutor } from '../src/executor/executor_registry';
+
+jest.mock('../proof/openclaw_intercept/decision_logger', () => ({
+  logDecisionEvent: jest.fn(async () => '/proof/proof_manifest.json'),
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function call(session_id?: string) {
+  return receiveToolCall({
+    tool_name: 'format_text',
+    arguments: { text: 'hello' },
+    metadata: { source: 'openclaw', timestamp: Date.now(), session_id },
+  });
+}
+
+describe('Session execution budgets', () => {
+  beforeEach(() => {
+    configureBudgetStore(new InMemoryBudgetStore());
+    configureSessionBudget({ limits: { max_executions: 2 }, on_exhausted: 'HOLD' });
+  });
+
+  afterAll(() => configureSessionBudget({ limits: {}, on_exhausted: 'HOLD' }));
+
+  test('ALLOW is downgraded to HOLD once the session budget is exhausted', async () => {
+    expect((await call('s1')).verdict).toBe('ALLOW');
+    expect((await call('s1')).verdict).toBe('ALLOW');
+
+    const third = await call('s1');
+    expect(third.verdict).toBe('HOLD');
+    expect(third.reason).toMatch(/^Session s1 exceeded max_executions \(2 in total, 2 used\)/);
+    expect(third.risk_factors.map((f) => f.factor)).toContain('session-budget');
+  });
+
+  test('downgrade verdict is configurable and re-hashed', async () => {
+    configureSessionBudget({ limits: { max_per_hour: 1 }, on_exhausted: 'STOP' });
+
+    await call('s2');
+    const denied = await call('s2');
+
+    expect(denied.verdict).toBe('STOP');
+    expect(denied.reason).toContain('max_per_hour (1 per hour, 1 used)');
+    expect(denied.decision_hash).toHaveLength(64);
+  });
+
+  test('sessions are counted independently and calls without session_id share one counter', async () => {
+    await call('a');
+    await call('a');
+
+    expect((await call('b')).verdict).toBe('ALLOW');
+    expect((await call()).verdict).toBe('ALLOW');
+    expect((await call()).verdict).toBe('ALLOW');
+
+    const third = await call();
+    expect(third.verdict).toBe('HOLD');
+    expect(third.reason).toMatch(/^Calls without a session_id exceeded max_executions \(2 in total, 2 used\)/);
+  });
+
+  test('released uses no longer count against the budget', () => {
+    const at = Date.now();
+    recordUsage('session:r', at - 1);
+    recordUsage('session:r', at);
+
+    expect(releaseUsage('session:r', at)).toBe(true);
+    expect(releaseUsage('session:r', at)).toBe(false);
+    expect(checkBudget('session:r', { max_executions: 2 })).toBeNull();
+    expect(checkBudget('session:r', { max_executions: 1, max_per_hour: 5 })).toMatchObject({ limit: 'max_executions', used: 1 });
+  });
+
+  test('hourly window slides while the daily window still counts', () => {
+    const start = Date.now();
+    recordUsage('session:w', start);
+
+    const later = start + HOUR_MS + 1;
+    expect(checkBudget('session:w', { max_per_hour: 1 }, later)).toBeNull();
+    expect(checkBudget('session:w', { max_per_day: 1 }, later)).toMatchObject({ limit: 'max_per_day', used: 1 });
+  });
+
+  test('file-backed store persists counters across store instances', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'ear-budget-')), 'budgets.json');
+
+    configureBudgetStore(new FileBudgetStore(file));
+    recordUsage('session:f');
+    recordUsage('session:f');
+
+    configureBudgetStore(new FileBudgetStore(file));
+    expect(checkBudget('session:f', { max_executions: 2 })).toMatchObject({ used: 2 });
+  });
+});
+
+describe('Authority token budgets', () => {
+  beforeAll(() => {
+    registerExecutor({
+      tool_name: 'format_text',
+      description: 'Test stub',
+      usage: '{ text: string }',
+      isValidArguments: (args: any): args is { text: string } => typeof args?.text === 'string',
+      execute: async (args) => args.text.toUpperCase(),
+    });
+  });
+
+  beforeEach(() => configureBudgetStore(new InMemoryBudgetStore()));
+
+  test('token rate_limit is enforced across capabilities sharing the token', async () => {
+    const proposal = { action: 'format_text', arguments: { text: 'hi' } };
+    const input = { ...proposal, resource: 'unknown', metadata: { source: 'openclaw', timestamp: Date.now() } };
+    const token = issueAuthorityToken(proposal, {
+      decision_hash: computeDecisionHash(input, 'ALLOW', input.metadata.timestamp),
+      constraints: { max_executions: 5, rate_limit: { max_per_hour: 1 } },
+    });
+    const context = { tool_name: proposal.action, arguments: proposal.arguments };
+
+    expect(await createExecutionFunction(context, token)()).toMatchObject({ success: true });
+    expect(await createExecutionFunction(context, token)()).toMatchObject({
+      success: false,
+      error_code: 'budget_exhausted',
+      error: expect.stringContaining('max_per_hour (1 per hour, 1 used)'),
+    });
+  });
+});
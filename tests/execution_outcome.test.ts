@@ -0,0 +1,98 @@
+/**
+ * Execution Outcome Tests
+ *
+ * Verifies that the ALLOW capability logs started/succeeded/failed events
+ * linked to the decision by decision_hash, and that it can only be used once.
+ */
+
+import { receiveToolCall } from '../integrations/openclaw/openclaw_adapter';
+import { canExecute } from '../src/types/execution_capability';
+import { registerExecutor } from '../src/executor/executor_registry';
+import { computeResultDigest, validateDecisionEvent } from '../proof/decision_event';
+import { logDecisionEvent } from '../proof/openclaw_intercept/decision_logger';
+
+jest.mock('../proof/openclaw_intercept/decision_logger', () => ({
+  logDecisionEvent: jest.fn(async () => '/proof/proof_manifest.json'),
+}));
+
+function outcomeEvents() {
+  return (logDecisionEvent as jest.Mock).mock.calls
+    .map(([event]) => event)
+    .filter((event) => event.event_type === 'execution_outcome');
+}
+
+async function allowCall(text: string) {
+  const result = await receiveToolCall({ tool_name: 'format_text', arguments: { text } });
+  if (!canExecute(result)) throw new Error(`expected ALLOW, got ${result.verdict}`);
+  return result;
+}
+
+describe('Execution outcome events', () => {
+  beforeAll(() => {
+    registerExecutor({
+      tool_name: 'format_text',
+      description: 'Test stub',
+      usage: '{ text: string }',
+      isValidArguments: (args: any): args is { text: string } => typeof args?.text === 'string',
+      execute: async (args) => {
+        if (args.text === 'fail') throw new Error('formatter crashed');
+        return args.text.toUpperCase();
+      },
+    });
+  });
+
+  beforeEach(() => jest.clearAllMocks());
+
+  test('successful execution logs started and succeeded events linked by decision_hash', async () => {
+    const allowed = await allowCall('hello');
+    const result = await allowed.execute();
+
+    expect(result).toMatchObject({ success: true, result: 'HELLO' });
+
+    const [started, succeeded] = outcomeEvents();
+    expect(started).toMatchObject({
+      verdict: 'ALLOW',
+      decision_hash: allowed.decision_hash,
+      execution_result: null,
+      execution: { phase: 'started' },
+    });
+    expect(succeeded).toMatchObject({
+      decision_hash: allowed.decision_hash,
+      execution_attempted: true,
+      execution_result: 'success',
+      execution: { phase: 'succeeded', result_digest: computeResultDigest({ result: 'HELLO' }) },
+    });
+    expect(succeeded.execution.duration_ms).toBeGreaterThanOrEqual(0);
+    expect(validateDecisionEvent(succeeded)).toEqual([]);
+  });
+
+  test('failed execution is logged with the error', async () => {
+    const allowed = await allowCall('fail');
+    const result = await allowed.execute();
+
+    expect(result).toMatchObject({ success: false, error_code: 'execution_failed' });
+    expect(outcomeEvents()[1]).toMatchObject({
+      execution_result: 'error',
+      execution: { phase: 'failed', error: 'formatter crashed', error_code: 'execution_failed' },
+    });
+  });
+
+  test('execute() is single use - repeated and concurrent calls are rejected and logged', async () => {
+    const allowed = await allowCall('once');
+
+    const [first, second] = await Promise.all([allowed.execute(), allowed.execute()]);
+    const third = await allowed.execute();
+
+    expect(first.success).toBe(true);
+    expect(second).toMatchObject({ success: false, error_code: 'already_executed' });
+    expect(third).toMatchObject({ success: false, error_code: 'already_executed' });
+
+    const rejected = outcomeEvents().filter((e) => e.execution.phase === 'rejected');
+    expect(rejected).toHaveLength(2);
+    expect(rejected[0]).toMatchObject({
+      verdict: 'STOP',
+      decision_hash: allowed.decision_hash,
+      execution_attempted: false,
+    });
+  });
+});
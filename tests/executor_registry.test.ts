@@ -0,0 +1,121 @@
+/**
+ * Executor Registry Tests
+ *
+ * Verifies that executeAction dispatches to registered tool executors,
+ * validates arguments against their schema guards and reports unknown
+ * tools as structured errors.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { executeAction } from '../src/executor/executor';
+import { listExecutors, registerExecutor, unregisterExecutor } from '../src/executor/executor_registry';
+
+describe('Tool executor registry', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'ear-workspace-'));
+    process.env.EAR_WORKSPACE_ROOT = workspace;
+  });
+
+  afterEach(() => {
+    delete process.env.EAR_WORKSPACE_ROOT;
+  });
+
+  test('unknown tools and invalid arguments return structured errors', async () => {
+    expect(listExecutors()).toEqual(['execute_command', 'http_fetch', 'read_file', 'run_command', 'write_file']);
+
+    const unknown = await executeAction({ tool_name: 'launch_rockets', arguments: {} });
+    expect(unknown).toMatchObject({ success: false, error_code: 'unknown_tool' });
+
+    const invalid = await executeAction({ tool_name: 'read_file', arguments: { path: 42 } });
+    expect(invalid).toMatchObject({ success: false, error_code: 'invalid_arguments' });
+    expect(invalid.error).toContain('{ path: string');
+  });
+
+  test('filesystem executors are confined to the workspace', async () => {
+    const written = await executeAction({
+      tool_name: 'write_file',
+      arguments: { path: 'notes/a.txt', content: 'hello' },
+    });
+    expect(written).toMatchObject({ success: true, result: { bytes_written: 5 } });
+
+    const read = await executeAction({ tool_name: 'read_file', arguments: { path: 'notes/a.txt' } });
+    expect(read.result).toMatchObject({ content: 'hello', truncated: false });
+
+    const escaped = await executeAction({ tool_name: 'read_file', arguments: { path: '../../etc/passwd' } });
+    expect(escaped).toMatchObject({ success: false, error_code: 'execution_failed' });
+    expect(escaped.error).toMatch(/outside the workspace/);
+  });
+
+  test('http_fetch reaches a local stub and refuses other hosts', async () => {
+    const server = http.createServer((req, res) => res.end(`stub ${req.method} ${req.url}`));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const fetched = await executeAction({
+        tool_name: 'http_fetch',
+        arguments: { url: `http://127.0.0.1:${port}/status` },
+      });
+      expect(fetched.result).toMatchObject({ status: 200, body: 'stub GET /status' });
+
+      const remote = await executeAction({ tool_name: 'http_fetch', arguments: { url: 'https://example.com/' } });
+      expect(remote.error).toMatch(/not in the HTTP allowlist/);
+    } finally {
+      server.close();
+    }
+  });
+
+  test('http_fetch stops reading an endless body at the cap', async () => {
+    let closed = false;
+    const chunk = Buffer.alloc(64 * 1024, 'a');
+    const server = http.createServer((_req, res) => {
+      res.on('close', () => (closed = true));
+      const pump = () => {
+        while (!closed && res.write(chunk));
+        if (!closed) res.once('drain', pump);
+      };
+      pump();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const fetched = await executeAction({
+        tool_name: 'http_fetch',
+        arguments: { url: `http://127.0.0.1:${port}/stream`, timeout_ms: 5000 },
+      });
+      expect(fetched).toMatchObject({ success: true, result: { status: 200, truncated: true } });
+      expect((fetched.result as { body: string }).body).toHaveLength(1_048_576);
+
+      // The request was aborted, not left streaming
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(closed).toBe(true);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+
+  test('custom executors can be registered and replaced', async () => {
+    const echo = {
+      tool_name: 'echo',
+      description: 'Echoes its message',
+      usage: '{ message: string }',
+      isValidArguments: (args: any): args is { message: string } => typeof args?.message === 'string',
+      execute: async (args: { message: string }) => args.message,
+    };
+
+    registerExecutor(echo);
+    expect(() => registerExecutor(echo)).toThrow(/already registered/);
+    registerExecutor({ ...echo, execute: async (args) => args.message.toUpperCase() }, { replace: true });
+
+    expect((await executeAction({ tool_name: 'echo', arguments: { message: 'hi' } })).result).toBe('HI');
+    expect(unregisterExecutor('echo')).toBe(true);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Fail-Closed Tests
+ *
+ * Injects faults into every stage of the mediation pipeline (decision
+ * engine, verdict handler, decision log, execution start log) and verifies
+ * that each one yields a STOP with a distinct error_code - or a denied
+ * execution - without the executor ever being reached, and without an
+ * ALLOW or HOLD left behind in the log, the approval store or the session.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { receiveToolCall } from '../integrations/openclaw/openclaw_adapter';
+import { getApprovalStore, PendingHold } from '../integrations/openclaw/approval_store';
+import { getSessionHistory } from '../integrations/openclaw/session_context';
+import { configureBudgetStore, InMemoryBudgetStore } from '../integrations/openclaw/budget_store';
+import { configureSessionBudget } from '../integrations/openclaw/execution_budget';
+import * as engine from '../integrations/openclaw/decision_engine';
+import * as authority from '../src/authority/authority_token';
+import * as executor from '../src/executor/executor';
+import { registerExecutor } from '../src/executor/executor_registry';
+import { canExecute, DecisionResult } from '../src/types/execution_capability';
+
+const toolExecute = jest.fn(async (args: { text: string }) => args.text.toUpperCase());
+
+function call(text = 'hello'): Promise<DecisionResult> {
+  return receiveToolCall({ tool_name: 'format_text', arguments: { text }, metadata: { source: 'test', timestamp: Date.now() } });
+}
+
+function hold(session_id: string): Promise<DecisionResult> {
+  return receiveToolCall({
+    tool_name: 'deploy_production',
+    arguments: { service: 'api' },
+    metadata: { source: 'test', timestamp: Date.now(), session_id },
+  });
+}
+
+function pendingHolds(session_id: string): PendingHold[] {
+  return getApprovalStore()
+    .list()
+    .filter((held) => held.status === 'pending' && held.input.metadata.session_id === session_id);
+}
+
+function loggedEvents(logDir: string): any[] {
+  const logPath = path.join(logDir, 'openclaw_decisions.jsonl');
+  if (!fs.existsSync(logPath) || fs.statSync(logPath).isDirectory()) return [];
+  return fs.readFileSync(logPath, 'utf-8').trim().split('\n').map((line) => JSON.parse(line));
+}
+
+describe('Fail-closed mediation', () => {
+  let logDir: string;
+  let executeSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    registerExecutor({
+      tool_name: 'format_text',
+      description: 'Test stub',
+      usage: '{ text: string }',
+      isValidArguments: (args: any): args is { text: string } => typeof args?.text === 'string',
+      execute: toolExecute,
+    });
+  });
+
+  beforeEach(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ear-fail-closed-'));
+    process.env.EAR_OPENCLAW_LOG_DIR = logDir;
+    executeSpy = jest.spyOn(executor, 'executeAction');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    toolExecute.mockClear();
+    delete process.env.EAR_OPENCLAW_LOG_DIR;
+    delete process.env.EAR_DECISION_TIMEOUT_MS;
+    delete process.env.EAR_MANIFEST_LOCK_TIMEOUT_MS;
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  test('the unfaulted pipeline allows and executes', async () => {
+    const result = await call();
+    expect(canExecute(result) && (await result.execute())).toMatchObject({ success: true, result: 'HELLO' });
+    expect(executeSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test('a decision engine exception becomes STOP evaluation_failed', async () => {
+    jest.spyOn(engine, 'evaluateDecision').mockRejectedValue(new Error('policy store unavailable'));
+
+    const result = await call();
+    expect(result).toMatchObject({ verdict: 'STOP', error_code: 'evaluation_failed', executed: false });
+    expect(result.reason).toContain('policy store unavailable');
+    expect(result).not.toHaveProperty('execute');
+
+    // The denial is logged as a fail-closed STOP
+    expect(loggedEvents(logDir)).toEqual([
+      expect.objectContaining({ verdict: 'STOP', policy_id: 'fail-closed', decision_hash: result.decision_hash }),
+    ]);
+  });
+
+  test('a tool call without an arguments object becomes STOP evaluation_failed', async () => {
+    for (const args of [null, undefined, 'rm -rf /']) {
+      const result = await receiveToolCall({ tool_name: 'format_text', arguments: args as any });
+      expect(result).toMatchObject({ verdict: 'STOP', error_code: 'evaluation_failed', executed: false });
+      expect(result.reason).toContain('Tool call format_text has no arguments object');
+    }
+
+    expect(loggedEvents(logDir).map((event) => [event.verdict, event.policy_id])).toEqual([
+      ['STOP', 'fail-closed'],
+      ['STOP', 'fail-closed'],
+      ['STOP', 'fail-closed'],
+    ]);
+    expect(executeSpy).not.toHaveBeenCalled();
+  });
+
+  test('a pipeline that does not finish in time becomes STOP pipeline_timeout', async () => {
+    process.env.EAR_DECISION_TIMEOUT_MS = '50';
+    const evaluate = jest.requireActual('../integrations/openclaw/decision_engine').evaluateDecision;
+    jest.spyOn(engine, 'evaluateDecision').mockImplementation(async (input) => {
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      return evaluate(input);
+    });
+
+    const result = await call();
+    expect(result).toMatchObject({ verdict: 'STOP', error_code: 'pipeline_timeout' });
+
+    // The late ALLOW is neither returned nor logged
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(loggedEvents(logDir).map((event) => event.verdict)).toEqual(['STOP']);
+    expect(executeSpy).not.toHaveBeenCalled();
+  });
+
+  test('a verdict handler exception becomes STOP handler_failed', async () => {
+    jest.spyOn(authority, 'issueAuthorityToken').mockImplementation(() => {
+      throw new Error('signing key unavailable');
+    });
+
+    const result = await call();
+    expect(result).toMatchObject({ verdict: 'STOP', error_code: 'handler_failed' });
+    expect(executeSpy).not.toHaveBeenCalled();
+  });
+
+  test('a withdrawn ALLOW gives back the session budget it used', async () => {
+    configureBudgetStore(new InMemoryBudgetStore());
+    configureSessionBudget({ limits: { max_executions: 1 } });
+    try {
+      jest.spyOn(authority, 'issueAuthorityToken').mockImplementationOnce(() => {
+        throw new Error('signing key unavailable');
+      });
+      expect(await call()).toMatchObject({ verdict: 'STOP', error_code: 'handler_failed' });
+
+      // The budget's only execution is still available
+      expect((await call()).verdict).toBe('ALLOW');
+      expect((await call()).verdict).toBe('HOLD');
+    } finally {
+      configureSessionBudget({ limits: {} });
+    }
+  });
+
+  test('a failed proof manifest write after ALLOW becomes STOP log_write_failed', async () => {
+    fs.mkdirSync(path.join(logDir, 'proof_manifest.json')); // Manifest writes fail with EISDIR
+
+    const result = await call();
+    expect(result).toMatchObject({ verdict: 'STOP', error_code: 'log_write_failed', executed: false });
+    expect(result).not.toHaveProperty('execute');
+
+    // The ALLOW is only logged together with its manifest entry; no capability was returned
+    expect(loggedEvents(logDir).map((event) => event.verdict)).toEqual(['STOP']);
+    expect(executeSpy).not.toHaveBeenCalled();
+  });
+
+  test('a failed decision log write becomes STOP log_write_failed', async () => {
+    fs.mkdirSync(path.join(logDir, 'openclaw_decisions.jsonl')); // Log appends fail with EISDIR
+
+    const result = await call();
+    expect(result).toMatchObject({ verdict: 'STOP', error_code: 'log_write_failed' });
+    expect(executeSpy).not.toHaveBeenCalled();
+
+    // Manifest entries are written before the append and taken back out when it fails
+    const manifest = JSON.parse(fs.readFileSync(path.join(logDir, 'proof_manifest.json'), 'utf-8'));
+    expect(manifest.decisions).toEqual([]);
+  });
+
+  test('a HOLD that cannot be logged is withdrawn and cannot be approved', async () => {
+    fs.mkdirSync(path.join(logDir, 'openclaw_decisions.jsonl')); // Log appends fail with EISDIR
+
+    const result = await hold('session-unlogged-hold');
+    expect(result).toMatchObject({ verdict: 'STOP', error_code: 'log_write_failed' });
+
+    expect(pendingHolds('session-unlogged-hold')).toEqual([]);
+    expect(getSessionHistory('session-unlogged-hold')).toEqual([]);
+  });
+
+  test('a manifest lock timeout leaves no HOLD record and no pending hold', async () => {
+    process.env.EAR_MANIFEST_LOCK_TIMEOUT_MS = '100';
+    fs.writeFileSync(path.join(logDir, 'proof_manifest.json.lock'), '1\n'); // Held by another process
+
+    const result = await hold('session-locked-manifest');
+    expect(result).toMatchObject({ verdict: 'STOP', error_code: 'log_write_failed' });
+
+    // Appends need the lock too, so not even the fail-closed STOP could be logged
+    expect(loggedEvents(logDir)).toEqual([]);
+    expect(pendingHolds('session-locked-manifest')).toEqual([]);
+    expect(getSessionHistory('session-locked-manifest')).toEqual([]);
+  });
+
+  test('an execution start that cannot be logged is denied before the executor', async () => {
+    const result = await call();
+    if (!canExecute(result)) throw new Error(`expected ALLOW, got ${result.verdict}`);
+
+    const logPath = path.join(logDir, 'openclaw_decisions.jsonl');
+    fs.rmSync(logPath);
+    fs.mkdirSync(logPath);
+
+    expect(await result.execute()).toMatchObject({ success: false, error_code: 'log_write_failed' });
+    expect(executeSpy).not.toHaveBeenCalled();
+    expect(toolExecute).not.toHaveBeenCalled();
+  });
+});
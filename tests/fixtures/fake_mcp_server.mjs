@@ -0,0 +1,46 @@
+// Minimal MCP stdio server used as the proxy's upstream in tests.
+// Tools: echo (returns its text), received (names of the tool calls seen so far)
+// and last_call (the raw line of the previous tools/call).
+import * as readline from 'readline';
+
+const received = [];
+let lastCall = '';
+const reply = (id, result) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id, result }) + '\n');
+const text = (value) => ({ content: [{ type: 'text', text: value }] });
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const message = JSON.parse(line);
+  if (message.id === undefined) return; // Notification
+
+  switch (message.method) {
+    case 'initialize':
+      reply(message.id, {
+        protocolVersion: message.params?.protocolVersion ?? '2025-06-18',
+        capabilities: { tools: {} },
+        serverInfo: { name: 'fake-upstream', version: '0.0.0' },
+      });
+      break;
+    case 'tools/list':
+      reply(message.id, {
+        tools: [
+          { name: 'echo', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } },
+          { name: 'received', inputSchema: { type: 'object' } },
+          { name: 'last_call', inputSchema: { type: 'object' } },
+        ],
+      });
+      break;
+    case 'tools/call':
+      if (message.params.name === 'last_call') {
+        reply(message.id, text(lastCall));
+        break;
+      }
+      received.push(message.params.name);
+      lastCall = line;
+      reply(message.id, message.params.name === 'received' ? text(received.join(',')) : text(message.params.arguments?.text ?? ''));
+      break;
+    default:
+      process.stdout.write(
+        JSON.stringify({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } }) + '\n'
+      );
+  }
+});
@@ -0,0 +1,106 @@
+/**
+ * Hash-Chained Decision Log Tests
+ *
+ * Verifies that appended records are linked and that edits, deletions,
+ * reorderings and forged signatures are reported at the first affected line,
+ * and that unchained legacy records are only accepted when allowed.
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DecisionLogger } from '../proof/decision_logger';
+import { appendChainedRecord, setLogSigningKey, verifyChain, verifyLogFile } from '../proof/hash_chain';
+
+function tempLog(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'ear-chain-')), 'decision_log.jsonl');
+}
+
+function writeDecisions(logPath: string, count: number): string[] {
+  const logger = new DecisionLogger(logPath);
+  for (let i = 0; i < count; i++) {
+    logger.logDecision(`input-${i}`, 'strict-threshold-1', i % 2 === 0 ? 'STOP' : 'ALLOW', 'success');
+  }
+  return fs.readFileSync(logPath, 'utf-8').trim().split('\n');
+}
+
+describe('Hash-chained decision log', () => {
+  afterEach(() => setLogSigningKey(null));
+
+  test('appended records form an intact chain', () => {
+    const logPath = tempLog();
+    const lines = writeDecisions(logPath, 4);
+
+    expect(JSON.parse(lines[0]).proof.seq).toBe(0);
+    expect(JSON.parse(lines[3]).proof.seq).toBe(3);
+    expect(verifyLogFile(logPath)).toEqual({
+      valid: true,
+      total_records: 4,
+      legacy_records: 0,
+      verified_records: 4,
+    });
+  });
+
+  test('modified, deleted and reordered lines are reported', () => {
+    const lines = writeDecisions(tempLog(), 4);
+
+    const modified = [...lines];
+    modified[1] = modified[1].replace('"ALLOW"', '"STOP"');
+    expect(verifyChain(modified.join('\n')).first_break).toMatchObject({ line: 3, kind: 'broken_link' });
+
+    const deleted = lines.filter((_, i) => i !== 1);
+    expect(verifyChain(deleted.join('\n')).first_break).toMatchObject({ line: 2, kind: 'deleted' });
+
+    const reordered = [lines[0], lines[2], lines[1], lines[3]];
+    expect(verifyChain(reordered.join('\n')).first_break).toMatchObject({ line: 2, kind: 'reordered' });
+  });
+
+  test('legacy records fail unless explicitly allowed', () => {
+    const lines = writeDecisions(tempLog(), 3);
+    const stripped = lines.map((line) => {
+      const { proof, ...record } = JSON.parse(line);
+      return JSON.stringify(record);
+    });
+
+    expect(verifyChain(stripped.join('\n'))).toMatchObject({
+      valid: false,
+      legacy_records: 3,
+      verified_records: 0,
+      first_break: { line: 1, kind: 'unchained' },
+    });
+    expect(verifyChain(stripped.join('\n'), undefined, undefined, true)).toEqual({
+      valid: true,
+      total_records: 3,
+      legacy_records: 3,
+      verified_records: 0,
+    });
+
+    // A chain preceded by a legacy record fails at the legacy record
+    const mixed = [...stripped.slice(0, 1), ...lines.slice(1)].join('\n');
+    expect(verifyChain(mixed)).toMatchObject({ legacy_records: 1, first_break: { line: 1, kind: 'unchained' } });
+  });
+
+  test('concurrent async appends stay linked', async () => {
+    const logPath = tempLog();
+    await Promise.all(
+      Array.from({ length: 25 }, (_, i) => appendChainedRecord(logPath, { event: 'test', i }))
+    );
+
+    expect(verifyLogFile(logPath).verified_records).toBe(25);
+  });
+
+  test('signed records verify and forged signatures are rejected', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    setLogSigningKey(privateKey);
+
+    const lines = writeDecisions(tempLog(), 2);
+    expect(verifyChain(lines.join('\n'), publicKey).valid).toBe(true);
+
+    const other = generateKeyPairSync('ed25519');
+    expect(verifyChain(lines.join('\n'), other.publicKey).first_break).toMatchObject({
+      line: 1,
+      kind: 'bad_signature',
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * HOLD Approval Workflow Tests
+ *
+ * Verifies that HOLD decisions are persisted, can be approved into a fresh
+ * ALLOW capability (through the same pipeline as a new tool call) or
+ * rejected, expire after their TTL, and that every transition is logged
+ * before the hold changes status.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { receiveToolCall } from '../integrations/openclaw/openclaw_adapter';
+import {
+  configureApprovalStore,
+  FileApprovalStore,
+  getApprovalStore,
+  InMemoryApprovalStore,
+} from '../integrations/openclaw/approval_store';
+import {
+  approveHold,
+  expireHolds,
+  listPendingHolds,
+  rejectHold,
+} from '../integrations/openclaw/hold_approvals';
+import { configureSessionBudget } from '../integrations/openclaw/execution_budget';
+import { clearSessionContext, getSessionHistory } from '../integrations/openclaw/session_context';
+import { registerExecutor } from '../src/executor/executor_registry';
+import { canExecute } from '../src/types/execution_capability';
+import { logDecisionEvent } from '../proof/openclaw_intercept/decision_logger';
+
+jest.mock('../proof/openclaw_intercept/decision_logger', () => ({
+  logDecisionEvent: jest.fn(async () => '/proof/proof_manifest.json'),
+}));
+
+function transition(name: string, extra: Record<string, unknown> = {}) {
+  return expect.objectContaining({
+    event_type: 'hold_transition',
+    hold: expect.objectContaining({ transition: name, ...extra }),
+  });
+}
+
+function deployCall(version: string) {
+  return {
+    tool_name: 'deploy_production',
+    arguments: { service: 'api-gateway', version },
+    metadata: { source: 'openclaw_mock', timestamp: Date.now(), session_id: 'session-1' },
+  };
+}
+
+describe('HOLD approval workflow', () => {
+  beforeAll(() => {
+    registerExecutor({
+      tool_name: 'deploy_production',
+      description: 'Test stub',
+      usage: '{ service: string, version: string }',
+      isValidArguments: (args: any): args is { service: string; version: string } =>
+        typeof args?.service === 'string' && typeof args?.version === 'string',
+      execute: async (args) => ({ deployed: `${args.service}@${args.version}` }),
+    });
+  });
+
+  beforeEach(() => {
+    configureApprovalStore({ store: new InMemoryApprovalStore(), ttl_ms: 60_000 });
+    clearSessionContext();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    configureSessionBudget({ limits: {} });
+  });
+
+  test('approved hold resumes through the ALLOW path', async () => {
+    const held = await receiveToolCall(deployCall('v1'));
+    expect(held.verdict).toBe('HOLD');
+
+    const pending = await listPendingHolds();
+    expect(pending.map((h) => h.decision_hash)).toEqual([held.decision_hash]);
+    expect(pending[0].tool_call.arguments).toEqual({ service: 'api-gateway', version: 'v1' });
+
+    const allowed = await approveHold(held.decision_hash, { approver: 'alice', comment: 'change ticket 42' });
+    if (!canExecute(allowed)) throw new Error(`Expected ALLOW, got ${allowed.verdict}`);
+    expect(allowed.decision_hash).not.toBe(held.decision_hash);
+    expect(allowed.reason).toContain('approved by alice');
+
+    // The approved ALLOW is recorded in the session like any enforced decision
+    expect(getSessionHistory('session-1').map((entry) => entry.decision_hash)).toContain(allowed.decision_hash);
+
+    const result = await allowed.execute();
+    expect(result).toMatchObject({ success: true, result: { deployed: 'api-gateway@v1' } });
+
+    expect(await listPendingHolds()).toEqual([]);
+    expect(logDecisionEvent).toHaveBeenCalledWith(
+      transition('approved', { hold_decision_hash: held.decision_hash, resolved_by: 'alice' })
+    );
+
+    await expect(approveHold(held.decision_hash, { approver: 'bob' })).rejects.toThrow(/already approved/);
+  });
+
+  test('rejected hold cannot be approved', async () => {
+    const held = await receiveToolCall(deployCall('v2'));
+
+    const rejected = await rejectHold(held.decision_hash, { approver: 'alice', comment: 'no window' });
+    expect(rejected.status).toBe('rejected');
+    expect(logDecisionEvent).toHaveBeenCalledWith(transition('rejected'));
+
+    await expect(approveHold(held.decision_hash, { approver: 'alice' })).rejects.toThrow(/already rejected/);
+  });
+
+  test('holds expire after the configured TTL', async () => {
+    configureApprovalStore({ ttl_ms: 1000 });
+    const held = await receiveToolCall(deployCall('v3'));
+
+    const expired = await expireHolds(Date.now() + 1000);
+    expect(expired.map((h) => h.decision_hash)).toEqual([held.decision_hash]);
+    expect(logDecisionEvent).toHaveBeenCalledWith(transition('expired', { resolved_by: 'system' }));
+
+    await expect(approveHold(held.decision_hash, { approver: 'alice' })).rejects.toThrow(/already expired/);
+  });
+
+  test('approved hold is counted against the session budget', async () => {
+    const held = await receiveToolCall(deployCall('v4'));
+    jest.spyOn(Date, 'now').mockReturnValue(getApprovalStore().get(held.decision_hash)!.decision.timestamp);
+    configureSessionBudget({ limits: { max_executions: 0 } });
+
+    const result = await approveHold(held.decision_hash, { approver: 'alice' });
+    expect(result.verdict).toBe('HOLD');
+    expect(result.reason).toMatch(/^Session session-1 exceeded max_executions/);
+    expect(result.decision_hash).not.toBe(held.decision_hash);
+
+    // The new HOLD does not replace the approved one
+    expect(getApprovalStore().get(held.decision_hash)).toMatchObject({ status: 'approved' });
+  });
+
+  test('a transition that cannot be logged leaves the hold pending', async () => {
+    const held = await receiveToolCall(deployCall('v5'));
+
+    (logDecisionEvent as jest.Mock).mockRejectedValueOnce(new Error('disk full'));
+    await expect(rejectHold(held.decision_hash, { approver: 'alice' })).rejects.toThrow('disk full');
+    expect(getApprovalStore().get(held.decision_hash)).toMatchObject({ status: 'pending' });
+
+    (logDecisionEvent as jest.Mock).mockRejectedValueOnce(new Error('disk full'));
+    await expect(approveHold(held.decision_hash, { approver: 'alice' })).rejects.toThrow('disk full');
+    expect(getApprovalStore().get(held.decision_hash)).toMatchObject({ status: 'pending' });
+    expect(getApprovalStore().get(held.decision_hash)!.resolution).toBeUndefined();
+
+    // The retry succeeds
+    const allowed = await approveHold(held.decision_hash, { approver: 'alice' });
+    expect(allowed.verdict).toBe('ALLOW');
+  });
+
+  test('concurrent resolutions of one hold cannot both succeed', async () => {
+    const held = await receiveToolCall(deployCall('v6'));
+
+    const results = await Promise.allSettled([
+      approveHold(held.decision_hash, { approver: 'alice' }),
+      rejectHold(held.decision_hash, { approver: 'bob' }),
+    ]);
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toMatch(/already being resolved/);
+  });
+
+  test('file-backed holds can be approved by another process', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ear-approvals-'));
+    const storePath = path.join(dir, 'holds.json');
+    try {
+      configureApprovalStore({ store: new FileApprovalStore(storePath) });
+      const held = await receiveToolCall(deployCall('v7'));
+
+      // A fresh store on the same file stands in for another process
+      configureApprovalStore({ store: new FileApprovalStore(storePath) });
+      expect((await listPendingHolds()).map((hold) => hold.decision_hash)).toEqual([held.decision_hash]);
+
+      const allowed = await approveHold(held.decision_hash, { approver: 'alice' });
+      expect(allowed.verdict).toBe('ALLOW');
+      expect(new FileApprovalStore(storePath).get(held.decision_hash)).toMatchObject({
+        status: 'approved',
+        resolution: { by: 'alice' },
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
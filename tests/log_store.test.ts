@@ -0,0 +1,194 @@
+/**
+ * Log Store Tests
+ *
+ * Verifies rotation, gzip and retention of the JSONL backend (with the hash
+ * chain continuing across segments), lookups of the indexed backend and
+ * backend selection by configuration.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { gunzipSync } from 'zlib';
+import { JsonlLogStore } from '../proof/jsonl_log_store';
+import { IndexedLogStore } from '../proof/indexed_log_store';
+import { loadLogStoreConfig, LogStoreConfig, openLogStore } from '../proof/log_store';
+import type { DecisionEvent, EventVerdict } from '../proof/decision_event';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function event(n: number, overrides: Partial<DecisionEvent> = {}): DecisionEvent {
+  const verdicts: EventVerdict[] = ['ALLOW', 'STOP', 'HOLD'];
+  return {
+    event_id: randomUUID(),
+    event_type: 'decision',
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, n)).toISOString(),
+    verdict: verdicts[n % 3],
+    input_hash: 'a'.repeat(64),
+    policy_id: 'test',
+    execution_attempted: false,
+    execution_result: null,
+    metadata: { session_id: `session-${n % 2}` },
+    decision_hash: `hash-${n}`,
+    ...overrides,
+  };
+}
+
+function jsonlConfig(overrides: Partial<LogStoreConfig> = {}): LogStoreConfig {
+  return { backend: 'jsonl', rotation: {}, compress: true, retention: {}, ...overrides };
+}
+
+describe('Log storage backends', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ear-log-store-'));
+    logPath = path.join(dir, 'decisions.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('JSONL backend', () => {
+    test('rotates by size into gzipped segments and keeps one chain', () => {
+      const store = new JsonlLogStore(logPath, jsonlConfig({ rotation: { max_bytes: 1200 } }));
+      for (let n = 0; n < 20; n++) store.append(event(n));
+
+      const { segments } = store.readIndex();
+      expect(segments.length).toBeGreaterThan(2);
+      expect(segments.every((segment) => segment.file.endsWith('.jsonl.gz'))).toBe(true);
+
+      const first = gunzipSync(fs.readFileSync(path.join(dir, segments[0].file))).toString('utf-8');
+      expect(first.trim().split('\n')).toHaveLength(segments[0].records);
+
+      expect(store.verify()).toMatchObject({ valid: true, verified_records: 20 });
+      expect(store.query().map((e) => e.decision_hash)).toEqual(Array.from({ length: 20 }, (_, n) => `hash-${n}`));
+    });
+
+    test('queries across segments by session, verdict, hash and time range', () => {
+      const store = new JsonlLogStore(logPath, jsonlConfig({ rotation: { max_bytes: 1200 } }));
+      for (let n = 0; n < 12; n++) store.append(event(n));
+
+      expect(store.query({ session_id: 'session-1', verdict: 'STOP' }).map((e) => e.decision_hash)).toEqual(['hash-1', 'hash-7']);
+      expect(store.query({ decision_hash: 'hash-4' })).toHaveLength(1);
+      expect(
+        store.query({ since: '2026-01-01T00:03:00Z', until: Date.UTC(2026, 0, 1, 0, 6), limit: 2 }).map((e) => e.decision_hash)
+      ).toEqual(['hash-3', 'hash-4']);
+    });
+
+    test('rotates by age of the first record', () => {
+      const store = new JsonlLogStore(logPath, jsonlConfig({ rotation: { max_age_ms: HOUR_MS }, compress: false }));
+      store.append(event(0, { timestamp: new Date(Date.now() - 2 * HOUR_MS).toISOString() }));
+      store.append(event(1, { timestamp: new Date().toISOString() }));
+      store.append(event(2, { timestamp: new Date().toISOString() }));
+
+      const index = store.readIndex();
+      expect(index.segments).toEqual([expect.objectContaining({ file: 'decisions.000001.jsonl', records: 1 })]);
+      expect(fs.readFileSync(logPath, 'utf-8').trim().split('\n')).toHaveLength(2);
+      expect(store.verify().valid).toBe(true);
+    });
+
+    test('retention deletes the oldest segments and the rest still verifies', () => {
+      const store = new JsonlLogStore(logPath, jsonlConfig({ rotation: { max_bytes: 800 }, retention: { max_segments: 2 } }));
+      for (let n = 0; n < 20; n++) store.append(event(n));
+
+      const index = store.readIndex();
+      expect(index.segments).toHaveLength(2);
+      expect(index.segments[0].segment).toBeGreaterThan(1);
+      expect(index.pruned).not.toBeNull();
+      expect(fs.readdirSync(dir).filter((file) => file.endsWith('.gz'))).toHaveLength(2);
+
+      const report = store.verify();
+      expect(report.valid).toBe(true);
+      expect(report.verified_records).toBeLessThan(20);
+
+      // Editing a retained record still breaks the chain
+      const active = fs.readFileSync(logPath, 'utf-8');
+      fs.writeFileSync(logPath, active.replace('"policy_id":"test"', '"policy_id":"edited"'));
+      expect(store.verify()).toMatchObject({ valid: false, first_break: { kind: 'broken_link' } });
+    });
+  });
+
+  describe('Indexed backend', () => {
+    test('looks up records by decision_hash, session_id, verdict and time', () => {
+      const store = new IndexedLogStore(logPath);
+      for (let n = 0; n < 30; n++) store.append(event(n));
+
+      expect(store.query({ decision_hash: 'hash-17' }).map((e) => e.event_id)).toHaveLength(1);
+      expect(store.query({ session_id: 'session-0', verdict: 'HOLD' }).map((e) => e.decision_hash)).toEqual([
+        'hash-2',
+        'hash-8',
+        'hash-14',
+        'hash-20',
+        'hash-26',
+      ]);
+      expect(store.query({ since: Date.UTC(2026, 0, 1, 0, 28) }).map((e) => e.decision_hash)).toEqual(['hash-28', 'hash-29']);
+      expect(store.query({ verdict: 'STOP', limit: 3 })).toHaveLength(3);
+      expect(store.verify()).toMatchObject({ valid: true, verified_records: 30 });
+    });
+
+    test('rebuilds index entries the data file has but the index lacks', () => {
+      const store = new IndexedLogStore(logPath);
+      for (let n = 0; n < 5; n++) store.append(event(n));
+
+      // Lost index tail, plus records appended by another writer
+      const indexPath = path.join(dir, 'decisions.index.jsonl');
+      const lines = fs.readFileSync(indexPath, 'utf-8').trim().split('\n');
+      fs.writeFileSync(indexPath, lines.slice(0, 2).join('\n') + '\n');
+      new JsonlLogStore(logPath, jsonlConfig()).append(event(5));
+
+      const reopened = new IndexedLogStore(logPath);
+      expect(reopened.query({ decision_hash: 'hash-5' })).toHaveLength(1);
+      expect(reopened.query().map((e) => e.decision_hash)).toEqual(['hash-0', 'hash-1', 'hash-2', 'hash-3', 'hash-4', 'hash-5']);
+      expect(fs.readFileSync(indexPath, 'utf-8').trim().split('\n')).toHaveLength(6);
+    });
+
+    test('a long-running reader sees records other processes append', () => {
+      const reader = new IndexedLogStore(logPath);
+      const writer = new IndexedLogStore(logPath); // Stands in for another process
+      writer.append(event(0));
+      expect(reader.query().map((e) => e.decision_hash)).toEqual(['hash-0']);
+
+      writer.append(event(1));
+      new JsonlLogStore(logPath, jsonlConfig()).append(event(2)); // Not in the index yet
+      expect(reader.query({ session_id: 'session-1' }).map((e) => e.decision_hash)).toEqual(['hash-1']);
+      expect(reader.query().map((e) => e.decision_hash)).toEqual(['hash-0', 'hash-1', 'hash-2']);
+
+      // A record indexed by two processes at once is listed once
+      const indexPath = path.join(dir, 'decisions.index.jsonl');
+      const lines = fs.readFileSync(indexPath, 'utf-8').trim().split('\n');
+      fs.appendFileSync(indexPath, lines[lines.length - 1] + '\n');
+      writer.append(event(3));
+      expect(writer.query().map((e) => e.decision_hash)).toEqual(['hash-0', 'hash-1', 'hash-2', 'hash-3']);
+      expect(reader.query().map((e) => e.decision_hash)).toEqual(['hash-0', 'hash-1', 'hash-2', 'hash-3']);
+    });
+  });
+
+  describe('Configuration', () => {
+    test('reads backend, rotation and retention from the environment', () => {
+      expect(
+        loadLogStoreConfig({
+          EAR_LOG_BACKEND: 'indexed',
+          EAR_LOG_ROTATE_BYTES: '1048576',
+          EAR_LOG_COMPRESS: 'false',
+          EAR_LOG_RETAIN_SEGMENTS: '7',
+        })
+      ).toEqual({
+        backend: 'indexed',
+        rotation: { max_bytes: 1048576, max_age_ms: undefined },
+        compress: false,
+        retention: { max_segments: 7, max_age_ms: undefined },
+      });
+      expect(() => loadLogStoreConfig({ EAR_LOG_BACKEND: 'sqlite' })).toThrow('EAR_LOG_BACKEND must be one of jsonl, indexed');
+    });
+
+    test('opens the configured backend once per log path', () => {
+      const store = openLogStore(logPath, { ...jsonlConfig(), backend: 'indexed' });
+      expect(store).toBeInstanceOf(IndexedLogStore);
+      expect(openLogStore(logPath)).toBe(store);
+    });
+  });
+});
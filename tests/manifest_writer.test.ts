@@ -0,0 +1,225 @@
+/**
+ * Manifest Writer Tests
+ *
+ * Stress-tests proof manifest updates under hundreds of parallel tool
+ * calls and competing writers, and verifies segment sealing, lock handling
+ * and atomic writes.
+ */
+
+import * as fs from 'fs';
+import { promises as fsPromises } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { receiveToolCall } from '../integrations/openclaw/openclaw_adapter';
+import { ManifestEntry, ManifestWriter, OpenClawManifest } from '../proof/openclaw_intercept/manifest_writer';
+import { canonicalHash } from '../proof/canonical_json';
+
+/**
+ * All entries of a manifest, sealed segments first, checking each segment's hash
+ */
+function allEntries(manifestPath: string): ManifestEntry[] {
+  const manifest: OpenClawManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  const sealed = manifest.segments.flatMap((segment) => {
+    const content = JSON.parse(fs.readFileSync(path.join(path.dirname(manifestPath), segment.file), 'utf-8'));
+    expect(canonicalHash(content)).toBe(segment.sha256);
+    expect(content.decisions).toHaveLength(segment.decision_count);
+    return content.decisions;
+  });
+  return [...sealed, ...manifest.decisions];
+}
+
+function entry(n: number, source = 'test'): ManifestEntry {
+  return { event_id: `event-${n}`, verdict: n % 3 === 0 ? 'STOP' : 'ALLOW', source };
+}
+
+describe('Proof manifest writer', () => {
+  let logDir: string;
+  let manifestPath: string;
+
+  beforeEach(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ear-manifest-writer-'));
+    manifestPath = path.join(logDir, 'proof_manifest.json');
+  });
+
+  afterEach(() => {
+    delete process.env.EAR_OPENCLAW_LOG_DIR;
+    delete process.env.EAR_MANIFEST_SEGMENT_SIZE;
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  test('keeps every decision of 300 parallel tool calls', async () => {
+    process.env.EAR_OPENCLAW_LOG_DIR = logDir;
+    process.env.EAR_MANIFEST_SEGMENT_SIZE = '64';
+
+    const results = await Promise.all(
+      Array.from({ length: 300 }, (_, i) =>
+        receiveToolCall({
+          tool_name: 'read_file',
+          arguments: { path: `./docs/file-${i}.md` },
+          metadata: { source: i % 2 ? 'mcp' : 'http', timestamp: Date.now() },
+        })
+      )
+    );
+
+    const logged = fs
+      .readFileSync(path.join(logDir, 'openclaw_decisions.jsonl'), 'utf-8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line).event_id);
+    const entries = allEntries(manifestPath);
+
+    expect(results.every((result) => !('error_code' in result))).toBe(true);
+    expect(entries).toHaveLength(300);
+    expect(new Set(entries.map((e) => e.event_id))).toEqual(new Set(logged));
+
+    const manifest: OpenClawManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    expect(manifest.segments).toHaveLength(4);
+    expect(manifest.decisions).toHaveLength(300 - 4 * 64);
+    expect(manifest.metadata).toMatchObject({ total_decisions: 300, allow_count: 300, segment_count: 4 });
+    expect(manifest.metadata.sources.sort()).toEqual(['http', 'mcp']);
+
+    // Nothing but the manifest, its segments and the log is left behind
+    expect(fs.readdirSync(logDir).filter((file) => /\.(tmp|lock)$/.test(file))).toEqual([]);
+  });
+
+  test('competing writers on the same manifest serialize through the lock file', async () => {
+    // Two writers stand in for two processes: they share only the files
+    const a = new ManifestWriter(manifestPath, { segment_size: 50 });
+    const b = new ManifestWriter(manifestPath, { segment_size: 50 });
+
+    await Promise.all(Array.from({ length: 400 }, (_, i) => (i % 2 ? a : b).append(entry(i))));
+
+    const ids = allEntries(manifestPath).map((e) => e.event_id);
+    expect(ids).toHaveLength(400);
+    expect(new Set(ids).size).toBe(400);
+    expect((await a.read()).metadata).toMatchObject({ total_decisions: 400, stop_count: 134, allow_count: 266 });
+  });
+
+  test('breaks stale locks and times out on held ones', async () => {
+    const lockPath = `${manifestPath}.lock`;
+    fs.writeFileSync(lockPath, '99999\n');
+
+    const blocked = new ManifestWriter(manifestPath, { lock_timeout_ms: 50 });
+    await expect(blocked.append(entry(1))).rejects.toThrow('waiting for manifest lock');
+    expect(fs.existsSync(manifestPath)).toBe(false);
+
+    const recovering = new ManifestWriter(manifestPath, { lock_timeout_ms: 50, stale_lock_ms: 1 });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await recovering.append(entry(2));
+    jest.restoreAllMocks();
+
+    expect(allEntries(manifestPath).map((e) => e.event_id)).toEqual(['event-2']);
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  test('does not break a lock re-acquired after it was found stale', async () => {
+    const lockPath = `${manifestPath}.lock`;
+    fs.writeFileSync(lockPath, '99999\n');
+    const minuteAgo = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, minuteAgo, minuteAgo);
+
+    // Between the stale check and the rename, another process breaks the lock and takes it
+    const rename = jest.spyOn(fsPromises, 'rename');
+    rename.mockImplementationOnce(async (from, to) => {
+      fs.rmSync(lockPath);
+      fs.writeFileSync(lockPath, '4242\n');
+      rename.mockRestore();
+      return fsPromises.rename(from, to);
+    });
+
+    const writer = new ManifestWriter(manifestPath, { lock_timeout_ms: 50 });
+    await expect(writer.append(entry(1))).rejects.toThrow('waiting for manifest lock');
+    jest.restoreAllMocks();
+
+    expect(fs.readFileSync(lockPath, 'utf-8')).toBe('4242\n');
+    expect(fs.readdirSync(logDir).filter((file) => file.endsWith('.stale'))).toEqual([]);
+  });
+
+  test('runs commits under the lock, in queue order with the entries', async () => {
+    const lockPath = `${manifestPath}.lock`;
+    const committed: string[] = [];
+    const record = (name: string) => () => {
+      expect(fs.existsSync(lockPath)).toBe(true);
+      committed.push(name);
+    };
+
+    const writer = new ManifestWriter(manifestPath);
+    await Promise.all([
+      writer.append(entry(1), record('decision-1')),
+      writer.commit(record('outcome-1')),
+      writer.append(entry(3), record('stop-3'), { keep_on_failure: true }),
+    ]);
+    expect(committed).toEqual(['decision-1', 'outcome-1', 'stop-3']);
+
+    fs.writeFileSync(lockPath, '99999\n'); // Held by another process
+    const blocked = new ManifestWriter(manifestPath, { lock_timeout_ms: 50 });
+    await expect(blocked.commit(record('outcome-2'))).rejects.toThrow('waiting for manifest lock');
+    await expect(blocked.append(entry(6), record('stop-6'), { keep_on_failure: true })).rejects.toThrow('waiting for manifest lock');
+    expect(committed).toHaveLength(3);
+  });
+
+  test('keeps STOP records and commits without an entry when the manifest cannot be written', async () => {
+    fs.mkdirSync(manifestPath); // Manifest reads fail with EISDIR
+    const committed: string[] = [];
+    const writer = new ManifestWriter(manifestPath);
+
+    const results = await Promise.allSettled([
+      writer.append(entry(1), () => committed.push('allow-1')),
+      writer.append(entry(3), () => committed.push('stop-3'), { keep_on_failure: true }),
+      writer.commit(() => committed.push('outcome')),
+    ]);
+
+    expect(committed).toEqual(['stop-3', 'outcome']);
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected', 'fulfilled']);
+  });
+
+  test('commits nothing for an entry whose manifest write fails', async () => {
+    const writer = new ManifestWriter(manifestPath);
+    await writer.append(entry(1));
+
+    const rename = jest.spyOn(fsPromises, 'rename').mockRejectedValue(new Error('disk full'));
+    const committed: string[] = [];
+    const results = await Promise.allSettled([
+      writer.append(entry(2), () => committed.push('allow-2')),
+      writer.append(entry(3), () => committed.push('stop-3'), { keep_on_failure: true }),
+    ]);
+    rename.mockRestore();
+
+    expect(committed).toEqual(['stop-3']);
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect(allEntries(manifestPath).map((written) => written.event_id)).toEqual(['event-1']);
+  });
+
+  test('writes entries before their commit and takes them out if the commit fails', async () => {
+    process.env.EAR_MANIFEST_SEGMENT_SIZE = '2';
+    const writer = new ManifestWriter(manifestPath);
+    const written = () => allEntries(manifestPath).map((decision) => decision.event_id);
+
+    // The first append is flushed on its own; the others queue up as one batch behind it
+    const results = await Promise.allSettled([
+      writer.append(entry(1)),
+      writer.append(entry(2), () => expect(written()).toEqual(['event-1', 'event-2', 'event-4', 'event-5'])),
+      writer.append(entry(4), () => {
+        throw new Error('log append failed');
+      }),
+      writer.append(entry(5)),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected', 'fulfilled']);
+    expect((results[2] as PromiseRejectedResult).reason.message).toBe('log append failed');
+    expect(written()).toEqual(['event-1', 'event-2', 'event-5']);
+  });
+
+  test('seals an oversized legacy manifest into the first segment', async () => {
+    const legacy = { decisions: Array.from({ length: 12 }, (_, i) => entry(i)), metadata: { total_decisions: 12 } };
+    fs.writeFileSync(manifestPath, JSON.stringify(legacy));
+
+    await new ManifestWriter(manifestPath, { segment_size: 10 }).append(entry(12));
+
+    const manifest: OpenClawManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    expect(manifest.segments).toEqual([expect.objectContaining({ segment: 1, decision_count: 13, stop_count: 5 })]);
+    expect(manifest.decisions).toEqual([]);
+    expect(allEntries(manifestPath)).toHaveLength(13);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * MCP Proxy Tests
+ *
+ * Runs the proxy against a fake upstream MCP server (tests/fixtures) and
+ * verifies that only ALLOWed tools/call requests reach it.
+ */
+
+import * as path from 'path';
+import * as readline from 'readline';
+import { PassThrough } from 'stream';
+import { McpProxy, startMcpProxy } from '../integrations/mcp/mcp_proxy';
+
+jest.mock('../proof/openclaw_intercept/decision_logger', () => ({
+  logDecisionEvent: jest.fn(async () => '/proof/proof_manifest.json'),
+}));
+
+const FAKE_SERVER = path.join(__dirname, 'fixtures', 'fake_mcp_server.mjs');
+
+let proxy: McpProxy;
+let input: PassThrough;
+const responses = new Map<unknown, (message: any) => void>();
+let nextId = 1;
+
+function send(line: string) {
+  input.write(line + '\n');
+}
+
+function request(method: string, params?: unknown): Promise<any> {
+  const id = nextId++;
+  return new Promise((resolve) => {
+    responses.set(id, resolve);
+    send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+  });
+}
+
+function callTool(name: string, args: Record<string, any>) {
+  return request('tools/call', { name, arguments: args });
+}
+
+describe('MCP proxy', () => {
+  beforeAll(async () => {
+    input = new PassThrough();
+    const output = new PassThrough();
+    readline.createInterface({ input: output }).on('line', (line) => {
+      const message = JSON.parse(line);
+      responses.get(message.id)?.(message);
+    });
+
+    proxy = startMcpProxy({ command: process.execPath, args: [FAKE_SERVER], input, output, session_id: 'mcp-test' });
+    await request('initialize', { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test' } });
+  });
+
+  afterAll(async () => {
+    input.end();
+    await proxy.done;
+  });
+
+  test('non tools/call messages pass through', async () => {
+    const listed = await request('tools/list');
+    expect(listed.result.tools.map((t: any) => t.name)).toEqual(['echo', 'received', 'last_call']);
+  });
+
+  test('ALLOWed tool calls are forwarded upstream', async () => {
+    const response = await callTool('echo', { text: 'hello' });
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'hello' }] });
+  });
+
+  test('STOP and HOLD are answered by the proxy with the decision hash', async () => {
+    const stopped = await callTool('echo', { text: 'rm -rf / --no-preserve-root' });
+    expect(stopped.result.isError).toBe(true);
+    expect(stopped.result.structuredContent).toMatchObject({ verdict: 'STOP' });
+    expect(stopped.result.content[0].text).toContain(stopped.result.structuredContent.decision_hash);
+
+    const held = await callTool('deploy_production', { service: 'api' });
+    expect(held.result.structuredContent.verdict).toBe('HOLD');
+    expect(held.result.structuredContent.decision_hash).toMatch(/^[0-9a-f]{64}$/);
+
+    const seen = await callTool('received', {});
+    expect(seen.result.content[0].text).toBe('echo,received');
+  });
+
+  test('malformed tools/call requests are rejected without forwarding', async () => {
+    const response = await request('tools/call', { arguments: {} });
+    expect(response.error.code).toBe(-32602);
+  });
+
+  test('tools/call notifications are rejected without forwarding', async () => {
+    const rejected = new Promise<any>((resolve) => responses.set(null, resolve));
+    send(JSON.stringify({ jsonrpc: '2.0', method: 'tools/call', params: { name: 'echo', arguments: { text: 'unjudged' } } }));
+
+    expect((await rejected).error).toEqual({ code: -32600, message: 'tools/call must be a request with an id' });
+    expect((await callTool('last_call', {})).result.content[0].text).not.toContain('unjudged');
+  });
+
+  test('null and non-object messages are rejected without forwarding', async () => {
+    for (const line of ['null', '42', '"tools/call"', 'true']) {
+      const rejected = new Promise<any>((resolve) => responses.set(null, resolve));
+      send(line);
+      expect((await rejected).error).toEqual({ code: -32600, message: 'JSON-RPC messages must be objects' });
+    }
+
+    // The upstream server never saw them and still answers
+    expect((await request('tools/list')).result.tools).toHaveLength(3);
+  });
+
+  test('the judged message is forwarded, not the raw line', async () => {
+    const id = nextId++;
+    const response = new Promise<any>((resolve) => responses.set(id, resolve));
+    // Duplicate keys: JSON.parse keeps the last one, other parsers may keep the first
+    send(
+      `{"jsonrpc":"2.0","id":${id},"method":"tools/call",` +
+        `"params":{"name":"echo","arguments":{"text":"rm -rf /"},"arguments":{"text":"hi"}}}`
+    );
+    expect((await response).result.content[0].text).toBe('hi');
+
+    const forwarded = (await callTool('last_call', {})).result.content[0].text;
+    expect(forwarded).toBe(
+      JSON.stringify({ jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'echo', arguments: { text: 'hi' } } })
+    );
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Policy Replay Tests
+ *
+ * Verifies that logged decisions are replayed against a candidate policy,
+ * that verdict flips are reported with the responsible rules (sequence rules
+ * seeing the replayed session history) and that records the policy did not
+ * decide are left out.
+ */
+
+import { Decision, DecisionInput, evaluateDecision, getActivePolicy } from '../integrations/openclaw/decision_engine';
+import type { Policy } from '../integrations/openclaw/policy';
+import { formatReplayReport, replayDecisions, replayInput } from '../integrations/openclaw/policy_replay';
+import { clearSessionContext, getSessionHistory, recordSessionDecision } from '../integrations/openclaw/session_context';
+import { DecisionEvent, toDecisionEvent } from '../proof/decision_event';
+
+function input(action: string, args: Record<string, any>, session_id?: string, resource = 'unknown'): DecisionInput {
+  return { action, resource, arguments: args, metadata: { source: 'openclaw', timestamp: Date.now(), session_id } };
+}
+
+/**
+ * Decides a call under the active policy the way the adapter does and returns its logged event
+ */
+async function logged(call: DecisionInput, override: Partial<Decision> = {}): Promise<DecisionEvent> {
+  const decision = { ...(await evaluateDecision(call)), ...override };
+  recordSessionDecision(call, decision);
+  return toDecisionEvent(decision, call, { source: 'openclaw', intercepted: true });
+}
+
+function candidatePolicy(edit: (policy: Policy) => void): Policy {
+  const policy: Policy = JSON.parse(JSON.stringify(getActivePolicy()));
+  policy.policy_id = 'openclaw-candidate';
+  policy.version = '2.0.0';
+  edit(policy);
+  return policy;
+}
+
+describe('Policy replay', () => {
+  afterEach(() => {
+    clearSessionContext();
+  });
+
+  test('reports verdict flips with the rules responsible', async () => {
+    const events = [
+      await logged(input('read_config', { file: '/app/config.json' }, undefined, '/app/config.json')),
+      await logged(input('execute_command', { command: 'rm -rf ./build' })),
+      await logged(input('deploy_production', { service: 'api' })),
+      await logged(input('list_files', { path: '/tmp' }, undefined, '/tmp')),
+    ];
+    expect(events.map((e) => e.verdict)).toEqual(['ALLOW', 'ALLOW', 'HOLD', 'ALLOW']);
+
+    const candidate = candidatePolicy((policy) => {
+      policy.thresholds.hold = 3;
+      policy.rules.unshift({ id: 'config-reads', verdict: 'HOLD', score: 6, match: { action: ['read_config'] } });
+      policy.rules.find((rule) => rule.id === 'approval-required-actions')!.verdict = 'STOP';
+    });
+
+    const report = await replayDecisions(events, candidate);
+
+    expect(report).toMatchObject({
+      candidate_policy: { policy_id: 'openclaw-candidate', version: '2.0.0' },
+      recorded_policies: ['openclaw-default'],
+      total_records: 4,
+      compared: 4,
+      unchanged: 1,
+      transitions: { 'ALLOW→HOLD': 2, 'HOLD→STOP': 1 },
+      responsible_rules: { 'config-reads': 1, 'destructive-arguments': 1, 'approval-required-actions': 1 },
+    });
+    expect(report.flips.map((flip) => [flip.action, flip.from, flip.to, flip.rules_added, flip.responsible_rules])).toEqual([
+      ['read_config', 'ALLOW', 'HOLD', ['config-reads'], ['config-reads']],
+      ['execute_command', 'ALLOW', 'HOLD', [], ['destructive-arguments']],
+      ['deploy_production', 'HOLD', 'STOP', [], ['approval-required-actions']],
+    ]);
+    expect(report.flips[1]).toMatchObject({ recorded_risk_score: 0.3, candidate_risk_score: 0.3 });
+  });
+
+  test('sequence rules see the replayed session history, not live sessions', async () => {
+    const events: DecisionEvent[] = [];
+    for (let n = 0; n < 4; n++) {
+      events.push(await logged(input('deploy_production', { service: 'api' }, 'session-replay')));
+    }
+    expect(events.map((e) => e.verdict)).toEqual(['HOLD', 'HOLD', 'HOLD', 'STOP']);
+    expect(events[3].matched_rules).toEqual(['repeated-held-attempts']);
+
+    clearSessionContext();
+    const candidate = candidatePolicy((policy) => {
+      policy.rules = policy.rules.filter((rule) => rule.id !== 'approval-required-actions');
+    });
+
+    const report = await replayDecisions(events, candidate);
+
+    expect(report.flips.map((flip) => `${flip.from}→${flip.to}`)).toEqual(['HOLD→ALLOW', 'HOLD→ALLOW', 'HOLD→ALLOW', 'STOP→ALLOW']);
+    expect(report.flips[3].rules_removed).toEqual(['repeated-held-attempts']);
+    expect(report.flips[3].session_id).toBe('session-replay');
+    expect(getSessionHistory('session-replay')).toEqual([]);
+  });
+
+  test('leaves out records the policy did not decide', async () => {
+    const hold = await logged(input('deploy_production', { service: 'api' }));
+    const approved = await logged(input('deploy_production', { service: 'api' }), {
+      verdict: 'ALLOW',
+      decision_hash: 'b'.repeat(64),
+    });
+    const transition: DecisionEvent = {
+      ...hold,
+      event_type: 'hold_transition',
+      hold: {
+        transition: 'approved',
+        hold_decision_hash: hold.decision_hash!,
+        resolved_by: 'alice',
+        approved_decision_hash: approved.decision_hash,
+      },
+    };
+    const failClosed = await logged(input('list_files', { path: '/tmp' }), {
+      verdict: 'STOP',
+      policy_id: 'fail-closed',
+      matched_rules: [],
+    });
+    const budget = await logged(input('list_files', { path: '/tmp' }, 'session-budget'), {
+      verdict: 'HOLD',
+      matched_rules: ['session-budget'],
+    });
+    const legacy: DecisionEvent = {
+      ...hold,
+      decision_hash: 'c'.repeat(64),
+      action: undefined,
+      resource: undefined,
+      arguments: undefined,
+    };
+
+    expect(replayInput(legacy)).toBeNull();
+
+    const report = await replayDecisions([hold, approved, transition, failClosed, budget, legacy], getActivePolicy());
+
+    expect(report).toMatchObject({
+      total_records: 5,
+      compared: 1,
+      unchanged: 1,
+      flips: [],
+      skipped: { 'not-policy-decision': 1, 'hold-approval': 1, 'session-budget': 1, 'incomplete-record': 1 },
+    });
+  });
+
+  test('renders a markdown diff report and JSON', async () => {
+    const events = [await logged(input('read_config', { file: '/app/config.json' }, 'session-md', '/app/config.json'))];
+    const candidate = candidatePolicy((policy) => {
+      policy.rules.unshift({ id: 'config-reads', verdict: 'HOLD', score: 6, match: { action: ['read_config'] } });
+    });
+    const report = await replayDecisions(events, candidate);
+
+    const markdown = formatReplayReport(report);
+    expect(markdown).toContain('## Policy replay: openclaw-candidate 2.0.0');
+    expect(markdown).toContain('1 verdict flip(s), 0 unchanged');
+    expect(markdown).toContain('| ALLOW→HOLD | 1 |');
+    expect(markdown).toContain('### ALLOW→HOLD');
+    expect(markdown).toContain('- ALLOW read_config /app/config.json  rules: -  risk: 0');
+    expect(markdown).toContain('+ HOLD  read_config /app/config.json  rules: config-reads  risk: 0.6');
+    expect(markdown).toContain('Responsible: `config-reads`');
+
+    expect(JSON.parse(formatReplayReport(report, 'json'))).toEqual(report);
+    expect(formatReplayReport({ ...report, flips: [], transitions: {}, unchanged: 1 })).toContain('No verdict changes.');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * OpenClaw Pre-Tool-Call Hook Tests
+ *
+ * Verifies the before_tool_call mapping onto DecisionInput, in-process
+ * blocking on STOP/HOLD and that logs record the real origin.
+ */
+
+import * as adapter from '../integrations/openclaw/openclaw_adapter';
+import { beforeToolCall, toOpenClawToolCall, OpenClawPluginApi } from '../integrations/openclaw/pre_tool_call_hook';
+import plugin from '../integrations/openclaw/plugin';
+import { logDecisionEvent } from '../proof/openclaw_intercept/decision_logger';
+
+jest.mock('../proof/openclaw_intercept/decision_logger', () => ({
+  logDecisionEvent: jest.fn(async () => '/proof/proof_manifest.json'),
+}));
+
+const ctx = { toolName: 'exec', agentId: 'main', sessionKey: 'agent:main:main' };
+
+function loggedEvents() {
+  return (logDecisionEvent as jest.Mock).mock.calls.map(([event]) => event);
+}
+
+describe('OpenClaw before_tool_call hook', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  test('maps OpenClaw tool names and session keys onto the tool call', () => {
+    const call = toOpenClawToolCall({ toolName: 'exec', params: { command: 'ls -la' } }, ctx);
+
+    expect(call).toMatchObject({
+      tool_name: 'execute_command',
+      arguments: { command: 'ls -la' },
+      metadata: { source: 'openclaw', session_id: 'agent:main:main' },
+    });
+    expect(toOpenClawToolCall({ toolName: 'weather', params: {} }, { agentId: 'main' })).toMatchObject({
+      tool_name: 'weather',
+      metadata: { session_id: 'main' },
+    });
+  });
+
+  test('STOP blocks the call and the log records the real origin', async () => {
+    const result = await beforeToolCall({ toolName: 'exec', params: { command: 'rm -rf /' } }, ctx);
+
+    expect(result).toMatchObject({ block: true, blockReason: expect.stringMatching(/^EAR STOP: .*decision_hash [0-9a-f]{64}/) });
+    expect(loggedEvents()[0]).toMatchObject({ verdict: 'STOP', source: 'openclaw', action: 'execute_command' });
+  });
+
+  test('HOLD blocks pending approval and ALLOW lets OpenClaw run the tool', async () => {
+    const held = await beforeToolCall({ toolName: 'deploy_production', params: { service: 'api' } }, ctx);
+    expect(held?.blockReason).toMatch(/^EAR HOLD - awaiting approval: /);
+
+    expect(await beforeToolCall({ toolName: 'read', params: { path: './README.md' } }, ctx)).toBeUndefined();
+  });
+
+  test('decision failures fail closed', async () => {
+    const spy = jest.spyOn(adapter, 'receiveToolCall').mockRejectedValueOnce(new Error('policy unavailable'));
+
+    const result = await beforeToolCall({ toolName: 'read', params: { path: './README.md' } }, ctx);
+    expect(result).toEqual({ block: true, blockReason: 'EAR decision failed: policy unavailable' });
+
+    spy.mockRestore();
+  });
+
+  test('plugin registers the hook', () => {
+    const on = jest.fn();
+    plugin.register({ on } as OpenClawPluginApi);
+
+    expect(on).toHaveBeenCalledWith('before_tool_call', beforeToolCall);
+  });
+});
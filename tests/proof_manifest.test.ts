@@ -0,0 +1,207 @@
+/**
+ * Proof Manifest Tests
+ *
+ * Verifies session grouping by session_id, the RFC 6962 Merkle root, the
+ * detached (signed) manifest digest and manifest verification against the
+ * source log.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash, generateKeyPairSync } from 'crypto';
+import {
+  buildManifest,
+  computeMerkleRoot,
+  digestPathFor,
+  merkleLeafHash,
+  ProofManifest,
+  selectSession,
+  verifyManifest,
+  writeManifest,
+} from '../proof/proof_manifest';
+import { readDecisionEvents } from '../proof/log_migration';
+import { receiveToolCall } from '../integrations/openclaw/openclaw_adapter';
+import type { DecisionEvent } from '../proof/decision_event';
+import { canExecute } from '../src/types/execution_capability';
+import { registerExecutor } from '../src/executor/executor_registry';
+
+describe('Proof manifest', () => {
+  let logDir: string;
+  let logPath: string;
+  let manifestPath: string;
+
+  const call = (tool_name: string, args: Record<string, any>, session_id: string) =>
+    receiveToolCall({ tool_name, arguments: args, metadata: { source: 'openclaw', timestamp: Date.now(), session_id } });
+
+  // What ProofArtifactGenerator.generate() writes, without the console output
+  const generate = (sessionId?: string): ProofManifest => {
+    const events = readDecisionEvents(fs.readFileSync(logPath, 'utf-8'));
+    const session = selectSession(events.filter((e) => e.event_type === 'decision'), sessionId);
+    const outcomes = events.filter((e) => e.event_type === 'execution_outcome');
+    const manifest = buildManifest(session.session_id, session.decisions, logPath, null, outcomes);
+    writeManifest(manifestPath, manifest);
+    return manifest;
+  };
+
+  const checksOf = (report: ReturnType<typeof verifyManifest>) =>
+    Object.fromEntries(report.checks.map((check) => [check.check, check.ok]));
+
+  beforeAll(async () => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ear-manifest-'));
+    process.env.EAR_OPENCLAW_LOG_DIR = logDir;
+    logPath = path.join(logDir, 'openclaw_decisions.jsonl');
+    // Apart from the OpenClaw logger's own proof_manifest.json in the log directory
+    manifestPath = path.join(logDir, 'proof', 'proof_manifest.json');
+    fs.mkdirSync(path.dirname(manifestPath));
+
+    await call('read_file', { path: './README.md' }, 'session-a');
+    await call('deploy_production', { service: 'api' }, 'session-b');
+    await call('read_file', { path: './package.json' }, 'session-a');
+    await call('exec', { command: 'rm -rf /' }, 'session-b');
+    await call('read_file', { path: './tsconfig.json' }, 'session-a');
+  });
+
+  afterAll(() => {
+    delete process.env.EAR_OPENCLAW_LOG_DIR;
+    delete process.env.EAR_MANIFEST_SIGNING_KEY;
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  test('computes the RFC 6962 tree hash', () => {
+    const events = [1, 2, 3].map((n) => ({ event_id: String(n) }) as DecisionEvent);
+    const [a, b, c] = events.map(merkleLeafHash);
+    const node = (left: Buffer, right: Buffer) =>
+      createHash('sha256').update(Buffer.from([0x01])).update(left).update(right).digest();
+
+    expect(computeMerkleRoot([])).toBe(createHash('sha256').digest('hex'));
+    expect(computeMerkleRoot(events.slice(0, 1))).toBe(a.toString('hex'));
+    expect(computeMerkleRoot(events)).toBe(node(node(a, b), c).toString('hex'));
+    expect(computeMerkleRoot([events[1], events[0], events[2]])).not.toBe(computeMerkleRoot(events));
+  });
+
+  test('groups decisions by session_id and defaults to the latest session', () => {
+    const latest = generate();
+    expect(latest).toMatchObject({ session_id: 'session-a', total_decisions: 3, allow_count: 3 });
+    expect(latest).not.toHaveProperty('manifest_sha256');
+
+    const other = generate('session-b');
+    expect(other).toMatchObject({ session_id: 'session-b', total_decisions: 2, stop_count: 1, hold_count: 1 });
+    expect(other.merkle).toEqual({ algorithm: 'sha256-rfc6962', leaf_count: 2, root: computeMerkleRoot(other.decisions) });
+
+    expect(() => generate('session-z')).toThrow('Session session-z not found');
+  });
+
+  test('verifies the manifest against its digest and source log', () => {
+    generate('session-a');
+    const report = verifyManifest(manifestPath);
+    expect(report.valid).toBe(true);
+    expect(checksOf(report)).toEqual({ digest: true, merkle_root: true, counts: true, source_log: true, log_chain: true });
+
+    // Reformatting the manifest does not change its digest
+    const manifest: ProofManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+    expect(verifyManifest(manifestPath).valid).toBe(true);
+
+    // Dropping a decision breaks the root, counts and digest
+    const dropped = { ...manifest, decisions: manifest.decisions.slice(1) };
+    fs.writeFileSync(manifestPath, JSON.stringify(dropped));
+    expect(checksOf(verifyManifest(manifestPath))).toMatchObject({ digest: false, merkle_root: false, counts: false });
+
+    // A consistent manifest that no longer matches the log
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+    const log = fs.readFileSync(logPath, 'utf-8');
+    fs.writeFileSync(logPath, log.replace('./package.json', './package.lock'));
+    expect(checksOf(verifyManifest(manifestPath))).toMatchObject({ digest: true, merkle_root: true, source_log: false, log_chain: false });
+    fs.writeFileSync(logPath, log);
+  });
+
+  test('signs the detached digest when a signing key is configured', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    process.env.EAR_MANIFEST_SIGNING_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+    generate('session-a');
+    const digest = JSON.parse(fs.readFileSync(digestPathFor(manifestPath), 'utf-8'));
+    expect(digest).toMatchObject({ manifest: 'proof_manifest.json', canonicalization: 'RFC8785', signature: { algorithm: 'ed25519' } });
+    expect(checksOf(verifyManifest(manifestPath, { publicKeyPem }))).toMatchObject({ digest: true, signature: true });
+
+    const otherKey = generateKeyPairSync('ed25519').publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    expect(checksOf(verifyManifest(manifestPath, { publicKeyPem: otherKey }))).toMatchObject({ signature: false });
+  });
+
+  test('reports a missing or malformed manifest, digest or signature as a failed check', () => {
+    const missing = verifyManifest(path.join(logDir, 'proof', 'missing.json'));
+    expect(missing.valid).toBe(false);
+    expect(missing.checks).toEqual([expect.objectContaining({ check: 'manifest', ok: false })]);
+
+    generate('session-a');
+    const digestPath = digestPathFor(manifestPath);
+    const digest = JSON.parse(fs.readFileSync(digestPath, 'utf-8'));
+    const publicKeyPem = generateKeyPairSync('ed25519').publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+    fs.writeFileSync(digestPath, JSON.stringify({ ...digest, signature: { algorithm: 'ed25519', value: 42 } }));
+    expect(checksOf(verifyManifest(manifestPath, { publicKeyPem }))).toMatchObject({ digest: true, signature: false });
+    expect(checksOf(verifyManifest(manifestPath, { publicKeyPem: 'not a key' }))).toMatchObject({ signature: false });
+
+    fs.writeFileSync(digestPath, '{ truncated');
+    const report = verifyManifest(manifestPath);
+    expect(report.valid).toBe(false);
+    expect(report.checks.find((check) => check.check === 'digest')!.message).toContain('cannot read detached digest');
+
+    fs.writeFileSync(manifestPath, '{ truncated');
+    expect(checksOf(verifyManifest(manifestPath))).toEqual({ manifest: false });
+  });
+
+  test("accepts the repository's unchained decision_log.jsonl only with allowLegacy", () => {
+    const legacyLog = path.join(logDir, 'legacy', 'decision_log.jsonl');
+    const legacyManifest = path.join(logDir, 'legacy', 'proof_manifest.json');
+    fs.mkdirSync(path.dirname(legacyLog));
+    fs.copyFileSync(path.join(__dirname, '..', 'decision_log.jsonl'), legacyLog);
+
+    const events = readDecisionEvents(fs.readFileSync(legacyLog, 'utf-8'));
+    const session = selectSession(events.filter((e) => e.event_type === 'decision'));
+    writeManifest(legacyManifest, buildManifest(session.session_id, session.decisions, legacyLog, null));
+
+    const strict = verifyManifest(legacyManifest);
+    expect(checksOf(strict)).toMatchObject({ digest: true, merkle_root: true, source_log: true, log_chain: false });
+
+    const lenient = verifyManifest(legacyManifest, { allowLegacy: true });
+    expect(lenient.valid).toBe(true);
+    expect(lenient.checks.find((check) => check.check === 'log_chain')!.message).toContain('unchained legacy records accepted');
+  });
+
+  test('stays valid while its session logs further decisions', async () => {
+    generate('session-a');
+    await call('read_file', { path: './LICENSE' }, 'session-a');
+
+    const report = verifyManifest(manifestPath);
+    expect(report.valid).toBe(true);
+    expect(report.checks.find((check) => check.check === 'source_log')!.message).toContain('first 3 of 4 decisions');
+  });
+
+  test('counts execution outcomes linked to the session decisions', async () => {
+    registerExecutor({
+      tool_name: 'format_text',
+      description: 'Test stub',
+      usage: '{ text: string }',
+      isValidArguments: (args: any): args is { text: string } => typeof args?.text === 'string',
+      execute: async (args) => {
+        if (args.text === 'fail') throw new Error('formatter crashed');
+        return args.text.toUpperCase();
+      },
+    });
+
+    for (const text of ['ok', 'fail']) {
+      const result = await call('format_text', { text }, 'session-c');
+      if (canExecute(result)) await result.execute();
+    }
+
+    const manifest = generate('session-c');
+    expect(manifest).toMatchObject({ total_decisions: 2, allow_count: 2, execution_success_count: 1, execution_error_count: 1 });
+    expect(verifyManifest(manifestPath).valid).toBe(true);
+
+    fs.writeFileSync(manifestPath, JSON.stringify({ ...manifest, execution_error_count: 0 }));
+    expect(checksOf(verifyManifest(manifestPath))).toMatchObject({ counts: false });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Sandboxed Subprocess Tests
+ *
+ * Verifies the working-directory jail, environment allowlist, timeout
+ * and output cap of subprocess tools, and that the process outcome is
+ * reported in ExecutionResult.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { executeAction } from '../src/executor/executor';
+
+const node = process.execPath;
+
+function runNode(script: string, extra: Record<string, any> = {}) {
+  return executeAction({ tool_name: 'run_command', arguments: { command: node, args: ['-e', script], ...extra } });
+}
+
+describe('Sandboxed subprocess executor', () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'ear-sandbox-')));
+    fs.mkdirSync(path.join(workspace, 'job'));
+    process.env.EAR_WORKSPACE_ROOT = workspace;
+    process.env.EAR_SANDBOX_TIMEOUT_MS = '2000';
+    process.env.EAR_SANDBOX_MAX_OUTPUT_BYTES = '1024';
+  });
+
+  afterEach(() => {
+    for (const name of ['EAR_WORKSPACE_ROOT', 'EAR_SANDBOX_TIMEOUT_MS', 'EAR_SANDBOX_MAX_OUTPUT_BYTES', 'API_TOKEN']) {
+      delete process.env[name];
+    }
+  });
+
+  test('runs jailed with an allowlisted environment and reports the outcome', async () => {
+    process.env.API_TOKEN = 'super-secret';
+
+    const result = await runNode(
+      'console.log(JSON.stringify({ cwd: process.cwd(), env: Object.keys(process.env).sort() }))',
+      { cwd: 'job', env: { LANG: 'C', API_TOKEN: 'injected' } }
+    );
+
+    expect(result).toMatchObject({ success: true, exit_code: 0, stderr: '', truncated: false });
+    expect(result.duration_ms).toBeGreaterThanOrEqual(0);
+
+    const seen = JSON.parse(result.stdout!);
+    expect(seen.cwd).toBe(path.join(workspace, 'job'));
+    expect(seen.env).toEqual(expect.arrayContaining(['HOME', 'LANG']));
+    expect(seen.env).not.toContain('API_TOKEN');
+  });
+
+  test('PATH is set by the sandbox, whatever the tool supplies', async () => {
+    process.env.EAR_SANDBOX_ENV_ALLOWLIST = 'PATH,LANG';
+    try {
+      const result = await runNode('console.log(process.env.PATH)', { env: { PATH: path.join(workspace, 'bin') } });
+      expect(result.stdout).toBe('/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin\n');
+
+      process.env.EAR_SANDBOX_PATH = '/opt/tools/bin';
+      expect((await runNode('console.log(process.env.PATH)')).stdout).toBe('/opt/tools/bin\n');
+    } finally {
+      delete process.env.EAR_SANDBOX_ENV_ALLOWLIST;
+      delete process.env.EAR_SANDBOX_PATH;
+    }
+  });
+
+  test('working directory outside the workspace is refused', async () => {
+    const result = await runNode('console.log(1)', { cwd: '../..' });
+
+    expect(result).toMatchObject({ success: false, error_code: 'execution_failed' });
+    expect(result.error).toMatch(/outside the workspace/);
+  });
+
+  test('non-zero exits, timeouts and output overflow are failures with a reason', async () => {
+    const exited = await executeAction({ tool_name: 'execute_command', arguments: { command: 'echo oops >&2; exit 3' } });
+    expect(exited).toMatchObject({ success: false, exit_code: 3, stderr: 'oops\n' });
+    expect(exited.killed_reason).toBeUndefined();
+
+    const slow = await runNode('setTimeout(() => {}, 60000)', { timeout_ms: 200 });
+    expect(slow).toMatchObject({ success: false, killed_reason: 'timeout', exit_code: null });
+    expect(slow.duration_ms).toBeLessThan(5000);
+
+    const noisy = await runNode("process.stdout.write('x'.repeat(100000)); setTimeout(() => {}, 60000)");
+    expect(noisy).toMatchObject({ success: false, killed_reason: 'output_limit', truncated: true });
+    expect(noisy.stdout).toHaveLength(1024);
+  });
+});
